@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { toDataUrl, requireImage, confirmWithinBudget, EditImageResult } from './generationService.js';
+import { preprocessImage, base64ToBytes, fileExtensionFor, ACCEPTED_IMAGE_TYPES, PreparedImage } from './imagePreprocessing.js';
+import { BatchQueue, BatchItem, BatchItemStatus, MAX_BATCH_CONCURRENCY } from './useBatchQueue.js';
+import type { ToolSettings } from './toolSettings.js';
+import { PromptTemplateRef, templateRef } from './promptTemplates.js';
+import { createZip, ZipEntry } from './zip.js';
+import { downloadBlob } from './download.js';
+import { useI18n, MessageKey } from './i18n.js';
+
+const IMAGE_FILE_NAME = /\.(jpe?g|png|webp|gif|bmp|avif)$/i;
+
+const STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+    queued: 'batch.status.queued',
+    running: 'batch.status.running',
+    done: 'batch.status.done',
+    failed: 'batch.status.failed',
+};
+
+// "001_jane-doe_linkedin.png": position in the batch, the input's name and the tool's suffix.
+export const batchOutputName = (index: number, inputName: string, suffix: string, mimeType: string): string => {
+    const base = inputName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'image';
+    return `${String(index + 1).padStart(3, '0')}_${base}_${suffix}.${fileExtensionFor(mimeType)}`;
+};
+
+interface BatchModeToggleProps {
+    isBatch: boolean;
+    onChange: (isBatch: boolean) => void;
+}
+
+export const BatchModeToggle: React.FC<BatchModeToggleProps> = ({ isBatch, onChange }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="radio-group batch-mode-toggle" role="radiogroup" aria-label={t('batch.modeLabel')}>
+            <button onClick={() => onChange(false)} className={!isBatch ? 'active' : ''} role="radio" aria-checked={!isBatch}>{t('batch.single')}</button>
+            <button onClick={() => onChange(true)} className={isBatch ? 'active' : ''} role="radio" aria-checked={isBatch}>{t('batch.batch')}</button>
+        </div>
+    );
+};
+
+interface BatchPanelProps {
+    // Owned by the tool, so the batch survives switching back to single-photo mode.
+    queue: BatchQueue;
+    toolId: string;
+    // The settings and prompt every item is processed with, written to the manifest.
+    settings: ToolSettings;
+    prompt: string;
+    templates: PromptTemplateRef[];
+    outputSuffix: string;
+    process: (input: PreparedImage, signal: AbortSignal) => Promise<EditImageResult>;
+}
+
+// Runs one tool's settings over many photos and exports the results as a single ZIP.
+export const BatchPanel: React.FC<BatchPanelProps> = ({ queue, toolId, settings, prompt, templates, outputSuffix, process }) => {
+    const { t, tCount } = useI18n();
+    const [concurrency, setConcurrency] = useState<number>(2);
+
+    const total = queue.items.length;
+    const doneCount = queue.items.filter(item => item.status === 'done').length;
+    const failedCount = queue.items.filter(item => item.status === 'failed').length;
+    const queuedCount = queue.items.filter(item => item.status === 'queued').length;
+
+    const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? [])
+            .filter(file => file.type.startsWith('image/') || IMAGE_FILE_NAME.test(file.name))
+            .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+        queue.add(files);
+        event.target.value = '';
+    };
+
+    const runQueue = () => {
+        queue.run(async (file, signal) => {
+            const input = await preprocessImage(file);
+            return requireImage(await process(input, signal));
+        }, concurrency);
+    };
+
+    const handleStart = () => {
+        if (confirmWithinBudget({ edits: queuedCount })) {
+            runQueue();
+        }
+    };
+
+    // A run also picks up items still queued, e.g. after a Stop, so they count towards the budget too.
+    const handleRetryFailed = () => {
+        if (confirmWithinBudget({ edits: queuedCount + failedCount })) {
+            queue.retry();
+            runQueue();
+        }
+    };
+
+    const handleRetryItem = (id: string) => {
+        if (confirmWithinBudget({ edits: queuedCount + 1 })) {
+            queue.retry(id);
+            runQueue();
+        }
+    };
+
+    const handleDownloadZip = () => {
+        const entries: ZipEntry[] = [];
+        const manifestItems = queue.items.map((item: BatchItem, index: number) => {
+            const outputName = item.output ? batchOutputName(index, item.file.name, outputSuffix, item.output.mimeType) : null;
+            if (item.output && outputName) {
+                entries.push({ name: outputName, data: base64ToBytes(item.output.data) });
+            }
+            return { index: index + 1, input: item.file.webkitRelativePath || item.file.name, output: outputName, status: item.status, attempts: item.attempts, error: item.error };
+        });
+        const manifest = { tool: toolId, createdAt: new Date().toISOString(), settings, prompt, templates: templates.map(templateRef), items: manifestItems };
+        entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+        downloadBlob(createZip(entries), `${toolId}_batch.zip`);
+    };
+
+    return (
+        <section className="batch-panel" aria-label={t('batch.label')}>
+            <div className="controls">
+                <label htmlFor={`${toolId}-batch-files`} className="btn">
+                    {t('batch.addPhotos')}
+                </label>
+                <input id={`${toolId}-batch-files`} type="file" multiple accept={ACCEPTED_IMAGE_TYPES} onChange={handleFilesChange} />
+                <label htmlFor={`${toolId}-batch-folder`} className="btn btn-secondary">
+                    {t('batch.addFolder')}
+                </label>
+                <input id={`${toolId}-batch-folder`} type="file" multiple ref={el => el?.setAttribute('webkitdirectory', '')} onChange={handleFilesChange} />
+                <label className="batch-concurrency">
+                    {t('batch.concurrency')}
+                    <select className="filter-select" value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={queue.isRunning}>
+                        {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <div className="controls">
+                {queue.isRunning ? (
+                    <button className="btn btn-secondary" onClick={queue.stop}>{t('batch.stop')}</button>
+                ) : (
+                    <button className="btn" onClick={handleStart} disabled={queuedCount === 0}>
+                        {tCount('batch.process', queuedCount)}
+                    </button>
+                )}
+                <button className="btn btn-secondary" onClick={handleRetryFailed} disabled={queue.isRunning || failedCount === 0}>
+                    {t('batch.retryFailed', { count: failedCount })}
+                </button>
+                <button className="btn btn-secondary" onClick={handleDownloadZip} disabled={queue.isRunning || doneCount === 0}>
+                    {t('batch.downloadZip')}
+                </button>
+                <button className="btn btn-danger" onClick={queue.clear} disabled={total === 0}>
+                    {t('batch.clear')}
+                </button>
+            </div>
+
+            {total > 0 ? (
+                <>
+                    <div className="batch-progress">
+                        <progress value={doneCount + failedCount} max={total} />
+                        <span>{failedCount > 0 ? t('batch.progressWithFailures', { done: doneCount, total, failed: failedCount }) : t('batch.progress', { done: doneCount, total })}</span>
+                    </div>
+                    <ul className="batch-list" aria-live="polite">
+                        {queue.items.map(item => (
+                            <li key={item.id} className={`batch-item batch-${item.status}`}>
+                                {item.output ? (
+                                    <img src={toDataUrl(item.output)} alt={t('batch.resultAlt', { name: item.file.name })} />
+                                ) : (
+                                    <span className="batch-thumbnail-placeholder" aria-hidden="true" />
+                                )}
+                                <div className="batch-item-info">
+                                    <span className="file-name">{item.file.webkitRelativePath || item.file.name}</span>
+                                    <span className="batch-status">
+                                        {t(STATUS_LABELS[item.status])}
+                                        {item.attempts > 1 && ` ${t('batch.attempt', { count: item.attempts })}`}
+                                    </span>
+                                    {item.error && <span className="batch-error">{item.error}</span>}
+                                </div>
+                                <div className="batch-item-actions">
+                                    {item.status === 'failed' && !queue.isRunning && (
+                                        <button className="candidate-link" onClick={() => handleRetryItem(item.id)}>{t('batch.retry')}</button>
+                                    )}
+                                    {item.status !== 'running' && (
+                                        <button className="candidate-link" onClick={() => queue.remove(item.id)}>{t('batch.remove')}</button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            ) : (
+                <p className="placeholder">{t('batch.empty')}</p>
+            )}
+        </section>
+    );
+};
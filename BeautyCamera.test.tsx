@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { BeautyCamera } from './BeautyCamera.js';
+import { installTestClient, stubBrowserApis, uploadFile, pngFile, generatedImage, imageResponse, textResponse, sentParts, PNG_BASE64 } from './testSupport.js';
+
+describe('BeautyCamera', () => {
+    let client: ReturnType<typeof installTestClient>;
+
+    beforeEach(() => {
+        stubBrowserApis();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        client = installTestClient();
+    });
+
+    afterEach(() => {
+        cleanup();
+        localStorage.clear();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const uploadAndBeautify = async () => {
+        const { container } = render(<BeautyCamera />);
+        const button = screen.getByRole('button', { name: 'Beautify Photo' }) as HTMLButtonElement;
+        expect(button.disabled).toBe(true);
+        uploadFile(container, 'beauty-camera-upload', pngFile());
+        await waitFor(() => expect(button.disabled).toBe(false));
+        fireEvent.click(button);
+        return container;
+    };
+
+    it('sends the photo with the prompt and shows the result', async () => {
+        client.generateContent.mockResolvedValue(imageResponse(generatedImage('beautified')));
+
+        await uploadAndBeautify();
+
+        const [result] = await screen.findAllByAltText('AI beautified portrait');
+        expect(result.getAttribute('src')).toBe(`data:image/png;base64,${btoa('beautified')}`);
+        expect(client.generateContent).toHaveBeenCalledTimes(1);
+        const [photo, prompt] = sentParts(client.generateContent.mock.calls[0][0]);
+        expect(photo.inlineData).toEqual({ data: PNG_BASE64, mimeType: 'image/png' });
+        expect(prompt.text).toContain('(Beauty Level: Natural)');
+        expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('explains an answer that has text but no image', async () => {
+        client.generateContent.mockResolvedValue(textResponse('I cannot edit photos of people.'));
+
+        const container = await uploadAndBeautify();
+
+        await waitFor(() => expect(container.querySelector('.outcome-report')).not.toBeNull());
+        expect(container.querySelector('.outcome-report')!.textContent)
+            .toContain('The model replied with a message instead of an image: "I cannot edit photos of people."');
+        expect(screen.queryAllByAltText('AI beautified portrait')).toHaveLength(0);
+    });
+
+    it('shows the error when the request fails', async () => {
+        client.generateContent.mockRejectedValue(new Error('quota exhausted'));
+
+        await uploadAndBeautify();
+
+        const alert = await screen.findByRole('alert');
+        expect(alert.textContent).toBe('An error occurred while generating the image: quota exhausted');
+    });
+});
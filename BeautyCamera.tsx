@@ -3,131 +3,167 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState } from 'react';
+import { imagePart, toDataUrl, generationErrorMessage, editImageVariants, confirmWithinBudget, missingVariantsMessage, MAX_VARIANTS, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { ImageCompare } from './ImageCompare.js';
+import { CandidateGrid, VariantCountSelector } from './CandidateGrid.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { ExportTarget } from './imageExport.js';
+import { useCandidates } from './useCandidates.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps, SettingsLimits } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildBeautyCameraPrompt } from './prompts/beautyCamera.js';
+import { useI18n } from './i18n.js';
 
 const BEAUTY_LEVELS = ['Natural', 'Clear Skin', 'Makeup', 'Enhanced', 'Glamour', 'Subtle'];
 const FILTERS = ['None', 'Fresh', 'Vintage', 'Black & White', 'Cinematic', 'Retro', 'Cool Tone'];
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
-export const BeautyCamera: React.FC = () => {
-    const [originalImage, setOriginalImage] = useState<File | null>(null);
-    const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-    const [generatedImageBase64, setGeneratedImageBase64] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+export type BeautyCameraSettings = {
+    beautyLevel: string;
+    faceReshape: number;
+    bodySlimming: number;
+    chestEnhancement: number;
+    legExtension: number;
+    filter: string;
+    variants: number;
+};
 
-    // State for advanced options
-    const [beautyLevel, setBeautyLevel] = useState<string>('Natural');
-    const [faceReshape, setFaceReshape] = useState<number>(15);
-    const [bodySlimming, setBodySlimming] = useState<number>(20);
-    const [chestEnhancement, setChestEnhancement] = useState<number>(10);
-    const [legExtension, setLegExtension] = useState<number>(20);
-    const [filter, setFilter] = useState<string>('None');
-
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
-    };
-
-    const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-        setError(null);
-        setGeneratedImageBase64(null);
-        const file = event.target.files?.[0];
-
-        if (file) {
-            if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError('Unsupported file type. Please upload a JPEG, PNG, or WEBP image.');
-                setOriginalImage(null);
-                setOriginalImageBase64(null);
-                return;
-            }
-            setOriginalImage(file);
-            const base64 = await fileToBase64(file);
-            setOriginalImageBase64(base64);
-        }
-    }, []);
+export const DEFAULT_BEAUTY_CAMERA_SETTINGS: BeautyCameraSettings = {
+    beautyLevel: 'Natural',
+    faceReshape: 15,
+    bodySlimming: 20,
+    chestEnhancement: 10,
+    legExtension: 20,
+    filter: 'None',
+    variants: 1,
+};
 
-    const buildPrompt = (): string => {
-        let prompt = `Please perform a professional-grade beautification on the person or people in this portrait, following these specific instructions. It is critical that all changes appear natural and realistic, and that the person's core identity and facial features are preserved. Handle both single and multiple faces if present. Ensure the background remains completely free of distortion.
+const BEAUTY_CAMERA_SETTINGS_LIMITS: SettingsLimits<BeautyCameraSettings> = {
+    beautyLevel: BEAUTY_LEVELS,
+    faceReshape: { min: 0, max: 50 },
+    bodySlimming: { min: 0, max: 50 },
+    chestEnhancement: { min: 0, max: 50 },
+    legExtension: { min: 0, max: 50 },
+    filter: FILTERS,
+    variants: { min: 1, max: MAX_VARIANTS },
+};
 
-1.  **Skin Enhancement (Beauty Level: ${beautyLevel})**:
-    *   **Goal**: Achieve a ${beautyLevel.toLowerCase()} look.
-    *   **Action**: Smooth the skin to remove blemishes, acne, and oiliness, but you **must** preserve natural skin texture to avoid a "plastic" look.
-    *   **Details**: Balance the skin tone, reduce the appearance of wrinkles and dark circles under the eyes, and remove fine facial hair for a clean finish.
+const BEAUTY_CAMERA_PRESETS: PresetDefinition<BeautyCameraSettings>[] = [
+    { name: 'Natural Touch-up', settings: { beautyLevel: 'Natural', faceReshape: 5, bodySlimming: 0, chestEnhancement: 0, legExtension: 0, filter: 'None' } },
+    { name: 'Glamour Portrait', settings: { beautyLevel: 'Glamour', faceReshape: 25, bodySlimming: 15, chestEnhancement: 10, legExtension: 15, filter: 'Cinematic' } },
+    { name: 'Retro Film', settings: { beautyLevel: 'Subtle', faceReshape: 10, bodySlimming: 10, chestEnhancement: 0, legExtension: 10, filter: 'Retro' } },
+];
 
-2.  **Eye Enhancement**:
-    *   **Action**: Make the eyes appear brighter and more vibrant. Remove any red-eye effect.
-    *   **Makeup**: If applicable based on the beauty level, naturally enhance eye makeup, including eyeliner, eyeshadow, and eyebrows, ensuring it blends perfectly.
+export const BeautyCamera: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t, optionLabel } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_BEAUTY_CAMERA_SETTINGS, BEAUTY_CAMERA_SETTINGS_LIMITS);
+    const [originalImage, setOriginalImage] = useState<PreparedImage | null>(null);
+    const candidates = useCandidates();
+    const generatedImage = candidates.selected?.image ?? null;
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
 
-3.  **Face Reshaping (Intensity: ${faceReshape}%)**:
-    *   **Action**: Subtly slim the face and refine the jawline by approximately ${faceReshape}%. The effect should be gentle and enhance the natural bone structure.
-    *   **Nose**: Add subtle contouring (highlights and shadows) to the nose to give it a more defined and three-dimensional appearance.
+    // State for advanced options
+    const [beautyLevel, setBeautyLevel] = useState<string>(initialSettings.beautyLevel);
+    const [faceReshape, setFaceReshape] = useState<number>(initialSettings.faceReshape);
+    const [bodySlimming, setBodySlimming] = useState<number>(initialSettings.bodySlimming);
+    const [chestEnhancement, setChestEnhancement] = useState<number>(initialSettings.chestEnhancement);
+    const [legExtension, setLegExtension] = useState<number>(initialSettings.legExtension);
+    const [filter, setFilter] = useState<string>(initialSettings.filter);
+    const [variants, setVariants] = useState<number>(initialSettings.variants);
 
-4.  **Body & Leg Sculpting**:
-    *   **Body**: Slim the waist and torso by approximately ${bodySlimming}%.
-    *   **Chest**: Enhance the bust to be fuller by approximately ${chestEnhancement}%, ensuring the result is natural and proportional to the body frame.
-    *   **Legs**: Elongate the legs by approximately ${legExtension}% to create a taller, more slender silhouette.
-    *   **Constraint**: All body modifications must be proportional and realistic, without warping the background.
+    const settings: BeautyCameraSettings = { beautyLevel, faceReshape, bodySlimming, chestEnhancement, legExtension, filter, variants };
+    const exportTarget: ExportTarget = { toolId: 'beautyCamera', name: 'beautified_photo', settings };
+    useSettingsInUrl(settings);
 
-5.  **Virtual Makeup & Filter**:
-    *   **Makeup**: Apply natural-looking virtual makeup, including lipstick, blush, and contouring that complements the person's skin tone. The opacity and color should be subtle and well-blended.
-    *   **Filter**: Apply a '${filter}' photographic filter to the final image. If 'None' is selected, do not apply any filter.`;
+    const applySettings = (preset: BeautyCameraSettings) => {
+        setBeautyLevel(preset.beautyLevel);
+        setFaceReshape(preset.faceReshape);
+        setBodySlimming(preset.bodySlimming);
+        setChestEnhancement(preset.chestEnhancement);
+        setLegExtension(preset.legExtension);
+        setFilter(preset.filter);
+        setVariants(preset.variants);
+    };
 
-        return prompt;
+    const handleImageChange = (image: PreparedImage | null) => {
+        setError(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        setOriginalImage(image);
     };
 
+    const promptOverrides = usePromptOverrides();
+    const templatePrompt = buildBeautyCameraPrompt(settings);
+    const prompt = withOverride(templatePrompt, promptOverrides.overrides[templatePrompt.id]);
+    // What the next run sends, shown in the prompt inspector.
+    const pendingParts: RequestPart[] = [
+        ...(originalImage ? [imagePart(originalImage.data, originalImage.mimeType)] : []),
+        { text: prompt.text },
+    ];
 
     const handleGenerateClick = async () => {
-        if (!originalImage || !originalImageBase64) {
-            setError('Please upload an image first.');
+        if (!originalImage) {
+            setError(t('common.uploadFirst'));
+            return;
+        }
+
+        if (!confirmWithinBudget({ edits: variants })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setGeneratedImageBase64(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = buildPrompt();
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        {
-                            inlineData: {
-                                data: originalImageBase64,
-                                mimeType: originalImage.type,
-                            },
-                        },
-                        { text: prompt },
-                    ],
-                },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-            
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            const images = await editImageVariants({
+                signal,
+                toolId: 'beautyCamera',
+                parts: [
+                    imagePart(originalImage.data, originalImage.mimeType),
+                    { text: prompt.text },
+                ],
+            }, variants);
 
-            if (imagePart?.inlineData) {
-                setGeneratedImageBase64(imagePart.inlineData.data);
-            } else {
-                 setError('The model did not return an image. This might be due to a safety filter or an issue with the input. Please try a different photo.');
+            candidates.replace(images);
+            recordGeneration({
+                toolId: 'beautyCamera',
+                settings,
+                prompt: prompt.text,
+                templates: [prompt],
+                input: originalImage,
+                outputs: images,
+            });
+            if (images.length < variants) {
+                setError(missingVariantsMessage(images.length, variants));
             }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred while generating the image: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(generationErrorMessage(err));
+            }
         } finally {
             setIsLoading(false);
         }
@@ -136,15 +172,25 @@ export const BeautyCamera: React.FC = () => {
     return (
         <>
             <header className="header">
-                <h1>AI Beauty Camera</h1>
-                <p>Upload a portrait and use the advanced controls below to create the perfect look.</p>
+                <h1>{t('tools.beautyCamera.title')}</h1>
+                <p>{t('beautyCamera.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} />}
+
+            <PresetManager
+                toolId="beautyCamera"
+                settings={settings}
+                defaults={DEFAULT_BEAUTY_CAMERA_SETTINGS}
+                limits={BEAUTY_CAMERA_SETTINGS_LIMITS}
+                builtIns={BEAUTY_CAMERA_PRESETS}
+                onApply={applySettings}
+            />
 
             <div className="beauty-options">
                  <div className="form-group">
-                    <label>1. Beauty Level</label>
+                    <label>{t('beautyCamera.beautyLevel')}</label>
                     <div className="style-selector" role="radiogroup">
                         {BEAUTY_LEVELS.map(level => (
                             <button 
@@ -154,13 +200,13 @@ export const BeautyCamera: React.FC = () => {
                                 role="radio"
                                 aria-checked={beautyLevel === level}
                             >
-                                {level}
+                                {optionLabel('beautyLevel', level)}
                             </button>
                         ))}
                     </div>
                 </div>
                 <div className="form-group slider-group">
-                    <label htmlFor="face-reshape">2. Face Reshape: <strong>{faceReshape}%</strong></label>
+                    <label htmlFor="face-reshape">{t('beautyCamera.faceReshape')} <strong>{faceReshape}%</strong></label>
                     <input 
                         type="range" 
                         id="face-reshape" 
@@ -173,7 +219,7 @@ export const BeautyCamera: React.FC = () => {
                     />
                 </div>
                  <div className="form-group slider-group">
-                    <label htmlFor="body-slimming">3. Body Slimming: <strong>{bodySlimming}%</strong></label>
+                    <label htmlFor="body-slimming">{t('beautyCamera.bodySlimming')} <strong>{bodySlimming}%</strong></label>
                     <input 
                         type="range" 
                         id="body-slimming" 
@@ -186,7 +232,7 @@ export const BeautyCamera: React.FC = () => {
                     />
                 </div>
                  <div className="form-group slider-group">
-                    <label htmlFor="chest-enhancement">4. Chest Enhancement: <strong>{chestEnhancement}%</strong></label>
+                    <label htmlFor="chest-enhancement">{t('beautyCamera.chestEnhancement')} <strong>{chestEnhancement}%</strong></label>
                     <input 
                         type="range" 
                         id="chest-enhancement" 
@@ -199,7 +245,7 @@ export const BeautyCamera: React.FC = () => {
                     />
                 </div>
                 <div className="form-group slider-group">
-                    <label htmlFor="leg-extension">5. Leg Extension: <strong>{legExtension}%</strong></label>
+                    <label htmlFor="leg-extension">{t('beautyCamera.legExtension')} <strong>{legExtension}%</strong></label>
                     <input 
                         type="range" 
                         id="leg-extension" 
@@ -212,7 +258,7 @@ export const BeautyCamera: React.FC = () => {
                     />
                 </div>
                 <div className="form-group">
-                    <label htmlFor="filter-select">6. Filter Style</label>
+                    <label htmlFor="filter-select">{t('beautyCamera.filter')}</label>
                     <select 
                         id="filter-select" 
                         value={filter} 
@@ -220,56 +266,74 @@ export const BeautyCamera: React.FC = () => {
                         className="filter-select"
                     >
                         {FILTERS.map(f => (
-                            <option key={f} value={f}>{f}</option>
+                            <option key={f} value={f}>{optionLabel('filter', f)}</option>
                         ))}
                     </select>
                 </div>
+                <VariantCountSelector label={t('beautyCamera.variants')} value={variants} onChange={setVariants} />
             </div>
 
+            <PromptInspector
+                prompts={[templatePrompt]}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
+
+            <ImageInput
+                id="beauty-camera-upload"
+                label={t('common.uploadPhoto')}
+                value={originalImage}
+                onChange={handleImageChange}
+                onError={setError}
+                pasteAnywhere
+            />
+
             <div className="controls">
-                <label htmlFor="beauty-camera-upload" className="btn">
-                    Upload Photo
-                </label>
-                <input id="beauty-camera-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} />
                 <button 
                     onClick={handleGenerateClick} 
                     className="btn" 
                     disabled={!originalImage || isLoading}
-                    aria-label={isLoading ? "Beautifying, please wait" : "Beautify Photo"}
+                    aria-label={isLoading ? t('beautyCamera.beautifyingLabel') : t('beautyCamera.beautify')}
                 >
-                    {isLoading ? 'Beautifying...' : 'Beautify Photo'}
+                    {isLoading ? t('beautyCamera.beautifying') : t('beautyCamera.beautify')}
                 </button>
-                {generatedImageBase64 && (
-                    <a 
-                        href={`data:image/png;base64,${generatedImageBase64}`} 
-                        download="beautified_photo.png" 
-                        className="btn btn-secondary"
-                    >
-                        Download Photo
-                    </a>
+                {isLoading && (
+                    <button onClick={cancelRequest} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {generatedImage && (
+                    <ExportButton image={generatedImage} target={exportTarget} label={t('common.downloadPhoto')} />
                 )}
             </div>
 
             <section className="image-previews" aria-live="polite">
                 <div className="image-container">
-                    <h3>Original</h3>
-                    {originalImageBase64 ? (
-                        <img src={`data:${originalImage?.type};base64,${originalImageBase64}`} alt="Original user upload" />
+                    <h3>{t('common.original')}</h3>
+                    {originalImage ? (
+                        <img src={toDataUrl(originalImage)} alt={t('common.originalAlt')} />
                     ) : (
-                        <p className="placeholder">Upload an image to see it here.</p>
+                        <p className="placeholder">{t('common.uploadPlaceholder')}</p>
                     )}
                 </div>
                 <div className="image-container">
-                    <h3>Generated</h3>
+                    <h3>{t('common.generated')}</h3>
                     {isLoading ? (
-                        <div className="loading-spinner" aria-label="Processing image"></div>
-                    ) : generatedImageBase64 ? (
-                        <img src={`data:image/png;base64,${generatedImageBase64}`} alt="AI beautified portrait" />
+                        <div className="loading-spinner" aria-label={t('common.processing')}></div>
+                    ) : generatedImage ? (
+                        <img src={toDataUrl(generatedImage)} alt={t('beautyCamera.resultAlt')} />
                     ) : (
-                         <p className="placeholder">Your beautified photo will appear here.</p>
+                         <p className="placeholder">{t('beautyCamera.resultPlaceholder')}</p>
                     )}
                 </div>
             </section>
+
+            <CandidateGrid state={candidates} exportTarget={exportTarget} alt={t('beautyCamera.resultAlt')} />
+
+            {originalImage && generatedImage && !isLoading && (
+                <ImageCompare beforeSrc={toDataUrl(originalImage)} afterSrc={toDataUrl(generatedImage)} />
+            )}
         </>
     );
 };
\ No newline at end of file
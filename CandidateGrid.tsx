@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { toDataUrl, MAX_VARIANTS, GeneratedImage } from './generationService.js';
+import type { CandidatesState } from './useCandidates.js';
+import { ExportButton } from './ExportDialog.js';
+import type { ExportTarget } from './imageExport.js';
+import { useI18n } from './i18n.js';
+
+interface VariantCountSelectorProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+export const VariantCountSelector: React.FC<VariantCountSelectorProps> = ({ label, value, onChange }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="form-group">
+            <label>{label}</label>
+            <div className="radio-group" role="radiogroup" aria-label={t('candidates.countLabel')}>
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                    <button
+                        key={count}
+                        onClick={() => onChange(count)}
+                        className={value === count ? 'active' : ''}
+                        role="radio"
+                        aria-checked={value === count}
+                    >
+                        {count}
+                    </button>
+                ))}
+            </div>
+            <p className="field-description">{t('candidates.countDescription')}</p>
+        </div>
+    );
+};
+
+interface CandidateGridProps {
+    state: CandidatesState;
+    exportTarget: ExportTarget;
+    alt: string;
+    // Applied to a candidate before it is exported, e.g. the crop to an ID photo spec.
+    prepareExport?: (image: GeneratedImage) => Promise<GeneratedImage>;
+}
+
+// Shows every candidate of a multi-variant run. Clicking one selects it for the preview,
+// comparison and download above.
+export const CandidateGrid: React.FC<CandidateGridProps> = ({ state, exportTarget, alt, prepareExport }) => {
+    const { t } = useI18n();
+    const { candidates, selected, favoriteId } = state;
+    if (candidates.length < 2) {
+        return null;
+    }
+
+    return (
+        <section className="candidate-section" aria-label={t('candidates.title')}>
+            <div className="candidate-header">
+                <h3>{t('candidates.heading', { count: candidates.length })}</h3>
+                <button className="btn btn-secondary btn-small" onClick={state.keepFavorite} disabled={!favoriteId}>
+                    {t('candidates.keepFavorite')}
+                </button>
+            </div>
+            <div className="candidate-grid" role="listbox" aria-label={t('candidates.listLabel')}>
+                {candidates.map((candidate, index) => {
+                    const isSelected = candidate.id === selected?.id;
+                    const isFavorite = candidate.id === favoriteId;
+                    return (
+                        <div key={candidate.id} className={`candidate-card ${isSelected ? 'selected' : ''}`} role="option" aria-selected={isSelected}>
+                            <button className="candidate-image" onClick={() => state.select(candidate.id)} aria-label={t('candidates.select', { number: index + 1 })}>
+                                <img src={toDataUrl(candidate.image)} alt={t('candidates.alt', { alt, number: index + 1 })} />
+                            </button>
+                            <div className="candidate-actions">
+                                <button
+                                    className={`candidate-star ${isFavorite ? 'active' : ''}`}
+                                    onClick={() => state.toggleFavorite(candidate.id)}
+                                    aria-pressed={isFavorite}
+                                    aria-label={isFavorite ? t('candidates.unfavorite') : t('candidates.favorite')}
+                                >
+                                    {isFavorite ? '★' : '☆'}
+                                </button>
+                                <ExportButton
+                                    image={candidate.image}
+                                    target={{ ...exportTarget, name: `${exportTarget.name}_${index + 1}` }}
+                                    className="candidate-link"
+                                    prepare={prepareExport}
+                                />
+                                <button className="candidate-link" onClick={() => state.discard(candidate.id)}>
+                                    {t('candidates.discard')}
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { getGenerationService, generationErrorMessage, confirmWithinBudget, GeneratedImage, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import type { ResponseOutcome } from './responseOutcome.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { buildRefinementHistory, RefinementStack } from './useRefinementStack.js';
+import type { IdPhotoSpec, SpecFraming } from './idPhotoSpecs.js';
+import { analyzeSource, checkPhotoCompliance, ComplianceCheck, ComplianceCheckId, SourceAnalysis } from './idPhotoCompliance.js';
+import { buildComplianceFixPrompt } from './prompts/idPhotoCompliance.js';
+import { specLabel } from './IdPhotoFraming.js';
+import { useI18n } from './i18n.js';
+
+// How long the photo has to stay unchanged before it is measured, so that dragging a framing
+// slider does not decode it per step. The face is analysed once per generated photo.
+const CHECK_DELAY_MS = 800;
+
+interface ComplianceReportProps {
+    // The photo cropped to `spec`, which is what gets checked.
+    image: GeneratedImage;
+    // The uncropped photo the face is analysed in, and the framing `image` was cut from it with.
+    source: GeneratedImage;
+    framing: SpecFraming;
+    spec: IdPhotoSpec;
+    // The plain background colour the photo was asked for, or null when it was put on an uploaded background.
+    background: string | null;
+    // Fixes are applied as refinements of the generated photo.
+    stack: RefinementStack;
+    // The parts of the request that produced the base image, replayed as the first turn.
+    initialParts: RequestPart[];
+}
+
+// Checks the photo against the spec's rules once it settles, and offers to regenerate it with a
+// correction for whatever failed.
+export const ComplianceReport: React.FC<ComplianceReportProps> = ({ image, source, framing, spec, background, stack, initialParts }) => {
+    const { t, tCount } = useI18n();
+    const [checks, setChecks] = useState<ComplianceCheck[] | null>(null);
+    const [fixing, setFixing] = useState<ComplianceCheckId[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startCheck, cancel: cancelCheck } = useAbortableRequest();
+    const { start: startFix, cancel: cancelFix } = useAbortableRequest();
+
+    const { start: startAnalysis } = useAbortableRequest();
+    // The face analysis of the current source, shared by every check of its crops. It has its own
+    // request, so a framing change while it runs does not cancel and resend it.
+    const analysisRef = useRef<{ source: GeneratedImage; analysis: Promise<SourceAnalysis> } | null>(null);
+
+    // Null when the user declines to go over their budget.
+    const analysisFor = useCallback((photo: GeneratedImage): Promise<SourceAnalysis> | null => {
+        if (analysisRef.current?.source !== photo) {
+            if (!confirmWithinBudget({ analyses: 1 })) {
+                return null;
+            }
+            const analysis = analyzeSource(photo, { signal: startAnalysis(), toolId: 'idPhoto' });
+            const entry = { source: photo, analysis };
+            analysisRef.current = entry;
+            // A failed analysis is asked again on the next check.
+            analysis.catch(() => {
+                if (analysisRef.current === entry) {
+                    analysisRef.current = null;
+                }
+            });
+        }
+        return analysisRef.current.analysis;
+    }, [startAnalysis]);
+
+    const runCheck = useCallback(async () => {
+        const signal = startCheck();
+        setChecks(null);
+        setError(null);
+        try {
+            const analysis = analysisFor(source);
+            if (!analysis) {
+                setError(t('idPhoto.compliance.overBudget'));
+                return;
+            }
+            const result = await checkPhotoCompliance(image, spec, background, await analysis, framing);
+            if (!signal.aborted) {
+                setChecks(result);
+            }
+        } catch (err) {
+            if (isCancellation(err) || signal.aborted) {
+                return;
+            }
+            console.error(err);
+            setError(t('idPhoto.compliance.failed', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    }, [image, source, framing, spec, background, startCheck, analysisFor]);
+
+    useEffect(() => {
+        setChecks(null);
+        const timer = setTimeout(runCheck, CHECK_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            cancelCheck();
+        };
+    }, [runCheck, cancelCheck]);
+
+    const handleFix = async (ids: ComplianceCheckId[]) => {
+        const base = stack.base;
+        if (!base || ids.length === 0 || !confirmWithinBudget({ edits: 1 })) {
+            return;
+        }
+
+        setFixing(ids);
+        setError(null);
+        setFailedOutcome(null);
+        const signal = startFix();
+        const prompt = buildComplianceFixPrompt(ids, spec, background ?? spec.background);
+
+        try {
+            const { image: fixed, outcome } = await getGenerationService().editImage({
+                signal,
+                toolId: 'idPhoto',
+                history: buildRefinementHistory(initialParts, base, stack.applied),
+                parts: [{ text: prompt.text }],
+            });
+
+            if (fixed) {
+                const names = ids.map(id => t(`idPhoto.compliance.check.${id}`)).join(', ');
+                stack.push({ instruction: t('idPhoto.compliance.fixStep', { checks: names }), image: fixed, prompt: prompt.text });
+            } else {
+                setFailedOutcome(outcome);
+            }
+        } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
+            console.error(err);
+            setError(generationErrorMessage(err));
+        } finally {
+            setFixing(null);
+        }
+    };
+
+    // Asks the model about the face again, in case its first answer was off.
+    const handleRecheck = () => {
+        analysisRef.current = null;
+        runCheck();
+    };
+
+    const failed: ComplianceCheckId[] = checks?.filter(check => check.status === 'fail').map(check => check.id) ?? [];
+    const isChecking = checks === null && !error;
+
+    return (
+        <section className="compliance-report" aria-label={t('idPhoto.compliance.title')}>
+            <h3 className="options-header">{t('idPhoto.compliance.title')}</h3>
+            <p className="field-description">{t('idPhoto.compliance.intro', { spec: specLabel(spec) })}</p>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} />}
+
+            {isChecking && <p className="compliance-summary" role="status">{t('idPhoto.compliance.checking')}</p>}
+            {checks && (
+                <>
+                    <p className={`compliance-summary ${failed.length > 0 ? 'failed' : 'passed'}`} role="status">
+                        {failed.length > 0 ? tCount('idPhoto.compliance.summary', failed.length) : t('idPhoto.compliance.allPassed')}
+                    </p>
+                    <table className="compliance-table">
+                        <thead>
+                            <tr>
+                                <th scope="col">{t('idPhoto.compliance.column.check')}</th>
+                                <th scope="col">{t('idPhoto.compliance.column.measured')}</th>
+                                <th scope="col">{t('idPhoto.compliance.column.expected')}</th>
+                                <th scope="col">{t('idPhoto.compliance.column.result')}</th>
+                                <th scope="col" aria-label={t('idPhoto.compliance.fix')} />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {checks.map((check: ComplianceCheck) => (
+                                <tr key={check.id} className={`compliance-${check.status}`}>
+                                    <th scope="row">{t(`idPhoto.compliance.check.${check.id}`)}</th>
+                                    <td>{check.measured}</td>
+                                    <td>{check.expected}</td>
+                                    <td><span className="compliance-badge">{t(`idPhoto.compliance.status.${check.status}`)}</span></td>
+                                    <td>
+                                        {check.status === 'fail' && (
+                                            <button className="btn btn-secondary btn-small" onClick={() => handleFix([check.id])} disabled={fixing !== null}>
+                                                {fixing?.includes(check.id) ? t('idPhoto.compliance.fixing') : t('idPhoto.compliance.fix')}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </>
+            )}
+
+            <div className="refinement-actions">
+                {failed.length > 1 && (
+                    <button className="btn" onClick={() => handleFix(failed)} disabled={fixing !== null}>
+                        {fixing && fixing.length > 1 ? t('idPhoto.compliance.fixing') : t('idPhoto.compliance.fixAll')}
+                    </button>
+                )}
+                {fixing && (
+                    <button onClick={cancelFix} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
+                <button className="btn btn-secondary" onClick={handleRecheck} disabled={isChecking || fixing !== null}>
+                    {t('idPhoto.compliance.recheck')}
+                </button>
+            </div>
+        </section>
+    );
+};
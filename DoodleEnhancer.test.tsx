@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { DoodleEnhancer, clampPanelCount } from './DoodleEnhancer.js';
+import { installTestClient, stubBrowserApis, uploadFile, pngFile, generatedImage, imageResponse, sentParts } from './testSupport.js';
+
+describe('clampPanelCount', () => {
+    it('keeps counts between 1 and 9', () => {
+        expect(clampPanelCount(4)).toBe(4);
+        expect(clampPanelCount(0)).toBe(1);
+        expect(clampPanelCount(-3)).toBe(1);
+        expect(clampPanelCount(42)).toBe(9);
+    });
+
+    it('drops fractions and treats unparseable input as the minimum', () => {
+        expect(clampPanelCount(5.8)).toBe(5);
+        expect(clampPanelCount(NaN)).toBe(1);
+    });
+});
+
+describe('DoodleEnhancer', () => {
+    let client: ReturnType<typeof installTestClient>;
+
+    beforeEach(() => {
+        stubBrowserApis();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        client = installTestClient();
+    });
+
+    afterEach(() => {
+        cleanup();
+        localStorage.clear();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('clamps the panel count typed into the field and asks for that many panels', async () => {
+        client.generateContent.mockResolvedValue(imageResponse(generatedImage('story')));
+        const { container } = render(<DoodleEnhancer />);
+        const panelCount = container.querySelector<HTMLInputElement>('#panel-count')!;
+
+        fireEvent.change(panelCount, { target: { value: '42' } });
+        expect(panelCount.value).toBe('9');
+        fireEvent.change(panelCount, { target: { value: '' } });
+        expect(panelCount.value).toBe('1');
+        fireEvent.change(panelCount, { target: { value: '6' } });
+
+        uploadFile(container, 'doodle-upload', pngFile('doodle.png'));
+        const button = screen.getByRole('button', { name: 'Generate Story' }) as HTMLButtonElement;
+        await waitFor(() => expect(button.disabled).toBe(false));
+        fireEvent.click(button);
+
+        await waitFor(() => expect(client.generateContent).toHaveBeenCalledTimes(1));
+        const [, prompt] = sentParts(client.generateContent.mock.calls[0][0]);
+        expect(prompt.text).toContain('a total of **6** panels');
+    });
+
+    it('rejects a file that is not an image, whatever its name says', async () => {
+        const { container } = render(<DoodleEnhancer />);
+
+        uploadFile(container, 'doodle-upload', new File(['just some notes'], 'doodle.png', { type: 'image/png' }));
+
+        const alert = await screen.findByRole('alert');
+        expect(alert.textContent).toContain('Unsupported file type.');
+        expect((screen.getByRole('button', { name: 'Generate Story' }) as HTMLButtonElement).disabled).toBe(true);
+        expect(client.generateContent).not.toHaveBeenCalled();
+    });
+});
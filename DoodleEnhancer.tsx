@@ -3,8 +3,27 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState } from 'react';
+import { imagePart, toDataUrl, generationErrorMessage, editImageVariants, confirmWithinBudget, missingVariantsMessage, MAX_VARIANTS, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { ImageCompare } from './ImageCompare.js';
+import { CandidateGrid, VariantCountSelector } from './CandidateGrid.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { ExportTarget } from './imageExport.js';
+import { useCandidates } from './useCandidates.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps, SettingsLimits } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildDoodleEnhancerPrompt } from './prompts/doodleEnhancer.js';
+import { useI18n } from './i18n.js';
 
 const ART_STYLES = [
     'Byzantine', 'Gothic', 'Renaissance', 'Baroque', 'Rococo', 'Neoclassicism',
@@ -12,114 +31,135 @@ const ART_STYLES = [
     'Cubism', 'Expressionism', 'Surrealism', 'Abstract Expressionism', 'Pop Art',
     'Art Nouveau', 'Ukiyo-e', 'Street Art', 'Minimalism', 'Psychedelic', 'De Stijl', 'Futurism'
 ];
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MIN_PANELS = 1;
+const MAX_PANELS = 9;
 
-export const DoodleEnhancer: React.FC = () => {
-    const [originalImage, setOriginalImage] = useState<File | null>(null);
-    const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-    const [generatedImageBase64, setGeneratedImageBase64] = useState<string | null>(null);
+// Keeps the panel count a whole number within the supported range; unparseable input becomes the minimum.
+export const clampPanelCount = (value: number): number => {
+    if (isNaN(value)) {
+        return MIN_PANELS;
+    }
+    return Math.min(MAX_PANELS, Math.max(MIN_PANELS, Math.trunc(value)));
+};
+
+export type DoodleEnhancerSettings = {
+    artStyle: string;
+    panelCount: number;
+    variants: number;
+};
+
+export const DEFAULT_DOODLE_ENHANCER_SETTINGS: DoodleEnhancerSettings = {
+    artStyle: 'Pop Art',
+    panelCount: 3,
+    variants: 1,
+};
+
+const DOODLE_ENHANCER_SETTINGS_LIMITS: SettingsLimits<DoodleEnhancerSettings> = {
+    artStyle: ART_STYLES,
+    panelCount: { min: MIN_PANELS, max: MAX_PANELS },
+    variants: { min: 1, max: MAX_VARIANTS },
+};
+
+const DOODLE_ENHANCER_PRESETS: PresetDefinition<DoodleEnhancerSettings>[] = [
+    { name: 'Classic Comic Strip', settings: { artStyle: 'Pop Art', panelCount: 3 } },
+    { name: 'Woodblock Story', settings: { artStyle: 'Ukiyo-e', panelCount: 4 } },
+    { name: 'Dream Sequence', settings: { artStyle: 'Surrealism', panelCount: 6 } },
+];
+
+export const DoodleEnhancer: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t, optionLabel } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_DOODLE_ENHANCER_SETTINGS, DOODLE_ENHANCER_SETTINGS_LIMITS);
+    const [originalImage, setOriginalImage] = useState<PreparedImage | null>(null);
+    const candidates = useCandidates();
+    const generatedImage = candidates.selected?.image ?? null;
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [artStyle, setArtStyle] = useState<string>('Pop Art');
-    const [panelCount, setPanelCount] = useState<number>(3);
-
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
+    const [artStyle, setArtStyle] = useState<string>(initialSettings.artStyle);
+    const [panelCount, setPanelCount] = useState<number>(initialSettings.panelCount);
+    const [variants, setVariants] = useState<number>(initialSettings.variants);
+
+    const settings: DoodleEnhancerSettings = { artStyle, panelCount, variants };
+    const exportTarget: ExportTarget = { toolId: 'doodleEnhancer', name: `doodle_story_in_${artStyle.toLowerCase()}`, settings };
+    useSettingsInUrl(settings);
+
+    const applySettings = (preset: DoodleEnhancerSettings) => {
+        setArtStyle(preset.artStyle);
+        setPanelCount(preset.panelCount);
+        setVariants(preset.variants);
     };
 
-    const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleImageChange = (image: PreparedImage | null) => {
         setError(null);
-        setGeneratedImageBase64(null);
-        const file = event.target.files?.[0];
-
-        if (file) {
-            if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError('Unsupported file type. Please upload a JPEG, PNG, or WEBP image.');
-                setOriginalImage(null);
-                setOriginalImageBase64(null);
-                return;
-            }
-            setOriginalImage(file);
-            const base64 = await fileToBase64(file);
-            setOriginalImageBase64(base64);
-        }
-    }, []);
+        setFailedOutcome(null);
+        candidates.clear();
+        setOriginalImage(image);
+    };
 
     const handlePanelCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        let value = parseInt(e.target.value, 10);
-        if (isNaN(value)) {
-            value = 1;
-        }
-        if (value > 9) {
-            value = 9;
-        }
-        if (value < 1) {
-            value = 1;
-        }
-        setPanelCount(value);
+        setPanelCount(clampPanelCount(parseInt(e.target.value, 10)));
     };
 
-    const buildPrompt = (): string => {
-        return `You are an expert storyteller and comic artist. Your task is to take this child's doodle and turn it into a multi-panel comic strip story.
-
-**Instructions:**
-1.  **First Panel:** The provided doodle is the very first panel of the story. It sets the scene and introduces the main character or subject.
-2.  **Story Generation:** Based on the doodle, invent a creative, coherent, and imaginative story that unfolds over a total of **${panelCount}** panels. The plot should become more detailed and engaging as the number of panels increases. If the user requests many panels (e.g., 6-9), the story should have a clear beginning, middle, and end.
-3.  **Art Style:** The entire comic strip, including all characters, backgrounds, and panel borders, must be rendered in the **${artStyle}** art style.
-4.  **Final Output:** Your final output must be a **single image** that contains all ${panelCount} panels arranged in a logical grid format (e.g., left-to-right, top-to-bottom), telling the complete story from start to finish. Do not output separate images for each panel.`;
-    };
+    const promptOverrides = usePromptOverrides();
+    const templatePrompt = buildDoodleEnhancerPrompt(settings);
+    const prompt = withOverride(templatePrompt, promptOverrides.overrides[templatePrompt.id]);
+    // What the next run sends, shown in the prompt inspector.
+    const pendingParts: RequestPart[] = [
+        ...(originalImage ? [imagePart(originalImage.data, originalImage.mimeType)] : []),
+        { text: prompt.text },
+    ];
 
     const handleGenerateClick = async () => {
-        if (!originalImage || !originalImageBase64) {
-            setError('Please upload a doodle first.');
+        if (!originalImage) {
+            setError(t('doodleEnhancer.doodleRequired'));
+            return;
+        }
+
+        if (!confirmWithinBudget({ edits: variants })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setGeneratedImageBase64(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = buildPrompt();
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        {
-                            inlineData: {
-                                data: originalImageBase64,
-                                mimeType: originalImage.type,
-                            },
-                        },
-                        { text: prompt },
-                    ],
-                },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-            
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            const images = await editImageVariants({
+                signal,
+                toolId: 'doodleEnhancer',
+                parts: [
+                    imagePart(originalImage.data, originalImage.mimeType),
+                    { text: prompt.text },
+                ],
+            }, variants);
 
-            if (imagePart?.inlineData) {
-                setGeneratedImageBase64(imagePart.inlineData.data);
-            } else {
-                 setError('The model did not return an image. This might be due to a safety filter or an issue with the input. Please try a different doodle.');
+            candidates.replace(images);
+            recordGeneration({
+                toolId: 'doodleEnhancer',
+                settings,
+                prompt: prompt.text,
+                templates: [prompt],
+                input: originalImage,
+                outputs: images,
+            });
+            if (images.length < variants) {
+                setError(missingVariantsMessage(images.length, variants));
             }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred while generating the image: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(generationErrorMessage(err));
+            }
         } finally {
             setIsLoading(false);
         }
@@ -128,15 +168,25 @@ export const DoodleEnhancer: React.FC = () => {
     return (
         <>
             <header className="header">
-                <h1>AI Doodle Storyteller</h1>
-                <p>Turn a doodle into a comic strip. Upload a drawing, choose an art style, and select the number of panels.</p>
+                <h1>{t('tools.doodleEnhancer.title')}</h1>
+                <p>{t('doodleEnhancer.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} subject="doodle" />}
+
+            <PresetManager
+                toolId="doodleEnhancer"
+                settings={settings}
+                defaults={DEFAULT_DOODLE_ENHANCER_SETTINGS}
+                limits={DOODLE_ENHANCER_SETTINGS_LIMITS}
+                builtIns={DOODLE_ENHANCER_PRESETS}
+                onApply={applySettings}
+            />
 
             <div className="options-container doodle-enhancer-options">
                 <div className="form-group">
-                    <label htmlFor="art-style-select">1. Select Art Style</label>
+                    <label htmlFor="art-style-select">{t('doodleEnhancer.artStyle')}</label>
                     <select 
                         id="art-style-select" 
                         value={artStyle} 
@@ -144,12 +194,12 @@ export const DoodleEnhancer: React.FC = () => {
                         className="filter-select"
                     >
                         {ART_STYLES.map(style => (
-                            <option key={style} value={style}>{style}</option>
+                            <option key={style} value={style}>{optionLabel('artStyle', style)}</option>
                         ))}
                     </select>
                 </div>
                 <div className="form-group">
-                    <label htmlFor="panel-count">2. Number of Comic Panels (1-9)</label>
+                    <label htmlFor="panel-count">{t('doodleEnhancer.panelCount', { min: MIN_PANELS, max: MAX_PANELS })}</label>
                     <input
                         type="number"
                         id="panel-count"
@@ -160,52 +210,70 @@ export const DoodleEnhancer: React.FC = () => {
                         max="9"
                     />
                 </div>
+                <VariantCountSelector label={t('doodleEnhancer.variants')} value={variants} onChange={setVariants} />
             </div>
 
+            <PromptInspector
+                prompts={[templatePrompt]}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
+
+            <ImageInput
+                id="doodle-upload"
+                label={t('doodleEnhancer.upload')}
+                value={originalImage}
+                onChange={handleImageChange}
+                onError={setError}
+                pasteAnywhere
+            />
+
             <div className="controls">
-                <label htmlFor="doodle-upload" className="btn">
-                    Upload Doodle
-                </label>
-                <input id="doodle-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} />
                 <button 
                     onClick={handleGenerateClick} 
                     className="btn" 
                     disabled={!originalImage || isLoading}
-                    aria-label={isLoading ? "Generating story, please wait" : "Generate Story"}
+                    aria-label={isLoading ? t('doodleEnhancer.generatingLabel') : t('doodleEnhancer.generate')}
                 >
-                    {isLoading ? 'Generating Story...' : 'Generate Story'}
+                    {isLoading ? t('doodleEnhancer.generating') : t('doodleEnhancer.generate')}
                 </button>
-                {generatedImageBase64 && (
-                    <a 
-                        href={`data:image/png;base64,${generatedImageBase64}`} 
-                        download={`doodle_story_in_${artStyle.toLowerCase()}.png`} 
-                        className="btn btn-secondary"
-                    >
-                        Download Story
-                    </a>
+                {isLoading && (
+                    <button onClick={cancelRequest} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {generatedImage && (
+                    <ExportButton image={generatedImage} target={exportTarget} label={t('doodleEnhancer.download')} />
                 )}
             </div>
 
             <section className="image-previews" aria-live="polite">
                 <div className="image-container">
-                    <h3>Original Doodle</h3>
-                    {originalImageBase64 ? (
-                        <img src={`data:${originalImage?.type};base64,${originalImageBase64}`} alt="Original user doodle" />
+                    <h3>{t('doodleEnhancer.original')}</h3>
+                    {originalImage ? (
+                        <img src={toDataUrl(originalImage)} alt={t('doodleEnhancer.originalAlt')} />
                     ) : (
-                        <p className="placeholder">Upload a doodle to see it here.</p>
+                        <p className="placeholder">{t('doodleEnhancer.uploadPlaceholder')}</p>
                     )}
                 </div>
                 <div className="image-container">
-                    <h3>Generated Comic Strip</h3>
+                    <h3>{t('doodleEnhancer.result')}</h3>
                     {isLoading ? (
-                        <div className="loading-spinner" aria-label="Processing image"></div>
-                    ) : generatedImageBase64 ? (
-                        <img src={`data:image/png;base64,${generatedImageBase64}`} alt={`AI generated comic strip in ${artStyle} style`} />
+                        <div className="loading-spinner" aria-label={t('common.processing')}></div>
+                    ) : generatedImage ? (
+                        <img src={toDataUrl(generatedImage)} alt={t('doodleEnhancer.resultAlt', { style: optionLabel('artStyle', artStyle) })} />
                     ) : (
-                         <p className="placeholder">Your generated comic strip will appear here.</p>
+                         <p className="placeholder">{t('doodleEnhancer.resultPlaceholder')}</p>
                     )}
                 </div>
             </section>
+
+            <CandidateGrid state={candidates} exportTarget={exportTarget} alt={t('doodleEnhancer.resultAlt', { style: optionLabel('artStyle', artStyle) })} />
+
+            {originalImage && generatedImage && !isLoading && (
+                <ImageCompare beforeSrc={toDataUrl(originalImage)} afterSrc={toDataUrl(generatedImage)} beforeLabel={t('doodleEnhancer.compareBefore')} afterLabel={t('doodleEnhancer.compareAfter')} />
+            )}
         </>
     );
 };
\ No newline at end of file
@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { GeneratedImage, toDataUrl } from './generationService.js';
+import {
+    ExportFormat, ExportOptions, ExportTarget, EXPORT_FORMATS, ResizeMode, MAX_EXPORT_DIMENSION,
+    exportMimeType, exportSize, exportDpi, isLossy, renderFileName, exportImage, copyImageToClipboard,
+    loadExportOptions, saveExportOptions,
+} from './imageExport.js';
+import { fileExtensionFor } from './imagePreprocessing.js';
+import { MM_PER_INCH } from './imageDpi.js';
+import { downloadBlob } from './download.js';
+import { useI18n } from './i18n.js';
+
+const RESIZE_MODES: ResizeMode[] = ['none', 'width', 'print'];
+
+interface ExportDialogProps {
+    image: GeneratedImage;
+    target: ExportTarget;
+    onClose: () => void;
+}
+
+// Format, quality, size and file name for saving one image. The options are remembered for the
+// next export from any tool.
+export const ExportDialog: React.FC<ExportDialogProps> = ({ image, target, onClose }) => {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+    const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+    const [isBusy, setIsBusy] = useState<boolean>(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const img = new Image();
+        img.onload = () => setSourceSize({ width: img.naturalWidth, height: img.naturalHeight });
+        img.src = toDataUrl(image);
+    }, [image]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const update = (changes: Partial<ExportOptions>) => {
+        setOptions(current => {
+            const next = { ...current, ...changes };
+            saveExportOptions(next);
+            return next;
+        });
+    };
+
+    const mimeType = exportMimeType(image, options);
+    const outputSize = sourceSize && exportSize(sourceSize, options);
+    const dpi = exportDpi(options, target);
+
+    const run = async (action: () => Promise<string>) => {
+        setIsBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            setMessage(await action());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleDownload = () => run(async () => {
+        const blob = await exportImage(image, options, dpi);
+        // Named after what was produced, in case the browser fell back to PNG.
+        const fileName = renderFileName(options.fileNameTemplate, target, blob.type || mimeType);
+        downloadBlob(blob, fileName);
+        return t('export.downloaded', { fileName });
+    });
+
+    const handleCopy = () => run(async () => {
+        await copyImageToClipboard(image, options);
+        return t('export.copied');
+    });
+
+    const formatLabel = (format: ExportFormat): string =>
+        format === 'original'
+            ? t('export.formatOriginal', { extension: fileExtensionFor(image.mimeType).toUpperCase() })
+            : fileExtensionFor(format).toUpperCase();
+
+    return (
+        <div className="export-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="export-dialog" role="dialog" aria-modal="true" aria-labelledby="export-dialog-title">
+                <h3 id="export-dialog-title">{t('export.title')}</h3>
+
+                <div className="form-group">
+                    <label htmlFor="export-format">{t('export.format')}</label>
+                    <select
+                        id="export-format"
+                        className="filter-select"
+                        value={options.format}
+                        onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                    >
+                        {EXPORT_FORMATS.map(format => (
+                            <option key={format} value={format}>{formatLabel(format)}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {isLossy(mimeType) && (
+                    <div className="form-group">
+                        <label htmlFor="export-quality">{t('export.quality', { quality: options.quality })}</label>
+                        <input
+                            id="export-quality"
+                            type="range"
+                            min="1"
+                            max="100"
+                            value={options.quality}
+                            onChange={(e) => update({ quality: Number(e.target.value) })}
+                        />
+                    </div>
+                )}
+
+                <div className="form-group">
+                    <label>{t('export.size')}</label>
+                    <div className="radio-group" role="radiogroup" aria-label={t('export.size')}>
+                        {RESIZE_MODES.map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => update({ resizeMode: mode })}
+                                className={options.resizeMode === mode ? 'active' : ''}
+                                role="radio"
+                                aria-checked={options.resizeMode === mode}
+                            >
+                                {t(`export.resize.${mode}`)}
+                            </button>
+                        ))}
+                    </div>
+                    {options.resizeMode === 'width' && (
+                        <div className="export-row">
+                            <input
+                                type="number"
+                                className="text-input"
+                                min="1"
+                                max={MAX_EXPORT_DIMENSION}
+                                value={options.width}
+                                onChange={(e) => update({ width: Number(e.target.value) })}
+                                aria-label={t('export.widthLabel')}
+                            />
+                            <span>px</span>
+                        </div>
+                    )}
+                    {options.resizeMode === 'print' && (
+                        <div className="export-row">
+                            <input
+                                type="number"
+                                className="text-input"
+                                min="0.1"
+                                step="0.1"
+                                value={options.printWidthCm}
+                                onChange={(e) => update({ printWidthCm: Number(e.target.value) })}
+                                aria-label={t('export.printWidthLabel')}
+                            />
+                            <span>cm @</span>
+                            <input
+                                type="number"
+                                className="text-input"
+                                min="1"
+                                value={options.dpi}
+                                onChange={(e) => update({ dpi: Number(e.target.value) })}
+                                aria-label={t('export.dpiLabel')}
+                            />
+                            <span>DPI</span>
+                        </div>
+                    )}
+                    {outputSize && (
+                        <p className="field-description">{t('export.outputSize', outputSize)}</p>
+                    )}
+                    {outputSize && dpi && (
+                        <p className="field-description">
+                            {t('export.printSize', {
+                                width: (outputSize.width / dpi * MM_PER_INCH).toFixed(1),
+                                height: (outputSize.height / dpi * MM_PER_INCH).toFixed(1),
+                                dpi,
+                            })}
+                        </p>
+                    )}
+                    {target.dpi && options.resizeMode === 'width' && (
+                        <p className="field-description">{t('export.resizeDropsDpi')}</p>
+                    )}
+                </div>
+
+                <div className="form-group">
+                    <label htmlFor="export-file-name">{t('export.fileName')}</label>
+                    <input
+                        id="export-file-name"
+                        type="text"
+                        className="text-input"
+                        value={options.fileNameTemplate}
+                        onChange={(e) => update({ fileNameTemplate: e.target.value })}
+                    />
+                    <p className="field-description">
+                        {t('export.fileNamePreview', { fileName: renderFileName(options.fileNameTemplate, target, mimeType) })}
+                    </p>
+                    <p className="field-description">
+                        {t('export.fileNameHelp', { tokens: ['name', 'tool', 'date', 'time', ...Object.keys(target.settings ?? {})].map(token => `{${token}}`).join(' ') })}
+                    </p>
+                </div>
+
+                {error && <div className="error-message" role="alert">{error}</div>}
+                {message && <p className="field-description" role="status">{message}</p>}
+
+                <div className="controls">
+                    <button className="btn" onClick={handleDownload} disabled={isBusy}>{t('common.download')}</button>
+                    <button className="btn btn-secondary" onClick={handleCopy} disabled={isBusy || !navigator.clipboard?.write}>
+                        {t('export.copy')}
+                    </button>
+                    <button className="btn btn-secondary" onClick={onClose}>{t('export.close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface ExportButtonProps {
+    image: GeneratedImage;
+    target: ExportTarget;
+    label?: string;
+    className?: string;
+    // Turns `image` into what is exported, such as an ID photo cropped to its spec, when the dialog opens.
+    prepare?: (image: GeneratedImage) => Promise<GeneratedImage>;
+}
+
+// Opens the export dialog for `image`; used in place of a plain download link.
+export const ExportButton: React.FC<ExportButtonProps> = ({ image, target, label, className = 'btn btn-secondary', prepare }) => {
+    const { t } = useI18n();
+    const [prepared, setPrepared] = useState<GeneratedImage | null>(null);
+    const [isPreparing, setIsPreparing] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleOpen = async () => {
+        setError(null);
+        if (!prepare) {
+            setPrepared(image);
+            return;
+        }
+        setIsPreparing(true);
+        try {
+            setPrepared(await prepare(image));
+        } catch (err) {
+            setError(t('export.prepareFailed', { message: err instanceof Error ? err.message : String(err) }));
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    return (
+        <>
+            <button className={className} onClick={handleOpen} disabled={isPreparing}>
+                {label ?? t('common.download')}
+            </button>
+            {error && <span className="field-description" role="alert">{error}</span>}
+            {prepared && <ExportDialog image={prepared} target={target} onClose={() => setPrepared(null)} />}
+        </>
+    );
+};
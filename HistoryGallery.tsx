@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { listHistoryRecords, deleteHistoryRecord, HistoryRecord } from './historyStore.js';
+import { toDataUrl } from './generationService.js';
+import { describeTemplateRef } from './promptTemplates.js';
+import { useI18n } from './i18n.js';
+
+interface HistoryGalleryProps {
+    // Maps tool ids to their display titles, used for the filter and the card labels.
+    toolTitles: Record<string, string>;
+    onReopen: (record: HistoryRecord) => void;
+}
+
+const extensionFor = (mimeType: string): string => mimeType.split('/')[1]?.replace('jpeg', 'jpg').replace('svg+xml', 'svg') || 'png';
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ toolTitles, onReopen }) => {
+    const { locale, t } = useI18n();
+    const [records, setRecords] = useState<HistoryRecord[]>([]);
+    const [toolFilter, setToolFilter] = useState<string>('all');
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadRecords = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setRecords(await listHistoryRecords(toolFilter === 'all' ? undefined : toolFilter));
+        } catch (err) {
+            console.error(err);
+            setError(t('history.loadError', { message: err instanceof Error ? err.message : String(err) }));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [toolFilter]);
+
+    useEffect(() => {
+        loadRecords();
+    }, [loadRecords]);
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteHistoryRecord(id);
+            setRecords(current => current.filter(record => record.id !== id));
+        } catch (err) {
+            console.error(err);
+            setError(t('history.deleteError', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    };
+
+    return (
+        <>
+            <header className="header">
+                <h1>{t('history.title')}</h1>
+                <p>{t('history.subtitle')}</p>
+            </header>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            <div className="options-container history-filters">
+                <div className="form-group">
+                    <label htmlFor="history-tool-filter">{t('history.filterLabel')}</label>
+                    <select
+                        id="history-tool-filter"
+                        value={toolFilter}
+                        onChange={(e) => setToolFilter(e.target.value)}
+                        className="filter-select"
+                    >
+                        <option value="all">{t('history.allTools')}</option>
+                        {Object.entries(toolTitles).map(([id, title]) => (
+                            <option key={id} value={id}>{title}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <section className="history-grid" aria-live="polite">
+                {isLoading ? (
+                    <div className="loading-spinner" aria-label={t('history.loading')}></div>
+                ) : records.length === 0 ? (
+                    <p className="placeholder">{t('history.empty')}</p>
+                ) : (
+                    records.map(record => (
+                        <article className="history-card" key={record.id}>
+                            <div className="history-images">
+                                {record.inputThumbnail && (
+                                    <img src={record.inputThumbnail} alt={t('history.inputThumbnail')} className="history-input-thumbnail" />
+                                )}
+                                {record.outputs.map((output, index) => (
+                                    <img key={index} src={toDataUrl(output)} alt={t('history.output', { number: index + 1 })} className="history-output" />
+                                ))}
+                            </div>
+                            <div className="history-meta">
+                                <h3>{toolTitles[record.toolId] ?? record.toolId}</h3>
+                                <time dateTime={new Date(record.createdAt).toISOString()}>
+                                    {new Date(record.createdAt).toLocaleString(locale)}
+                                </time>
+                                <details>
+                                    <summary>{t('history.settingsAndPrompt')}</summary>
+                                    <dl className="history-settings">
+                                        {Object.entries(record.settings).map(([key, value]) => (
+                                            <React.Fragment key={key}>
+                                                <dt>{key}</dt>
+                                                <dd>{String(value)}</dd>
+                                            </React.Fragment>
+                                        ))}
+                                    </dl>
+                                    {record.templates && record.templates.length > 0 && (
+                                        <p className="field-description">
+                                            {t('history.templates', { templates: record.templates.map(describeTemplateRef).join(', ') })}
+                                        </p>
+                                    )}
+                                    <pre className="history-prompt">{record.prompt}</pre>
+                                </details>
+                            </div>
+                            <div className="history-actions">
+                                <button onClick={() => onReopen(record)} className="btn">{t('history.reopen')}</button>
+                                {record.outputs.map((output, index) => (
+                                    <a
+                                        key={index}
+                                        href={toDataUrl(output)}
+                                        download={`${record.toolId}_${record.createdAt}${record.outputs.length > 1 ? `_${index + 1}` : ''}.${extensionFor(output.mimeType)}`}
+                                        className="btn btn-secondary"
+                                    >
+                                        {record.outputs.length > 1 ? t('history.downloadNumbered', { number: index + 1 }) : t('common.download')}
+                                    </a>
+                                ))}
+                                <button onClick={() => handleDelete(record.id)} className="btn btn-danger" aria-label={t('history.deleteEntry')}>{t('common.delete')}</button>
+                            </div>
+                        </article>
+                    ))
+                )}
+            </section>
+        </>
+    );
+};
@@ -3,148 +3,218 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState, useEffect } from 'react';
+import { getGenerationService, imagePart, toDataUrl, generationErrorMessage, GeneratedImage, RequestPart, editImageVariants, confirmWithinBudget, missingVariantsMessage, MAX_VARIANTS } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { ImageCompare } from './ImageCompare.js';
+import { CandidateGrid, VariantCountSelector } from './CandidateGrid.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { ExportTarget } from './imageExport.js';
+import { useCandidates } from './useCandidates.js';
+import { RefinementPanel } from './RefinementPanel.js';
+import { useRefinementStack } from './useRefinementStack.js';
+import { BatchPanel, BatchModeToggle } from './BatchPanel.js';
+import { useBatchQueue } from './useBatchQueue.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps, SettingsLimits } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildIdPhotoPrompt, buildAttirePrompt } from './prompts/idPhoto.js';
+import {
+    ID_PHOTO_SPECS, DEFAULT_ID_PHOTO_SPEC, ID_PHOTO_BACKGROUNDS, SPEC_BACKGROUND, DEFAULT_FRAMING, SpecFraming, findIdPhotoSpec, backgroundColorFor, renderToSpec,
+} from './idPhotoSpecs.js';
+import {
+    AttireSettings, ID_PHOTO_ATTIRE, DEFAULT_ATTIRE, DEFAULT_ATTIRE_SETTINGS, findAttire, visibleAttireFields, attireValues, attireSuggestions, pickAttireSettings,
+} from './idPhotoAttire.js';
+import { IdPhotoFraming, SpecDetails, specLabel } from './IdPhotoFraming.js';
+import { PrintSheetComposer } from './PrintSheetComposer.js';
+import { ComplianceReport } from './ComplianceReport.js';
+import { tOr, useI18n } from './i18n.js';
 
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
-export const IDPhotoGenerator: React.FC = () => {
+// Offered after the ones of the chosen attire.
+const REFINEMENT_SUGGESTIONS = ['Even out the lighting on the face'];
+
+export type IDPhotoSettings = AttireSettings & {
+    // The id of an entry in ID_PHOTO_ATTIRE.
+    attire: string;
+    // The id of a standard background colour, or SPEC_BACKGROUND for the one the document spec asks for.
+    background: string;
+    // The id of the document spec the photo is cropped to.
+    spec: string;
+    variants: number;
+};
+
+export const DEFAULT_ID_PHOTO_SETTINGS: IDPhotoSettings = {
+    attire: DEFAULT_ATTIRE,
+    ...DEFAULT_ATTIRE_SETTINGS,
+    background: SPEC_BACKGROUND,
+    spec: DEFAULT_ID_PHOTO_SPEC,
+    variants: 1,
+};
+
+const ID_PHOTO_SETTINGS_LIMITS: SettingsLimits<IDPhotoSettings> = {
+    attire: ID_PHOTO_ATTIRE.map(option => option.id),
+    background: [SPEC_BACKGROUND, ...ID_PHOTO_BACKGROUNDS.map(background => background.id)],
+    spec: ID_PHOTO_SPECS.map(spec => spec.id),
+    variants: { min: 1, max: MAX_VARIANTS },
+};
+
+// A missing portrait is left out, for showing the parts before one is chosen.
+export const buildIdPhotoParts = (
+    portrait: PreparedImage | null,
+    background: PreparedImage | null,
+    brooch: PreparedImage | null,
+    promptText: string
+): RequestPart[] => [
+    ...(portrait ? [imagePart(portrait.data, portrait.mimeType)] : []),
+    ...(background ? [imagePart(background.data, background.mimeType)] : []),
+    ...(brooch ? [imagePart(brooch.data, brooch.mimeType)] : []),
+    { text: promptText },
+];
+
+const ID_PHOTO_PRESETS: PresetDefinition<IDPhotoSettings>[] = [
+    { name: 'Classic Business', settings: { attire: 'suit', suitColor: 'black', shirtColor: 'white', hasTie: true, tieColor: 'deep blue' } },
+    { name: 'Modern Open Collar', settings: { attire: 'suit', suitColor: 'charcoal grey', shirtColor: 'light blue', hasTie: false } },
+    { name: 'Navy and Burgundy', settings: { attire: 'suit', suitColor: 'navy', shirtColor: 'white', hasTie: true, tieColor: 'burgundy' } },
+    { name: 'Blazer on Blue', settings: { attire: 'blazer-blouse', blazerColor: 'black', blouseColor: 'white', background: 'blue', spec: 'china-1-inch' } },
+    { name: 'Own Clothes on Red', settings: { attire: 'original', background: 'red', spec: 'china-2-inch' } },
+];
+
+export const IDPhotoGenerator: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_ID_PHOTO_SETTINGS, ID_PHOTO_SETTINGS_LIMITS);
     // Image states
-    const [originalImage, setOriginalImage] = useState<File | null>(null);
-    const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-    const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
-    const [backgroundImageBase64, setBackgroundImageBase64] = useState<string | null>(null);
-    const [broochImage, setBroochImage] = useState<File | null>(null);
-    const [broochImageBase64, setBroochImageBase64] = useState<string | null>(null);
+    const [originalImage, setOriginalImage] = useState<PreparedImage | null>(null);
+    const [backgroundImage, setBackgroundImage] = useState<PreparedImage | null>(null);
+    const [broochImage, setBroochImage] = useState<PreparedImage | null>(null);
     
-    // Attire states
-    const [suitColor, setSuitColor] = useState<string>('black');
-    const [shirtColor, setShirtColor] = useState<string>('white');
-    const [hasTie, setHasTie] = useState<boolean>(true);
-    const [tieColor, setTieColor] = useState<string>('deep blue');
+    // Attire states, with the fields of every attire kept so switching back and forth loses nothing.
+    const [attireId, setAttireId] = useState<string>(initialSettings.attire);
+    const [attireSettings, setAttireSettings] = useState<AttireSettings>(() => pickAttireSettings(initialSettings));
+    const [backgroundId, setBackgroundId] = useState<string>(initialSettings.background);
+    const [specId, setSpecId] = useState<string>(initialSettings.spec);
+    const [variants, setVariants] = useState<number>(initialSettings.variants);
+    const [isBatch, setIsBatch] = useState<boolean>(false);
+    const batchQueue = useBatchQueue();
+
+    const settings: IDPhotoSettings = { attire: attireId, ...attireSettings, background: backgroundId, spec: specId, variants };
+    const spec = findIdPhotoSpec(specId);
+    const attire = findAttire(attireId);
+    const backgroundColor = backgroundColorFor(backgroundId, spec);
+    const exportTarget: ExportTarget = { toolId: 'idPhoto', name: 'id_photo', settings };
+    useSettingsInUrl(settings);
+
+    const applySettings = (preset: IDPhotoSettings) => {
+        setAttireId(preset.attire);
+        setAttireSettings(pickAttireSettings(preset));
+        setBackgroundId(preset.background);
+        setSpecId(preset.spec);
+        setVariants(preset.variants);
+    };
 
     // App states
-    const [generatedImageBase64, setGeneratedImageBase64] = useState<string | null>(null);
+    const candidates = useCandidates();
+    const refinements = useRefinementStack(candidates.selected?.image ?? null);
+    // The selected candidate with any refinements applied.
+    const generatedImage = refinements.current;
+    // The generated photo cropped and scaled to the spec, which is what gets downloaded.
+    const [specImage, setSpecImage] = useState<GeneratedImage | null>(null);
+    const [specFraming, setSpecFraming] = useState<SpecFraming>(DEFAULT_FRAMING);
+    // A crop of the previous photo or spec must not be exported or checked while the new one renders.
+    useEffect(() => {
+        setSpecImage(null);
+    }, [generatedImage, spec]);
+    const [requestParts, setRequestParts] = useState<RequestPart[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
 
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
+    const handlePortraitChange = (image: PreparedImage | null) => {
+        setError(null);
+        setFailedOutcome(null);
+        setOriginalImage(image);
     };
 
-    const createHandleFileChange = (
-        setImage: React.Dispatch<React.SetStateAction<File | null>>,
-        setBase64: React.Dispatch<React.SetStateAction<string | null>>,
-        fileType: string
-    ) => useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleBackgroundChange = (image: PreparedImage | null) => {
         setError(null);
-        const file = event.target.files?.[0];
+        setFailedOutcome(null);
+        setBackgroundImage(image);
+    };
 
-        if (file) {
-            if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError(`Unsupported ${fileType} file type. Please upload a JPEG, PNG, or WEBP image.`);
-                setImage(null);
-                setBase64(null);
-                return;
-            }
-            setImage(file);
-            const base64 = await fileToBase64(file);
-            setBase64(base64);
-        }
-    }, []);
+    const updateAttire = (key: keyof AttireSettings, value: string | boolean) => {
+        setAttireSettings((current: AttireSettings) => ({ ...current, [key]: value }));
+    };
 
-    const handleFileChange = createHandleFileChange(setOriginalImage, setOriginalImageBase64, 'portrait');
-    const handleBackgroundFileChange = createHandleFileChange(setBackgroundImage, setBackgroundImageBase64, 'background');
-    const handleBroochFileChange = createHandleFileChange(setBroochImage, setBroochImageBase64, 'brooch');
+    const handleBroochChange = (image: PreparedImage | null) => {
+        setError(null);
+        setFailedOutcome(null);
+        setBroochImage(image);
+    };
+
+    const promptOverrides = usePromptOverrides();
+    // Also used for every photo of a batch, which share the attire, background and brooch.
+    const templateAttirePrompt = buildAttirePrompt(settings);
+    const attirePrompt = withOverride(templateAttirePrompt, promptOverrides.overrides[templateAttirePrompt.id]);
+    const templatePrompt = buildIdPhotoPrompt(settings, { hasBackground: !!backgroundImage, hasBrooch: !!broochImage, attire: attirePrompt.text });
+    const prompt = withOverride(templatePrompt, promptOverrides.overrides[templatePrompt.id]);
+    // What the next run sends, shown in the prompt inspector.
+    const pendingParts = buildIdPhotoParts(originalImage, backgroundImage, broochImage, prompt.text);
 
     const handleGenerateClick = async () => {
-        if (!originalImage || !originalImageBase64) {
-            setError('Please upload a portrait photo first.');
+        if (!originalImage) {
+            setError(t('idPhoto.portraitRequired'));
+            return;
+        }
+
+        if (!confirmWithinBudget({ edits: variants })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setGeneratedImageBase64(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            
-            const parts: ({ text: string } | { inlineData: { mimeType: string; data: string } })[] = [{
-                inlineData: {
-                    data: originalImageBase64,
-                    mimeType: originalImage.type,
-                },
-            }];
-
-            let promptText = "Your task is to transform the person in the first image into a highly-detailed, professional ID photo based on the following precise instructions. CRITICAL: You must preserve the person's original facial features, hair, and expression exactly as they appear in the source portrait.\n\n";
-            
-            // Attire instructions
-            promptText += `**Attire Customization:**\n`;
-            promptText += `- The person must be dressed in a formal **${suitColor} suit jacket**.\n`;
-            promptText += `- Underneath the jacket, they must wear a crisp **${shirtColor} shirt**.\n`;
-            if (hasTie) {
-                promptText += `- They must wear a **${tieColor} tie**, neatly knotted.\n`;
-            } else {
-                promptText += `- The shirt should be buttoned to the top, but **without a tie**.\n`;
-            }
-
-            // Background instructions
-            promptText += `\n**Background Instructions:**\n`;
-            if (backgroundImage && backgroundImageBase64) {
-                parts.push({
-                    inlineData: {
-                        data: backgroundImageBase64,
-                        mimeType: backgroundImage.type,
-                    },
-                });
-                promptText += `- Extract the person from the first image and place them seamlessly onto the **second image**, which serves as the new background.\n`;
-            } else {
-                promptText += `- The background must be a solid, pure **white color** (#FFFFFF), suitable for an official ID photo.\n`;
-            }
+            const parts = buildIdPhotoParts(originalImage, backgroundImage, broochImage, prompt.text);
             
-            // Brooch instructions
-            if (broochImage && broochImageBase64) {
-                parts.push({
-                    inlineData: {
-                        data: broochImageBase64,
-                        mimeType: broochImage.type,
-                    },
-                });
-                promptText += `\n**Accessory Instructions (Absolute Priority):**\n- Take the **third image (the brooch)** and add it to the person's suit.\n- **Placement:** The brooch MUST be placed on the **upper part of the suit jacket's lapel**. This is a non-negotiable placement.\n- **Sizing:** The brooch MUST be rendered as a **very small and delicate** accessory. It should be an elegant, subtle detail, not a large, distracting object. Its size should be proportional to the lapel.\n- **Realism:** Ensure the brooch's lighting, shadows, and angle perfectly match the suit jacket to make it look completely realistic and naturally pinned on.\n`;
-            }
+            const images = await editImageVariants({ signal, toolId: 'idPhoto', parts }, variants);
 
-            promptText += "\nFinal result must be a high-resolution, professional, and realistic ID photograph."
-            
-            parts.push({ text: promptText });
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
+            candidates.replace(images);
+            setRequestParts(parts);
+            recordGeneration({
+                toolId: 'idPhoto',
+                settings,
+                prompt: prompt.text,
+                templates: [prompt, attirePrompt],
+                input: originalImage,
+                outputs: images,
             });
-            
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-
-            if (imagePart?.inlineData) {
-                setGeneratedImageBase64(imagePart.inlineData.data);
-            } else {
-                 setError('The model did not return an image. This might be due to a safety filter or an issue with the input. Please try a different photo.');
+            if (images.length < variants) {
+                setError(missingVariantsMessage(images.length, variants));
             }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred while generating the image: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(generationErrorMessage(err));
+            }
         } finally {
             setIsLoading(false);
         }
@@ -153,116 +223,251 @@ export const IDPhotoGenerator: React.FC = () => {
     return (
         <>
             <header className="header">
-                <h1>AI Formal ID Photo Generator</h1>
-                <p>Upload a portrait and use the advanced controls below to customize your professional ID picture.</p>
+                <h1>{t('tools.idPhoto.title')}</h1>
+                <p>{t('idPhoto.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} />}
+
+            <PresetManager
+                toolId="idPhoto"
+                settings={settings}
+                defaults={DEFAULT_ID_PHOTO_SETTINGS}
+                limits={ID_PHOTO_SETTINGS_LIMITS}
+                builtIns={ID_PHOTO_PRESETS}
+                onApply={applySettings}
+            />
+
+            <BatchModeToggle isBatch={isBatch} onChange={setIsBatch} />
 
             <div className="id-photo-options">
                 <div className="id-photo-uploads">
-                    <h3 className="options-header">Image Uploads</h3>
-                    <div className="form-group">
-                        <label>1. Portrait (Required)</label>
-                        <div className="logo-upload-container">
-                            <label htmlFor="id-photo-upload" className="btn">
-                                Select Portrait...
-                            </label>
-                            {originalImage && <span className="file-name">{originalImage.name}</span>}
+                    <h3 className="options-header">{t('idPhoto.uploads')}</h3>
+                    {!isBatch && (
+                        <div className="form-group">
+                            <label>{t('idPhoto.portrait')}</label>
+                            <ImageInput
+                                id="id-photo-upload"
+                                label={t('idPhoto.selectPortrait')}
+                                value={originalImage}
+                                onChange={handlePortraitChange}
+                                onError={setError}
+                                subject="portrait image"
+                                pasteAnywhere
+                            />
                         </div>
-                         <input id="id-photo-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} />
-                    </div>
+                    )}
                     <div className="form-group">
-                        <label>2. Background (Optional)</label>
-                        <div className="logo-upload-container">
-                             <label htmlFor="background-upload" className="btn btn-secondary">
-                                Select Background...
-                            </label>
-                            {backgroundImage && <span className="file-name">{backgroundImage.name}</span>}
-                        </div>
-                        <p className="field-description">Default: White background</p>
-                        <input id="background-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleBackgroundFileChange} />
+                        <label>{t('idPhoto.background')}</label>
+                        <ImageInput
+                            id="background-upload"
+                            label={t('idPhoto.selectBackground')}
+                            value={backgroundImage}
+                            onChange={handleBackgroundChange}
+                            onError={setError}
+                            subject="background image"
+                            buttonClassName="btn btn-secondary"
+                        />
+                        {!backgroundImage && (
+                            <>
+                                <p className="field-description">{t('idPhoto.backgroundDefault', { color: backgroundColor.toUpperCase() })}</p>
+                                <div className="radio-group background-swatches" role="radiogroup" aria-label={t('idPhoto.backgroundColor')}>
+                                    {[SPEC_BACKGROUND, ...ID_PHOTO_BACKGROUNDS.map(background => background.id)].map(id => (
+                                        <button
+                                            key={id}
+                                            onClick={() => setBackgroundId(id)}
+                                            className={backgroundId === id ? 'active' : ''}
+                                            role="radio"
+                                            aria-checked={backgroundId === id}
+                                        >
+                                            <span className="background-swatch" style={{ backgroundColor: backgroundColorFor(id, spec) }} aria-hidden="true" />
+                                            {tOr(`idPhoto.backgroundColor.${id}`, id)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </>
+                        )}
                     </div>
                      <div className="form-group">
-                        <label>3. Brooch (Optional)</label>
-                        <div className="logo-upload-container">
-                             <label htmlFor="brooch-upload" className="btn btn-secondary">
-                                Select Brooch...
-                            </label>
-                            {broochImage && <span className="file-name">{broochImage.name}</span>}
-                        </div>
-                         <p className="field-description">Default: No brooch</p>
-                        <input id="brooch-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleBroochFileChange} />
+                        <label>{t('idPhoto.brooch')}</label>
+                        <ImageInput
+                            id="brooch-upload"
+                            label={t('idPhoto.selectBrooch')}
+                            value={broochImage}
+                            onChange={handleBroochChange}
+                            onError={setError}
+                            subject="brooch image"
+                            buttonClassName="btn btn-secondary"
+                        />
+                        <p className="field-description">{t('idPhoto.broochDefault')}</p>
                     </div>
                 </div>
 
                 <div className="attire-options">
-                    <h3 className="options-header">Formal Attire Customization</h3>
+                    <h3 className="options-header">{t('idPhoto.attire')}</h3>
                     <div className="form-group">
-                        <label htmlFor="suit-color">Suit Color</label>
-                        <input id="suit-color" type="text" value={suitColor} onChange={e => setSuitColor(e.target.value)} className="text-input" />
+                        <label htmlFor="id-photo-attire">{t('idPhoto.attireStyle')}</label>
+                        <select id="id-photo-attire" value={attire.id} onChange={e => setAttireId(e.target.value)} className="filter-select">
+                            {ID_PHOTO_ATTIRE.map(option => (
+                                <option key={option.id} value={option.id}>{tOr(`idPhoto.attire.${option.id}`, option.id)}</option>
+                            ))}
+                        </select>
+                        <p className="field-description">{tOr(`idPhoto.attire.${attire.id}.description`, '')}</p>
                     </div>
+                    {visibleAttireFields(attire, attireSettings).map(({ key, kind }) => {
+                        // e.g. "suit-color", matching the ids the suit fields have always had.
+                        const fieldId = key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+                        const value = attireSettings[key];
+                        return kind === 'toggle' ? (
+                            <div className="form-group" key={key}>
+                                <label>{t(`idPhoto.attireField.${key}`)}</label>
+                                <div className="radio-group" role="radiogroup">
+                                    <button onClick={() => updateAttire(key, true)} className={value ? 'active' : ''} role="radio" aria-checked={!!value}>{t('common.yes')}</button>
+                                    <button onClick={() => updateAttire(key, false)} className={!value ? 'active' : ''} role="radio" aria-checked={!value}>{t('common.no')}</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="form-group" key={key}>
+                                <label htmlFor={fieldId}>{t(`idPhoto.attireField.${key}`)}</label>
+                                <input id={fieldId} type="text" value={String(value)} onChange={e => updateAttire(key, e.target.value)} className="text-input" />
+                            </div>
+                        );
+                    })}
                     <div className="form-group">
-                        <label htmlFor="shirt-color">Shirt Color</label>
-                        <input id="shirt-color" type="text" value={shirtColor} onChange={e => setShirtColor(e.target.value)} className="text-input" />
+                        <label htmlFor="id-photo-spec">{t('idPhoto.spec')}</label>
+                        <select id="id-photo-spec" value={specId} onChange={e => setSpecId(e.target.value)} className="filter-select">
+                            {ID_PHOTO_SPECS.map(option => (
+                                <option key={option.id} value={option.id}>{specLabel(option)}</option>
+                            ))}
+                        </select>
+                        <SpecDetails spec={spec} />
                     </div>
-                    <div className="form-group">
-                        <label>Include Tie? (Required)</label>
-                        <div className="radio-group" role="radiogroup">
-                            <button onClick={() => setHasTie(true)} className={hasTie ? 'active' : ''} role="radio" aria-checked={hasTie}>Yes</button>
-                            <button onClick={() => setHasTie(false)} className={!hasTie ? 'active' : ''} role="radio" aria-checked={!hasTie}>No</button>
-                        </div>
+                    {!isBatch && <VariantCountSelector label={t('idPhoto.variants')} value={variants} onChange={setVariants} />}
+                </div>
+            </div>
+
+            <PromptInspector
+                prompts={[templatePrompt, templateAttirePrompt]}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
+
+            {isBatch ? (
+                <BatchPanel
+                    queue={batchQueue}
+                    toolId="idPhoto"
+                    settings={{
+                        attire: attire.id,
+                        ...attireValues(attire, attireSettings),
+                        spec: specId,
+                        background: backgroundImage?.name ?? backgroundColor,
+                        brooch: broochImage?.name ?? 'none',
+                    }}
+                    prompt={prompt.text}
+                    templates={[prompt, attirePrompt]}
+                    outputSuffix="id_photo"
+                    process={async (input, signal) => {
+                        const result = await getGenerationService().editImage({
+                            signal,
+                            toolId: 'idPhoto',
+                            parts: buildIdPhotoParts(input, backgroundImage, broochImage, prompt.text),
+                        });
+                        // Batch photos are cropped to the spec with the default framing.
+                        return result.image ? { ...result, image: await renderToSpec(result.image, spec) } : result;
+                    }}
+                />
+            ) : (
+                <>
+                    <div className="controls">
+                        <button 
+                            onClick={handleGenerateClick} 
+                            className="btn" 
+                            disabled={!originalImage || isLoading}
+                            aria-label={isLoading ? t('common.generatingLabel') : t('idPhoto.generate')}
+                        >
+                            {isLoading ? t('common.generating') : t('idPhoto.generate')}
+                        </button>
+                        {isLoading && (
+                            <button onClick={cancelRequest} className="btn btn-secondary">
+                                {t('common.cancel')}
+                            </button>
+                        )}
+                        {generatedImage && specImage && (
+                            <ExportButton image={specImage} target={{ ...exportTarget, dpi: spec.dpi }} label={t('common.downloadPhoto')} />
+                        )}
                     </div>
-                    {hasTie && (
-                        <div className="form-group">
-                            <label htmlFor="tie-color">Tie Color</label>
-                            <input id="tie-color" type="text" value={tieColor} onChange={e => setTieColor(e.target.value)} className="text-input" />
+
+                    <section className="image-previews" aria-live="polite">
+                        <div className="image-container">
+                            <h3>{t('common.original')}</h3>
+                            {originalImage ? (
+                                <img src={toDataUrl(originalImage)} alt={t('common.originalAlt')} />
+                            ) : (
+                                <p className="placeholder">{t('common.uploadPlaceholder')}</p>
+                            )}
+                        </div>
+                        <div className="image-container">
+                            <h3>{t('common.generated')}</h3>
+                            {isLoading ? (
+                                <div className="loading-spinner" aria-label={t('common.processing')}></div>
+                            ) : generatedImage ? (
+                                <img src={toDataUrl(generatedImage)} alt={t('idPhoto.resultAlt')} />
+                            ) : (
+                                 <p className="placeholder">{t('idPhoto.resultPlaceholder')}</p>
+                            )}
                         </div>
+                    </section>
+
+                    <CandidateGrid
+                        state={candidates}
+                        exportTarget={{ ...exportTarget, dpi: spec.dpi }}
+                        alt={t('idPhoto.resultAlt')}
+                        prepareExport={image => renderToSpec(image, spec)}
+                    />
+
+                    {originalImage && generatedImage && !isLoading && (
+                        <ImageCompare beforeSrc={toDataUrl(originalImage)} afterSrc={toDataUrl(generatedImage)} />
                     )}
-                </div>
-            </div>
 
+                    {generatedImage && !isLoading && (
+                        <IdPhotoFraming
+                            image={generatedImage}
+                            spec={spec}
+                            onRendered={(image, framing) => {
+                                setSpecImage(image);
+                                setSpecFraming(framing);
+                            }}
+                        />
+                    )}
 
-            <div className="controls">
-                <button 
-                    onClick={handleGenerateClick} 
-                    className="btn" 
-                    disabled={!originalImage || isLoading}
-                    aria-label={isLoading ? "Generating, please wait" : "Generate ID Photo"}
-                >
-                    {isLoading ? 'Generating...' : 'Generate ID Photo'}
-                </button>
-                {generatedImageBase64 && (
-                    <a 
-                        href={`data:image/png;base64,${generatedImageBase64}`} 
-                        download="id_photo.png" 
-                        className="btn btn-secondary"
-                    >
-                        Download Photo
-                    </a>
-                )}
-            </div>
+                    {generatedImage && specImage && !isLoading && (
+                        <ComplianceReport
+                            image={specImage}
+                            source={generatedImage}
+                            framing={specFraming}
+                            spec={spec}
+                            background={backgroundImage ? null : backgroundColor}
+                            stack={refinements}
+                            initialParts={requestParts}
+                        />
+                    )}
 
-            <section className="image-previews" aria-live="polite">
-                <div className="image-container">
-                    <h3>Original</h3>
-                    {originalImageBase64 ? (
-                        <img src={`data:${originalImage?.type};base64,${originalImageBase64}`} alt="Original user upload" />
-                    ) : (
-                        <p className="placeholder">Upload an image to see it here.</p>
+                    {generatedImage && specImage && !isLoading && (
+                        <PrintSheetComposer image={specImage} spec={spec} source={generatedImage} />
                     )}
-                </div>
-                <div className="image-container">
-                    <h3>Generated</h3>
-                    {isLoading ? (
-                        <div className="loading-spinner" aria-label="Processing image"></div>
-                    ) : generatedImageBase64 ? (
-                        <img src={`data:image/png;base64,${generatedImageBase64}`} alt="AI generated formal ID photo" />
-                    ) : (
-                         <p className="placeholder">Your generated ID photo will appear here.</p>
+
+                    {generatedImage && !isLoading && (
+                        <RefinementPanel
+                            toolId="idPhoto"
+                            stack={refinements}
+                            initialParts={requestParts}
+                            suggestions={[...attireSuggestions(attire, attireSettings), ...REFINEMENT_SUGGESTIONS]}
+                        />
                     )}
-                </div>
-            </section>
+                </>
+            )}
         </>
     );
 };
\ No newline at end of file
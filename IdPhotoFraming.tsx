@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { GeneratedImage, toDataUrl } from './generationService.js';
+import {
+    IdPhotoSpec, SpecFraming, DEFAULT_FRAMING, MAX_FRAMING_ZOOM, headGuide, renderToSpec, specPixelSize,
+} from './idPhotoSpecs.js';
+import { tOr, useI18n } from './i18n.js';
+
+// Typical width of a face relative to its height, for the oval guide.
+const FACE_ASPECT = 0.75;
+
+export const specLabel = (spec: IdPhotoSpec): string => tOr(`idPhoto.spec.${spec.id}`, spec.id);
+
+// "35 × 45 mm · 413 × 531 px at 300 DPI"
+export const SpecDetails: React.FC<{ spec: IdPhotoSpec }> = ({ spec }) => {
+    const { t } = useI18n();
+    const pixels = specPixelSize(spec);
+    return (
+        <p className="field-description">
+            {t('idPhoto.specDetails', {
+                width: spec.widthMm,
+                height: spec.heightMm,
+                pixelWidth: pixels.width,
+                pixelHeight: pixels.height,
+                dpi: spec.dpi,
+                headMin: Math.round(spec.headHeight.min * 100),
+                headMax: Math.round(spec.headHeight.max * 100),
+            })}
+        </p>
+    );
+};
+
+interface IdPhotoFramingProps {
+    // The generated photo, at whatever size the model returned.
+    image: GeneratedImage;
+    spec: IdPhotoSpec;
+    // Called with each re-rendered photo and the framing it was cut with, or null while none is available.
+    onRendered: (image: GeneratedImage | null, framing: SpecFraming) => void;
+}
+
+// Crops and scales the generated photo to the document spec, with guides for the head and eyes
+// so the framing can be corrected by hand.
+export const IdPhotoFraming: React.FC<IdPhotoFramingProps> = ({ image, spec, onRendered }) => {
+    const { t } = useI18n();
+    const [framing, setFraming] = useState<SpecFraming>(DEFAULT_FRAMING);
+    const [rendered, setRendered] = useState<GeneratedImage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // A new photo or spec starts from the default framing.
+    useEffect(() => {
+        setFraming(DEFAULT_FRAMING);
+    }, [image, spec]);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setError(null);
+        renderToSpec(image, spec, framing)
+            .then(result => {
+                if (isCurrent) {
+                    setRendered(result);
+                    onRendered(result, framing);
+                }
+            })
+            .catch(err => {
+                if (isCurrent) {
+                    setRendered(null);
+                    onRendered(null, framing);
+                    setError(t('idPhoto.framingFailed', { message: err instanceof Error ? err.message : String(err) }));
+                }
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [image, spec, framing]);
+
+    const guide = headGuide(spec);
+    const faceHeight = guide.chin - guide.crown;
+    const faceWidth = faceHeight * FACE_ASPECT * spec.heightMm / spec.widthMm;
+
+    const update = (changes: Partial<SpecFraming>) => setFraming(current => ({ ...current, ...changes }));
+
+    return (
+        <section className="id-photo-framing" aria-label={t('idPhoto.framing', { spec: specLabel(spec) })}>
+            <h3 className="options-header">{t('idPhoto.framing', { spec: specLabel(spec) })}</h3>
+            <SpecDetails spec={spec} />
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            <div className="id-photo-framing-body">
+                <div className="id-photo-framing-preview" style={{ aspectRatio: `${spec.widthMm} / ${spec.heightMm}` }}>
+                    {rendered && <img src={toDataUrl(rendered)} alt={t('idPhoto.specResultAlt', { spec: specLabel(spec) })} />}
+                    <div
+                        className="id-photo-guide-eyes"
+                        style={{ top: `${(1 - spec.eyeLine.max) * 100}%`, height: `${(spec.eyeLine.max - spec.eyeLine.min) * 100}%` }}
+                        aria-hidden="true"
+                    />
+                    <div
+                        className="id-photo-guide-face"
+                        style={{
+                            top: `${guide.crown * 100}%`,
+                            height: `${faceHeight * 100}%`,
+                            left: `${(1 - faceWidth) / 2 * 100}%`,
+                            width: `${faceWidth * 100}%`,
+                        }}
+                        aria-hidden="true"
+                    />
+                </div>
+
+                <div className="id-photo-framing-controls">
+                    <p className="field-description">{t('idPhoto.framingHint')}</p>
+                    <div className="form-group slider-group">
+                        <label htmlFor="framing-zoom">{t('idPhoto.zoom')} <strong>{Math.round(framing.zoom * 100)}%</strong></label>
+                        <input
+                            type="range"
+                            id="framing-zoom"
+                            min="1" max={MAX_FRAMING_ZOOM} step="0.01"
+                            value={framing.zoom}
+                            onChange={(e) => update({ zoom: Number(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group slider-group">
+                        <label htmlFor="framing-offset-x">{t('idPhoto.offsetX')}</label>
+                        <input
+                            type="range"
+                            id="framing-offset-x"
+                            min="-1" max="1" step="0.01"
+                            value={framing.offsetX}
+                            onChange={(e) => update({ offsetX: Number(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group slider-group">
+                        <label htmlFor="framing-offset-y">{t('idPhoto.offsetY')}</label>
+                        <input
+                            type="range"
+                            id="framing-offset-y"
+                            min="-1" max="1" step="0.01"
+                            value={framing.offsetY}
+                            onChange={(e) => update({ offsetY: Number(e.target.value) })}
+                        />
+                    </div>
+                    <button className="btn btn-secondary btn-small" onClick={() => setFraming(DEFAULT_FRAMING)}>
+                        {t('idPhoto.resetFraming')}
+                    </button>
+                </div>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,317 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { useI18n, t } from './i18n.js';
+
+type CompareMode = 'split' | 'blink';
+
+interface ImageCompareProps {
+    beforeSrc: string;
+    afterSrc: string;
+    beforeLabel?: string;
+    afterLabel?: string;
+}
+
+interface NaturalSize {
+    width: number;
+    height: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const LOUPE_SIZE = 140;
+const LOUPE_MAGNIFICATION = 8;
+const BLINK_INTERVAL_MS = 700;
+
+// Where an image of `natural` size lands inside a `frame` with object-fit: contain.
+const containRect = (natural: NaturalSize, frame: NaturalSize) => {
+    const scale = Math.min(frame.width / natural.width, frame.height / natural.height);
+    const width = natural.width * scale;
+    const height = natural.height * scale;
+    return { scale, left: (frame.width - width) / 2, top: (frame.height - height) / 2, width, height };
+};
+
+// Reads pixels for the loupe's colour readout from an offscreen copy of the image.
+const useImagePixels = (src: string) => {
+    const [size, setSize] = useState<NaturalSize | null>(null);
+    const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const img = new Image();
+        img.onload = () => {
+            if (cancelled) {
+                return;
+            }
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            ctx?.drawImage(img, 0, 0);
+            contextRef.current = ctx;
+            setSize({ width: img.naturalWidth, height: img.naturalHeight });
+        };
+        img.src = src;
+        return () => { cancelled = true; };
+    }, [src]);
+
+    const pixelAt = useCallback((x: number, y: number): [number, number, number] | null => {
+        const ctx = contextRef.current;
+        if (!ctx) {
+            return null;
+        }
+        const [r, g, b] = ctx.getImageData(x, y, 1, 1).data;
+        return [r, g, b];
+    }, []);
+
+    return { size, pixelAt };
+};
+
+// Compares an original and a generated image with a draggable split or a blink toggle. Both layers
+// share one zoom and pan, and images of different aspect ratios are each fitted into the same frame.
+export const ImageCompare: React.FC<ImageCompareProps> = ({ beforeSrc, afterSrc, beforeLabel = t('common.original'), afterLabel = t('common.generated') }) => {
+    useI18n();
+    const frameRef = useRef<HTMLDivElement>(null);
+    const [mode, setMode] = useState<CompareMode>('split');
+    const [split, setSplit] = useState<number>(50);
+    const [showAfter, setShowAfter] = useState<boolean>(true);
+    const [isBlinking, setIsBlinking] = useState<boolean>(false);
+    const [zoom, setZoom] = useState<number>(1);
+    const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+    const [loupeEnabled, setLoupeEnabled] = useState<boolean>(false);
+    const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+    const [frameSize, setFrameSize] = useState<NaturalSize>({ width: 0, height: 0 });
+    const dragRef = useRef<{ kind: 'split' | 'pan'; startX: number; startY: number; panX: number; panY: number } | null>(null);
+
+    const before = useImagePixels(beforeSrc);
+    const after = useImagePixels(afterSrc);
+
+    // The frame takes the generated image's aspect ratio; the original is letterboxed inside it.
+    const aspectRatio = after.size ? `${after.size.width} / ${after.size.height}` : before.size ? `${before.size.width} / ${before.size.height}` : '3 / 4';
+
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame) {
+            return;
+        }
+        const observer = new ResizeObserver(([entry]) => {
+            setFrameSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(frame);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (!isBlinking) {
+            return;
+        }
+        const timer = setInterval(() => setShowAfter(value => !value), BLINK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isBlinking]);
+
+    const clampPan = useCallback((x: number, y: number, z: number) => ({
+        x: Math.min(0, Math.max(frameSize.width * (1 - z), x)),
+        y: Math.min(0, Math.max(frameSize.height * (1 - z), y)),
+    }), [frameSize]);
+
+    const localPoint = (event: { clientX: number; clientY: number }) => {
+        const rect = frameRef.current!.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    // Registered natively because React's wheel listener is passive and cannot stop the page scrolling.
+    const viewRef = useRef({ zoom, pan, clampPan });
+    viewRef.current = { zoom, pan, clampPan };
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame) {
+            return;
+        }
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            const { zoom: currentZoom, pan: currentPan, clampPan: clamp } = viewRef.current;
+            const point = localPoint(event);
+            const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, currentZoom * (event.deltaY < 0 ? 1.2 : 1 / 1.2)));
+            // Keep the point under the cursor fixed while zooming.
+            const contentX = (point.x - currentPan.x) / currentZoom;
+            const contentY = (point.y - currentPan.y) / currentZoom;
+            setZoom(nextZoom);
+            setPan(clamp(point.x - contentX * nextZoom, point.y - contentY * nextZoom, nextZoom));
+        };
+        frame.addEventListener('wheel', handleWheel, { passive: false });
+        return () => frame.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        const point = localPoint(event);
+        const onHandle = mode === 'split' && Math.abs(point.x - (split / 100) * frameSize.width) < 16;
+        if (!onHandle && zoom === 1) {
+            if (mode === 'split') {
+                setSplit(Math.min(100, Math.max(0, (point.x / frameSize.width) * 100)));
+                dragRef.current = { kind: 'split', startX: point.x, startY: point.y, panX: pan.x, panY: pan.y };
+                event.currentTarget.setPointerCapture(event.pointerId);
+            }
+            return;
+        }
+        dragRef.current = { kind: onHandle ? 'split' : 'pan', startX: point.x, startY: point.y, panX: pan.x, panY: pan.y };
+        event.currentTarget.setPointerCapture(event.pointerId);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const point = localPoint(event);
+        setPointer(point);
+        const drag = dragRef.current;
+        if (!drag) {
+            return;
+        }
+        if (drag.kind === 'split') {
+            setSplit(Math.min(100, Math.max(0, (point.x / frameSize.width) * 100)));
+        } else {
+            setPan(clampPan(drag.panX + point.x - drag.startX, drag.panY + point.y - drag.startY, zoom));
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (mode === 'split' && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+            event.preventDefault();
+            setSplit(value => Math.min(100, Math.max(0, value + (event.key === 'ArrowLeft' ? -2 : 2))));
+        }
+        if (mode === 'blink' && event.key === ' ') {
+            event.preventDefault();
+            setShowAfter(value => !value);
+        }
+    };
+
+    const resetView = () => {
+        setZoom(1);
+        setPan({ x: 0, y: 0 });
+    };
+
+    const layerStyle: React.CSSProperties = {
+        transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+        transformOrigin: '0 0',
+    };
+
+    // The loupe samples whichever image is visible under the pointer.
+    const renderLoupe = () => {
+        if (!loupeEnabled || !pointer || dragRef.current) {
+            return null;
+        }
+        const afterVisible = mode === 'split' ? pointer.x >= (split / 100) * frameSize.width : showAfter;
+        const source = afterVisible ? after : before;
+        if (!source.size || !frameSize.width) {
+            return null;
+        }
+        const rect = containRect(source.size, frameSize);
+        const contentX = (pointer.x - pan.x) / zoom;
+        const contentY = (pointer.y - pan.y) / zoom;
+        const pixelX = Math.floor((contentX - rect.left) / rect.scale);
+        const pixelY = Math.floor((contentY - rect.top) / rect.scale);
+        if (pixelX < 0 || pixelY < 0 || pixelX >= source.size.width || pixelY >= source.size.height) {
+            return null;
+        }
+        const rgb = source.pixelAt(pixelX, pixelY);
+        return (
+            <div
+                className="compare-loupe"
+                style={{
+                    left: pointer.x - LOUPE_SIZE / 2,
+                    top: pointer.y - LOUPE_SIZE - 16,
+                    width: LOUPE_SIZE,
+                    height: LOUPE_SIZE,
+                    backgroundImage: `url(${afterVisible ? afterSrc : beforeSrc})`,
+                    backgroundSize: `${source.size.width * LOUPE_MAGNIFICATION}px ${source.size.height * LOUPE_MAGNIFICATION}px`,
+                    backgroundPosition: `${LOUPE_SIZE / 2 - (pixelX + 0.5) * LOUPE_MAGNIFICATION}px ${LOUPE_SIZE / 2 - (pixelY + 0.5) * LOUPE_MAGNIFICATION}px`,
+                }}
+                aria-hidden="true"
+            >
+                <span className="compare-loupe-readout">
+                    {afterVisible ? afterLabel : beforeLabel} · {pixelX},{pixelY}
+                    {rgb && ` · rgb(${rgb.join(', ')})`}
+                </span>
+            </div>
+        );
+    };
+
+    return (
+        <section className="image-compare" aria-label={t('compare.label')}>
+            <div className="compare-toolbar">
+                <div className="radio-group" role="radiogroup" aria-label={t('compare.modeLabel')}>
+                    <button onClick={() => { setMode('split'); setIsBlinking(false); }} className={mode === 'split' ? 'active' : ''} role="radio" aria-checked={mode === 'split'}>{t('compare.split')}</button>
+                    <button onClick={() => setMode('blink')} className={mode === 'blink' ? 'active' : ''} role="radio" aria-checked={mode === 'blink'}>{t('compare.toggle')}</button>
+                </div>
+                {mode === 'blink' && (
+                    <>
+                        <button className="btn btn-secondary btn-small" onClick={() => setShowAfter(value => !value)} disabled={isBlinking}>
+                            {t('compare.show', { label: showAfter ? beforeLabel : afterLabel })}
+                        </button>
+                        <button className="btn btn-secondary btn-small" onClick={() => setIsBlinking(value => !value)} aria-pressed={isBlinking}>
+                            {isBlinking ? t('compare.stopBlinking') : t('compare.blink')}
+                        </button>
+                    </>
+                )}
+                <label className="compare-toggle">
+                    <input type="checkbox" checked={loupeEnabled} onChange={(e) => setLoupeEnabled(e.target.checked)} />
+                    {t('compare.loupe')}
+                </label>
+                <span className="compare-zoom">
+                    <button className="btn btn-secondary btn-small" onClick={() => { const z = Math.max(MIN_ZOOM, zoom / 1.5); setZoom(z); setPan(p => clampPan(p.x, p.y, z)); }} aria-label={t('compare.zoomOut')}>−</button>
+                    <span>{Math.round(zoom * 100)}%</span>
+                    <button className="btn btn-secondary btn-small" onClick={() => { const z = Math.min(MAX_ZOOM, zoom * 1.5); setZoom(z); setPan(p => clampPan(p.x, p.y, z)); }} aria-label={t('compare.zoomIn')}>+</button>
+                    <button className="btn btn-secondary btn-small" onClick={resetView} disabled={zoom === 1}>{t('compare.reset')}</button>
+                </span>
+            </div>
+
+            <div
+                ref={frameRef}
+                className={`compare-frame ${zoom > 1 ? 'is-zoomed' : ''}`}
+                style={{ aspectRatio }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={() => setPointer(null)}
+                onKeyDown={handleKeyDown}
+                tabIndex={0}
+                role="slider"
+                aria-label={mode === 'split' ? t('compare.divider') : t('compare.toggleLabel')}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={mode === 'split' ? Math.round(split) : showAfter ? 100 : 0}
+            >
+                <div className="compare-layer" style={layerStyle}>
+                    <img src={beforeSrc} alt={beforeLabel} draggable={false} />
+                </div>
+                <div
+                    className="compare-layer"
+                    style={{
+                        ...layerStyle,
+                        clipPath: mode === 'split' ? `inset(0 0 0 ${(split / 100) * frameSize.width / zoom - pan.x / zoom}px)` : undefined,
+                        visibility: mode === 'blink' && !showAfter ? 'hidden' : 'visible',
+                    }}
+                >
+                    <img src={afterSrc} alt={afterLabel} draggable={false} />
+                </div>
+                {mode === 'split' ? (
+                    <>
+                        <div className="compare-divider" style={{ left: `${split}%` }}>
+                            <span className="compare-handle" />
+                        </div>
+                        <span className="compare-label compare-label-left">{beforeLabel}</span>
+                        <span className="compare-label compare-label-right">{afterLabel}</span>
+                    </>
+                ) : (
+                    <span className="compare-label compare-label-left">{showAfter ? afterLabel : beforeLabel}</span>
+                )}
+                {renderLoupe()}
+            </div>
+            <p className="field-description">{t('compare.help')}</p>
+        </section>
+    );
+};
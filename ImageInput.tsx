@@ -0,0 +1,398 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { toDataUrl } from './generationService.js';
+import {
+    preprocessImage, preprocessErrorMessage, transformImage, canvasToBlob, base64ToBytes, fileExtensionFor,
+    ACCEPTED_IMAGE_TYPES, PreparedImage, CropRect,
+} from './imagePreprocessing.js';
+import { useSessionResults, SessionResult } from './sessionResults.js';
+import { useI18n, tOr } from './i18n.js';
+
+type Panel = 'none' | 'url' | 'camera' | 'results';
+
+// Crops smaller than this fraction of either side are treated as accidental clicks.
+const MIN_CROP_SIZE = 0.02;
+
+// The first image among dropped or pasted files; other files are ignored.
+const firstImageFile = (files: FileList | undefined): File | null => {
+    const list = Array.from(files ?? []);
+    return list.find(file => file.type.startsWith('image/')) ?? list[0] ?? null;
+};
+
+const fetchImageFile = async (url: string): Promise<File> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+    const blob = await response.blob();
+    return new File([blob], new URL(url).pathname.split('/').pop() || 'image', { type: blob.type });
+};
+
+const sessionResultFile = (result: SessionResult): File =>
+    new File([base64ToBytes(result.image.data)], `${result.toolId}_result.${fileExtensionFor(result.image.mimeType)}`, { type: result.image.mimeType });
+
+interface CameraCaptureProps {
+    onCapture: (file: File) => void;
+    onError: (message: string) => void;
+}
+
+// A live preview of the default camera. The stream is stopped when the panel closes.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onError }) => {
+    const { t } = useI18n();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [isReady, setIsReady] = useState<boolean>(false);
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let isClosed = false;
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+            .then(result => {
+                if (isClosed) {
+                    result.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = result;
+                if (videoRef.current) {
+                    videoRef.current.srcObject = result;
+                }
+            })
+            .catch(err => onError(t('imageInput.cameraFailed', { message: err instanceof Error ? err.message : String(err) })));
+        return () => {
+            isClosed = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const handleCapture = async () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) {
+            return;
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext('2d')!.drawImage(video, 0, 0);
+        try {
+            const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+            onCapture(new File([blob], 'camera.jpg', { type: blob.type }));
+        } catch (err) {
+            onError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <div className="image-input-camera">
+            <video ref={videoRef} autoPlay playsInline muted onLoadedMetadata={() => setIsReady(true)} aria-label={t('imageInput.cameraPreview')} />
+            <button className="btn btn-small" onClick={handleCapture} disabled={!isReady}>{t('imageInput.capture')}</button>
+        </div>
+    );
+};
+
+interface ImageEditorProps {
+    image: PreparedImage;
+    disabled: boolean;
+    onRotate: (quarterTurns: number) => void;
+    onCrop: (crop: CropRect) => void;
+}
+
+// A thumbnail of the chosen image with rotate buttons and a crop area drawn by dragging.
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, disabled, onRotate, onCrop }) => {
+    const { t } = useI18n();
+    const [isCropping, setIsCropping] = useState<boolean>(false);
+    const [crop, setCrop] = useState<CropRect | null>(null);
+    const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        setCrop(null);
+        setIsCropping(false);
+    }, [image]);
+
+    const pointerPosition = (event: React.PointerEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!isCropping) {
+            return;
+        }
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragStart.current = pointerPosition(event);
+        setCrop(null);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        if (!start) {
+            return;
+        }
+        const end = pointerPosition(event);
+        setCrop({
+            x: Math.min(start.x, end.x),
+            y: Math.min(start.y, end.y),
+            width: Math.abs(end.x - start.x),
+            height: Math.abs(end.y - start.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStart.current = null;
+    };
+
+    const canApplyCrop = !!crop && crop.width >= MIN_CROP_SIZE && crop.height >= MIN_CROP_SIZE;
+
+    return (
+        <div className="image-input-editor">
+            <div
+                className={`image-input-preview ${isCropping ? 'cropping' : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+            >
+                <img src={toDataUrl(image)} alt={t('imageInput.previewAlt')} draggable={false} />
+                {crop && (
+                    <div
+                        className="image-input-crop"
+                        style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                    />
+                )}
+            </div>
+            <div className="image-input-tools">
+                <span className="file-name" title={image.name}>{image.name}</span>
+                <span className="field-description">{image.width} × {image.height}</span>
+                <button className="btn btn-secondary btn-small" onClick={() => onRotate(-1)} disabled={disabled} aria-label={t('imageInput.rotateLeft')}>⟲</button>
+                <button className="btn btn-secondary btn-small" onClick={() => onRotate(1)} disabled={disabled} aria-label={t('imageInput.rotateRight')}>⟳</button>
+                {isCropping ? (
+                    <>
+                        <button className="btn btn-small" onClick={() => crop && onCrop(crop)} disabled={disabled || !canApplyCrop}>{t('imageInput.applyCrop')}</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => { setIsCropping(false); setCrop(null); }}>{t('common.cancel')}</button>
+                    </>
+                ) : (
+                    <button className="btn btn-secondary btn-small" onClick={() => setIsCropping(true)} disabled={disabled}>{t('imageInput.crop')}</button>
+                )}
+            </div>
+            {isCropping && <p className="field-description">{t('imageInput.cropHint')}</p>}
+        </div>
+    );
+};
+
+interface ImageInputProps {
+    id: string;
+    label: string;
+    value: PreparedImage | null;
+    onChange: (image: PreparedImage | null) => void;
+    onError: (message: string) => void;
+    // Names the image in error messages, e.g. 'logo'.
+    subject?: string;
+    buttonClassName?: string;
+    // Also take images pasted while the focus is elsewhere on the page. Only one input per tool
+    // should set this.
+    pasteAnywhere?: boolean;
+}
+
+// The one way tools take an image: a file picker, drag and drop, paste, a URL, the camera or a
+// result from earlier in the session. Every source goes through `preprocessImage`, and the
+// chosen image can be rotated and cropped before it is sent.
+export const ImageInput: React.FC<ImageInputProps> = ({
+    id, label, value, onChange, onError, subject = 'image', buttonClassName = 'btn', pasteAnywhere = false,
+}) => {
+    const { t } = useI18n();
+    const sessionResults = useSessionResults();
+    const [panel, setPanel] = useState<Panel>('none');
+    const [url, setUrl] = useState<string>('');
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    const [isBusy, setIsBusy] = useState<boolean>(false);
+    // The image as it was chosen, before any rotation or crop.
+    const [source, setSource] = useState<PreparedImage | null>(null);
+    const hasCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+    useEffect(() => {
+        if (!value) {
+            setSource(null);
+        }
+    }, [value]);
+
+    const run = async (task: () => Promise<PreparedImage>, isNewSource: boolean) => {
+        setIsBusy(true);
+        try {
+            const image = await task();
+            if (isNewSource) {
+                setSource(image);
+                setPanel('none');
+            }
+            onChange(image);
+        } catch (err) {
+            // A failed edit keeps the image as it was; a failed new image replaces it.
+            if (isNewSource) {
+                setSource(null);
+                onChange(null);
+            }
+            onError(preprocessErrorMessage(err, subject));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const loadFile = (file: File | null) => {
+        if (file) {
+            run(() => preprocessImage(file), true);
+        }
+    };
+
+    const loadUrl = async (address: string) => {
+        setIsBusy(true);
+        let file: File;
+        try {
+            file = await fetchImageFile(address);
+        } catch (err) {
+            setIsBusy(false);
+            onError(t('imageInput.urlFailed', { message: err instanceof Error ? err.message : String(err) }));
+            return;
+        }
+        loadFile(file);
+    };
+
+    const handlePaste = (event: ClipboardEvent | React.ClipboardEvent) => {
+        const file = firstImageFile(event.clipboardData?.files);
+        if (file) {
+            event.preventDefault();
+            loadFile(file);
+        }
+    };
+
+    useEffect(() => {
+        if (!pasteAnywhere) {
+            return;
+        }
+        const handleDocumentPaste = (event: ClipboardEvent) => {
+            // Pasting into a text field, or into an input that handled it already, is left alone.
+            const target = event.target as HTMLElement | null;
+            if (event.defaultPrevented || target?.closest('input, textarea, [contenteditable="true"]')) {
+                return;
+            }
+            handlePaste(event);
+        };
+        document.addEventListener('paste', handleDocumentPaste);
+        return () => document.removeEventListener('paste', handleDocumentPaste);
+    });
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        const file = firstImageFile(event.dataTransfer.files);
+        if (file) {
+            loadFile(file);
+            return;
+        }
+        // An image dragged from another page arrives as its address.
+        const address = event.dataTransfer.getData('text/uri-list').split('\n').find(line => line && !line.startsWith('#'));
+        if (address) {
+            loadUrl(address.trim());
+        }
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0] ?? null;
+        event.target.value = '';
+        loadFile(file);
+    };
+
+    const togglePanel = (next: Panel) => setPanel(current => current === next ? 'none' : next);
+
+    const handleRemove = () => {
+        setSource(null);
+        onChange(null);
+    };
+
+    return (
+        <div
+            className={`image-input ${isDragging ? 'dragging' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setIsDragging(false)}
+            onDrop={handleDrop}
+            onPaste={handlePaste}
+            tabIndex={0}
+            aria-busy={isBusy}
+        >
+            <div className="image-input-actions">
+                <label htmlFor={id} className={buttonClassName}>{label}</label>
+                <input id={id} type="file" accept={ACCEPTED_IMAGE_TYPES} onChange={handleFileChange} />
+                <button className={`btn btn-secondary btn-small ${panel === 'url' ? 'active' : ''}`} onClick={() => togglePanel('url')} aria-expanded={panel === 'url'}>
+                    {t('imageInput.fromUrl')}
+                </button>
+                {hasCamera && (
+                    <button className={`btn btn-secondary btn-small ${panel === 'camera' ? 'active' : ''}`} onClick={() => togglePanel('camera')} aria-expanded={panel === 'camera'}>
+                        {t('imageInput.camera')}
+                    </button>
+                )}
+                {sessionResults.length > 0 && (
+                    <button className={`btn btn-secondary btn-small ${panel === 'results' ? 'active' : ''}`} onClick={() => togglePanel('results')} aria-expanded={panel === 'results'}>
+                        {t('imageInput.fromResults')}
+                    </button>
+                )}
+                {value && (
+                    <button className="btn btn-danger btn-small" onClick={handleRemove} disabled={isBusy}>{t('imageInput.remove')}</button>
+                )}
+            </div>
+            <p className="field-description">{isBusy ? t('imageInput.loading') : t('imageInput.dropHint')}</p>
+
+            {panel === 'url' && (
+                <div className="image-input-panel">
+                    <input
+                        type="url"
+                        className="text-input"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && url.trim() && loadUrl(url.trim())}
+                        placeholder="https://"
+                        aria-label={t('imageInput.urlLabel')}
+                    />
+                    <button className="btn btn-small" onClick={() => loadUrl(url.trim())} disabled={isBusy || !url.trim()}>{t('imageInput.load')}</button>
+                    <p className="field-description">{t('imageInput.urlHint')}</p>
+                </div>
+            )}
+
+            {panel === 'camera' && <CameraCapture onCapture={loadFile} onError={onError} />}
+
+            {panel === 'results' && (
+                <div className="image-input-results" role="list" aria-label={t('imageInput.fromResults')}>
+                    {sessionResults.map(result => {
+                        const toolName = tOr(`tools.${result.toolId}.title`, result.toolId);
+                        return (
+                            <button
+                                key={result.id}
+                                role="listitem"
+                                onClick={() => run(() => preprocessImage(sessionResultFile(result)), true)}
+                                disabled={isBusy}
+                                title={toolName}
+                            >
+                                <img src={toDataUrl(result.image)} alt={t('imageInput.resultAlt', { tool: toolName })} />
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {value && (
+                <>
+                    <ImageEditor
+                        image={value}
+                        disabled={isBusy}
+                        onRotate={(turns) => run(() => transformImage(value, turns), false)}
+                        onCrop={(crop) => run(() => transformImage(value, 0, crop), false)}
+                    />
+                    {source && source !== value && (
+                        <button className="candidate-link" onClick={() => onChange(source)} disabled={isBusy}>{t('imageInput.resetEdits')}</button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { useI18n, LOCALES, LOCALE_NAMES, Locale } from './i18n.js';
+
+export const LocaleSwitcher: React.FC = () => {
+    const { locale, t, setLocale } = useI18n();
+
+    return (
+        <select
+            className="filter-select locale-switcher"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t('app.language')}
+        >
+            {LOCALES.map(option => (
+                <option key={option} value={option} lang={option}>{LOCALE_NAMES[option]}</option>
+            ))}
+        </select>
+    );
+};
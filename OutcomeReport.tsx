@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ResponseOutcome, describeOutcome, categoryLabel } from './responseOutcome.js';
+import { useI18n } from './i18n.js';
+
+interface OutcomeReportProps {
+    outcome: ResponseOutcome;
+    // The English name of what the user should change, e.g. 'doodle'.
+    subject?: string;
+}
+
+// Why a request came back without an image, what to try next, and the raw response signals
+// in a collapsed section for debugging.
+export const OutcomeReport: React.FC<OutcomeReportProps> = ({ outcome, subject }) => {
+    const { t } = useI18n();
+    const { explanation, suggestion } = describeOutcome(outcome, subject);
+    const { details } = outcome;
+
+    return (
+        <div className="error-message outcome-report" role="alert">
+            <p>{explanation}</p>
+            {suggestion && <p className="outcome-suggestion">{suggestion}</p>}
+            <details className="outcome-details">
+                <summary>{t('outcome.details')}</summary>
+                <dl>
+                    <dt>{t('outcome.kind')}</dt>
+                    <dd><code>{outcome.kind}</code></dd>
+                    {details.finishReason && (
+                        <>
+                            <dt>{t('outcome.finishReason')}</dt>
+                            <dd><code>{details.finishReason}</code>{details.finishMessage && ` ${details.finishMessage}`}</dd>
+                        </>
+                    )}
+                    {details.blockReason && (
+                        <>
+                            <dt>{t('outcome.blockReason')}</dt>
+                            <dd><code>{details.blockReason}</code>{details.blockReasonMessage && ` ${details.blockReasonMessage}`}</dd>
+                        </>
+                    )}
+                    {details.safetyRatings.length > 0 && (
+                        <>
+                            <dt>{t('outcome.safetyRatings')}</dt>
+                            <dd>
+                                <ul>
+                                    {details.safetyRatings.map(rating => (
+                                        <li key={rating.category} className={rating.blocked ? 'blocked' : ''}>
+                                            {categoryLabel(rating.category)}: <code>{rating.probability ?? '?'}</code>
+                                            {rating.blocked && ` (${t('outcome.ratingBlocked')})`}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </dd>
+                        </>
+                    )}
+                    {details.text && (
+                        <>
+                            <dt>{t('outcome.text')}</dt>
+                            <dd><pre>{details.text}</pre></dd>
+                        </>
+                    )}
+                    {details.filterReason && (
+                        <>
+                            <dt>{t('outcome.filterReason')}</dt>
+                            <dd><pre>{details.filterReason}</pre></dd>
+                        </>
+                    )}
+                </dl>
+            </details>
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { OutfitChanger } from './OutfitChanger.js';
+import { base64ToBytes, bytesToBase64 } from './imagePreprocessing.js';
+import { installTestClient, stubBrowserApis, uploadFile, generatedImage, imageResponse, sentParts, PNG_BASE64 } from './testSupport.js';
+
+// The test pixel with an ancillary chunk naming it before IEND, so every upload has its own bytes
+// and still passes preprocessing unchanged.
+const labelledPng = (label: string): Uint8Array => {
+    const png = base64ToBytes(PNG_BASE64);
+    const iend = png.length - 12;
+    const chunk = [0, 0, 0, label.length, ...'laBl', ...label, 0, 0, 0, 0].map(value => typeof value === 'string' ? value.charCodeAt(0) : value);
+    return Uint8Array.from([...png.subarray(0, iend), ...chunk, ...png.subarray(iend)]);
+};
+
+const labelledFile = (label: string): File => new File([labelledPng(label)], `${label}.png`, { type: 'image/png' });
+
+describe('OutfitChanger', () => {
+    let client: ReturnType<typeof installTestClient>;
+
+    beforeEach(() => {
+        stubBrowserApis();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        client = installTestClient();
+        client.generateContent.mockResolvedValue(imageResponse(generatedImage('new outfit')));
+    });
+
+    afterEach(() => {
+        cleanup();
+        localStorage.clear();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('sends garment references after the person with an instruction for each slot', async () => {
+        const { container } = render(<OutfitChanger />);
+        uploadFile(container, 'outfit-changer-upload', labelledFile('person'));
+        uploadFile(container, 'garment-shoes-upload', labelledFile('sneakers'));
+        uploadFile(container, 'garment-top-upload', labelledFile('tee'));
+        await waitFor(() => expect(screen.getAllByAltText('Selected image')).toHaveLength(3));
+
+        expect(screen.queryByLabelText('2. Enter Clothing Color')).toBeNull();
+        fireEvent.click(screen.getByRole('button', { name: 'Generate New Outfit' }));
+
+        await waitFor(() => expect(client.generateContent).toHaveBeenCalledTimes(1));
+        const parts = sentParts(client.generateContent.mock.calls[0][0]);
+        expect(parts.map(part => part.inlineData?.data ?? 'text')).toEqual(
+            ['person', 'tee', 'sneakers'].map(label => bytesToBase64(labelledPng(label))).concat('text')
+        );
+        const prompt = parts[3].text;
+        expect(prompt).toContain('The **second image** shows a top');
+        expect(prompt).toContain('The **third image** shows shoes');
+        expect(prompt).not.toContain('shows a bottom');
+        expect(prompt).toContain("exact pattern, print, logo");
+    });
+});
@@ -3,118 +3,178 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState } from 'react';
+import { imagePart, toDataUrl, generationErrorMessage, editImageVariants, confirmWithinBudget, missingVariantsMessage, MAX_VARIANTS, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { ImageCompare } from './ImageCompare.js';
+import { CandidateGrid, VariantCountSelector } from './CandidateGrid.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { ExportTarget } from './imageExport.js';
+import { useCandidates } from './useCandidates.js';
+import { RefinementPanel } from './RefinementPanel.js';
+import { useRefinementStack } from './useRefinementStack.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps, SettingsLimits } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildOutfitChangerPrompt, buildGarmentPrompts, buildGarmentTryOnPrompt } from './prompts/outfitChanger.js';
+import { useI18n } from './i18n.js';
 
 type ClothingStyle = 'Sportswear' | 'Evening Gown' | 'Business Suit' | 'Casual Wear';
 const CLOTHING_STYLES: ClothingStyle[] = ['Sportswear', 'Evening Gown', 'Business Suit', 'Casual Wear'];
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
-export const OutfitChanger: React.FC = () => {
-    const [originalImage, setOriginalImage] = useState<File | null>(null);
-    const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-    const [generatedImageBase64, setGeneratedImageBase64] = useState<string | null>(null);
+// Each garment reference goes in its own slot, and is sent in this order after the person.
+export type GarmentSlot = 'top' | 'bottom' | 'shoes' | 'accessory';
+export const GARMENT_SLOTS: GarmentSlot[] = ['top', 'bottom', 'shoes', 'accessory'];
+
+export type GarmentReferences = Partial<Record<GarmentSlot, PreparedImage>>;
+
+// The slots that have a reference, in the order their images are sent.
+export const filledGarmentSlots = (garments: GarmentReferences): GarmentSlot[] => GARMENT_SLOTS.filter(slot => garments[slot]);
+
+// A missing person is left out, for showing the parts before one is chosen.
+export const buildOutfitChangerParts = (person: PreparedImage | null, garments: GarmentReferences, promptText: string): RequestPart[] => [
+    ...(person ? [imagePart(person.data, person.mimeType)] : []),
+    ...filledGarmentSlots(garments).map(slot => imagePart(garments[slot]!.data, garments[slot]!.mimeType)),
+    { text: promptText },
+];
+
+const REFINEMENT_SUGGESTIONS = ['Make the color a bit darker', 'Keep the original background', 'Make the fit a little looser'];
+
+export type OutfitChangerSettings = {
+    clothingStyle: ClothingStyle;
+    clothingColor: string;
+    variants: number;
+};
+
+export const DEFAULT_OUTFIT_CHANGER_SETTINGS: OutfitChangerSettings = {
+    clothingStyle: 'Casual Wear',
+    clothingColor: 'blue',
+    variants: 1,
+};
+
+const OUTFIT_CHANGER_SETTINGS_LIMITS: SettingsLimits<OutfitChangerSettings> = {
+    clothingStyle: CLOTHING_STYLES,
+    variants: { min: 1, max: MAX_VARIANTS },
+};
+
+const OUTFIT_CHANGER_PRESETS: PresetDefinition<OutfitChangerSettings>[] = [
+    { name: 'Office Ready', settings: { clothingStyle: 'Business Suit', clothingColor: 'navy' } },
+    { name: 'Gala Night', settings: { clothingStyle: 'Evening Gown', clothingColor: 'emerald green' } },
+    { name: 'Weekend Casual', settings: { clothingStyle: 'Casual Wear', clothingColor: 'light denim blue' } },
+];
+
+export const OutfitChanger: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t, optionLabel } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_OUTFIT_CHANGER_SETTINGS, OUTFIT_CHANGER_SETTINGS_LIMITS);
+    const [originalImage, setOriginalImage] = useState<PreparedImage | null>(null);
+    const [garments, setGarments] = useState<GarmentReferences>({});
+    const candidates = useCandidates();
+    const refinements = useRefinementStack(candidates.selected?.image ?? null);
+    // The selected candidate with any refinements applied.
+    const generatedImage = refinements.current;
+    const [requestParts, setRequestParts] = useState<RequestPart[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [clothingStyle, setClothingStyle] = useState<ClothingStyle>('Casual Wear');
-    const [clothingColor, setClothingColor] = useState<string>('blue');
-
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
+    const [clothingStyle, setClothingStyle] = useState<ClothingStyle>(initialSettings.clothingStyle);
+    const [clothingColor, setClothingColor] = useState<string>(initialSettings.clothingColor);
+    const [variants, setVariants] = useState<number>(initialSettings.variants);
+
+    const settings: OutfitChangerSettings = { clothingStyle, clothingColor, variants };
+    const exportTarget: ExportTarget = { toolId: 'outfitChanger', name: 'outfit_change', settings };
+    useSettingsInUrl(settings);
+
+    const applySettings = (preset: OutfitChangerSettings) => {
+        setClothingStyle(preset.clothingStyle);
+        setClothingColor(preset.clothingColor);
+        setVariants(preset.variants);
     };
 
-    const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleImageChange = (image: PreparedImage | null) => {
         setError(null);
-        setGeneratedImageBase64(null);
-        const file = event.target.files?.[0];
-
-        if (file) {
-            if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError('Unsupported file type. Please upload a JPEG, PNG, or WEBP image.');
-                setOriginalImage(null);
-                setOriginalImageBase64(null);
-                return;
-            }
-            setOriginalImage(file);
-            const base64 = await fileToBase64(file);
-            setOriginalImageBase64(base64);
-        }
-    }, []);
-
-    const buildPrompt = (): string => {
-        let poseDescription = '';
-        switch (clothingStyle) {
-            case 'Sportswear':
-                poseDescription = 'The pose should be active and dynamic, as if they are ready for movement.';
-                break;
-            case 'Evening Gown':
-                poseDescription = 'The pose should be elegant, graceful, and formal, suitable for a black-tie event.';
-                break;
-            case 'Business Suit':
-                poseDescription = 'The pose should be professional and confident, like a corporate headshot.';
-                break;
-            case 'Casual Wear':
-                poseDescription = 'The pose should be relaxed, natural, and comfortable.';
-                break;
-        }
-        return `Take the person in this image and change their outfit to a ${clothingColor} ${clothingStyle}. Also, adjust their pose to be more suitable for this new outfit. ${poseDescription} It is crucial to maintain the person's original facial features, expression, and identity. The background should remain similar to the original image but can be adjusted slightly for realism.`;
+        setFailedOutcome(null);
+        candidates.clear();
+        setOriginalImage(image);
     };
 
+    const handleGarmentChange = (slot: GarmentSlot, image: PreparedImage | null) => {
+        setError(null);
+        setFailedOutcome(null);
+        setGarments((current: GarmentReferences) => {
+            const { [slot]: _removed, ...rest } = current;
+            return image ? { ...rest, [slot]: image } : rest;
+        });
+    };
+
+    const promptOverrides = usePromptOverrides();
+    // With garment references the outfit comes from them, and the style and color are not used.
+    const garmentSlots = filledGarmentSlots(garments);
+    const isTryOn = garmentSlots.length > 0;
+    const templateGarmentPrompts = buildGarmentPrompts(garmentSlots);
+    const garmentPrompts = templateGarmentPrompts.map(rendered => withOverride(rendered, promptOverrides.overrides[rendered.id]));
+    const templatePrompt = isTryOn ? buildGarmentTryOnPrompt(garmentPrompts.map(rendered => rendered.text)) : buildOutfitChangerPrompt(settings);
+    const prompt = withOverride(templatePrompt, promptOverrides.overrides[templatePrompt.id]);
+    // What the next run sends, shown in the prompt inspector.
+    const pendingParts = buildOutfitChangerParts(originalImage, garments, prompt.text);
+
     const handleGenerateClick = async () => {
-        if (!originalImage || !originalImageBase64) {
-            setError('Please upload an image first.');
+        if (!originalImage) {
+            setError(t('common.uploadFirst'));
             return;
         }
-        if (!clothingColor.trim()) {
-            setError('Please enter a color for the clothing.');
+        if (!isTryOn && !clothingColor.trim()) {
+            setError(t('outfitChanger.colorRequired'));
+            return;
+        }
+
+        if (!confirmWithinBudget({ edits: variants })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setGeneratedImageBase64(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = buildPrompt();
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        {
-                            inlineData: {
-                                data: originalImageBase64,
-                                mimeType: originalImage.type,
-                            },
-                        },
-                        { text: prompt },
-                    ],
-                },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-            
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            const parts = buildOutfitChangerParts(originalImage, garments, prompt.text);
+            const images = await editImageVariants({ signal, toolId: 'outfitChanger', parts }, variants);
 
-            if (imagePart?.inlineData) {
-                setGeneratedImageBase64(imagePart.inlineData.data);
-            } else {
-                 setError('The model did not return an image. This might be due to a safety filter or an issue with the input. Please try a different photo.');
+            candidates.replace(images);
+            setRequestParts(parts);
+            recordGeneration({
+                toolId: 'outfitChanger',
+                settings,
+                prompt: prompt.text,
+                templates: [prompt, ...garmentPrompts],
+                input: originalImage,
+                outputs: images,
+            });
+            if (images.length < variants) {
+                setError(missingVariantsMessage(images.length, variants));
             }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred while generating the image: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(generationErrorMessage(err));
+            }
         } finally {
             setIsLoading(false);
         }
@@ -123,86 +183,144 @@ export const OutfitChanger: React.FC = () => {
     return (
         <>
             <header className="header">
-                <h1>AI Outfit & Pose Changer</h1>
-                <p>Upload a photo, choose an outfit style and color, and let AI transform it.</p>
+                <h1>{t('tools.outfitChanger.title')}</h1>
+                <p>{t('outfitChanger.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} />}
+
+            <PresetManager
+                toolId="outfitChanger"
+                settings={settings}
+                defaults={DEFAULT_OUTFIT_CHANGER_SETTINGS}
+                limits={OUTFIT_CHANGER_SETTINGS_LIMITS}
+                builtIns={OUTFIT_CHANGER_PRESETS}
+                onApply={applySettings}
+            />
 
             <div className="options-container">
+                {isTryOn ? (
+                    <p className="field-description">{t('outfitChanger.garmentsReplaceStyle')}</p>
+                ) : (
+                    <>
+                        <div className="form-group">
+                            <label>{t('outfitChanger.clothingStyle')}</label>
+                            <div className="style-selector" role="radiogroup">
+                                {CLOTHING_STYLES.map(style => (
+                                    <button 
+                                        key={style}
+                                        onClick={() => setClothingStyle(style)}
+                                        className={clothingStyle === style ? 'active' : ''}
+                                        role="radio"
+                                        aria-checked={clothingStyle === style}
+                                    >
+                                        {optionLabel('clothingStyle', style)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="color-input">{t('outfitChanger.clothingColor')}</label>
+                            <input 
+                                id="color-input"
+                                type="text"
+                                value={clothingColor}
+                                onChange={(e) => setClothingColor(e.target.value)}
+                                className="color-input"
+                                placeholder={t('outfitChanger.colorPlaceholder')}
+                            />
+                        </div>
+                    </>
+                )}
                 <div className="form-group">
-                    <label>1. Select Clothing Style</label>
-                    <div className="style-selector" role="radiogroup">
-                        {CLOTHING_STYLES.map(style => (
-                            <button 
-                                key={style}
-                                onClick={() => setClothingStyle(style)}
-                                className={clothingStyle === style ? 'active' : ''}
-                                role="radio"
-                                aria-checked={clothingStyle === style}
-                            >
-                                {style}
-                            </button>
+                    <label>{t('outfitChanger.garments')}</label>
+                    <p className="field-description">{t('outfitChanger.garmentsHint')}</p>
+                    <div className="garment-slots">
+                        {GARMENT_SLOTS.map(slot => (
+                            <div className="garment-slot" key={slot}>
+                                <span className="garment-slot-label">{t(`outfitChanger.garment.${slot}`)}</span>
+                                <ImageInput
+                                    id={`garment-${slot}-upload`}
+                                    label={t('outfitChanger.selectGarment')}
+                                    value={garments[slot] ?? null}
+                                    onChange={image => handleGarmentChange(slot, image)}
+                                    onError={setError}
+                                    subject={`${slot} reference image`}
+                                    buttonClassName="btn btn-secondary"
+                                />
+                            </div>
                         ))}
                     </div>
                 </div>
-                <div className="form-group">
-                    <label htmlFor="color-input">2. Enter Clothing Color</label>
-                    <input 
-                        id="color-input"
-                        type="text"
-                        value={clothingColor}
-                        onChange={(e) => setClothingColor(e.target.value)}
-                        className="color-input"
-                        placeholder="e.g., 'red' or '#FF0000'"
-                    />
-                </div>
+                <VariantCountSelector label={t('outfitChanger.variants')} value={variants} onChange={setVariants} />
             </div>
 
+            <PromptInspector
+                prompts={[templatePrompt, ...templateGarmentPrompts]}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
+
+            <ImageInput
+                id="outfit-changer-upload"
+                label={t('common.uploadPhoto')}
+                value={originalImage}
+                onChange={handleImageChange}
+                onError={setError}
+                pasteAnywhere
+            />
+
             <div className="controls">
-                <label htmlFor="outfit-changer-upload" className="btn">
-                    Upload Photo
-                </label>
-                <input id="outfit-changer-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} />
                 <button 
                     onClick={handleGenerateClick} 
                     className="btn" 
                     disabled={!originalImage || isLoading}
-                    aria-label={isLoading ? "Generating, please wait" : "Generate New Outfit"}
+                    aria-label={isLoading ? t('common.generatingLabel') : t('outfitChanger.generate')}
                 >
-                    {isLoading ? 'Generating...' : 'Generate New Outfit'}
+                    {isLoading ? t('common.generating') : t('outfitChanger.generate')}
                 </button>
-                {generatedImageBase64 && (
-                    <a 
-                        href={`data:image/png;base64,${generatedImageBase64}`} 
-                        download="outfit_change.png" 
-                        className="btn btn-secondary"
-                    >
-                        Download Photo
-                    </a>
+                {isLoading && (
+                    <button onClick={cancelRequest} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {generatedImage && (
+                    <ExportButton image={generatedImage} target={exportTarget} label={t('common.downloadPhoto')} />
                 )}
             </div>
 
             <section className="image-previews" aria-live="polite">
                 <div className="image-container">
-                    <h3>Original</h3>
-                    {originalImageBase64 ? (
-                        <img src={`data:${originalImage?.type};base64,${originalImageBase64}`} alt="Original user upload" />
+                    <h3>{t('common.original')}</h3>
+                    {originalImage ? (
+                        <img src={toDataUrl(originalImage)} alt={t('common.originalAlt')} />
                     ) : (
-                        <p className="placeholder">Upload an image to see it here.</p>
+                        <p className="placeholder">{t('common.uploadPlaceholder')}</p>
                     )}
                 </div>
                 <div className="image-container">
-                    <h3>Generated</h3>
+                    <h3>{t('common.generated')}</h3>
                     {isLoading ? (
-                        <div className="loading-spinner" aria-label="Processing image"></div>
-                    ) : generatedImageBase64 ? (
-                        <img src={`data:image/png;base64,${generatedImageBase64}`} alt="AI generated image with new outfit and pose" />
+                        <div className="loading-spinner" aria-label={t('common.processing')}></div>
+                    ) : generatedImage ? (
+                        <img src={toDataUrl(generatedImage)} alt={t('outfitChanger.resultAlt')} />
                     ) : (
-                         <p className="placeholder">Your generated image will appear here.</p>
+                         <p className="placeholder">{t('outfitChanger.resultPlaceholder')}</p>
                     )}
                 </div>
             </section>
+
+            <CandidateGrid state={candidates} exportTarget={exportTarget} alt={t('outfitChanger.resultAlt')} />
+
+            {originalImage && generatedImage && !isLoading && (
+                <ImageCompare beforeSrc={toDataUrl(originalImage)} afterSrc={toDataUrl(generatedImage)} />
+            )}
+
+            {generatedImage && !isLoading && (
+                <RefinementPanel toolId="outfitChanger" stack={refinements} initialParts={requestParts} suggestions={REFINEMENT_SUGGESTIONS} />
+            )}
         </>
     );
 };
\ No newline at end of file
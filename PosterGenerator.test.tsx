@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { PosterGenerator } from './PosterGenerator.js';
+import { createMockModelsClient } from './mockProvider.js';
+import {
+    installTestClient, stubBrowserApis, uploadFile, pngFile, generatedImage, imageResponse, imagesResponse, textResponse, sentParts, PNG_BASE64,
+} from './testSupport.js';
+
+describe('PosterGenerator', () => {
+    let client: ReturnType<typeof installTestClient>;
+    const posters = [generatedImage('poster 1'), generatedImage('poster 2'), generatedImage('poster 3')];
+
+    beforeEach(() => {
+        stubBrowserApis();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        client = installTestClient();
+        client.generateImages.mockResolvedValue(imagesResponse(posters));
+    });
+
+    afterEach(() => {
+        cleanup();
+        localStorage.clear();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const posterSources = () => screen.getAllByAltText(/^AI generated poster option \d$/).map(img => img.getAttribute('src'));
+
+    const uploadLogoAndGenerate = async () => {
+        const { container } = render(<PosterGenerator />);
+        uploadFile(container, 'logo-upload', pngFile('logo.png'));
+        await screen.findByAltText('Selected image');
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Posters' }));
+        return container;
+    };
+
+    it('generates posters without an edit step when there is no logo', async () => {
+        render(<PosterGenerator />);
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Posters' }));
+
+        await waitFor(() => expect(posterSources()).toHaveLength(3));
+        expect(client.generateImages).toHaveBeenCalledTimes(1);
+        expect(client.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('explains a poster request withheld by the safety filter', async () => {
+        client.generateImages.mockImplementation(createMockModelsClient({ failureMode: 'safety', latencyMs: 0 }).generateImages);
+
+        const { container } = render(<PosterGenerator />);
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Posters' }));
+
+        await waitFor(() => expect(container.querySelector('.outcome-report')).toBeTruthy());
+        const report = container.querySelector('.outcome-report')!.textContent;
+        expect(report).toContain('The model created a result, but the safety filter withheld it.');
+        expect(report).toContain('Try a different description');
+        expect(report).toContain('The prompt was blocked by the mock safety filter.');
+        expect(screen.queryAllByAltText(/^AI generated poster option \d$/)).toHaveLength(0);
+    });
+
+    it('reports posters the generator filtered out', async () => {
+        const response = imagesResponse(posters.slice(0, 2));
+        response.generatedImages!.push({ raiFilteredReason: 'Filtered. [test]' });
+        client.generateImages.mockResolvedValue(response);
+
+        render(<PosterGenerator />);
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Posters' }));
+
+        await waitFor(() => expect(posterSources()).toHaveLength(2));
+        expect(screen.getByText('1 of 3 posters could not be generated. The others are shown below.')).toBeTruthy();
+    });
+
+    it('adds the logo to every generated poster', async () => {
+        client.generateContent.mockImplementation(async params => {
+            const [poster] = sentParts(params);
+            return imageResponse(generatedImage(`${atob(poster.inlineData!.data!)} with logo`));
+        });
+
+        await uploadLogoAndGenerate();
+
+        await waitFor(() => expect(posterSources()).toEqual(
+            posters.map(poster => `data:image/png;base64,${btoa(`${atob(poster.data)} with logo`)}`)
+        ));
+        expect(client.generateImages).toHaveBeenCalledTimes(1);
+        expect(client.generateImages.mock.calls[0][0].config?.numberOfImages).toBe(3);
+        expect(client.generateContent).toHaveBeenCalledTimes(3);
+        for (const [params] of client.generateContent.mock.calls) {
+            const [poster, logo, prompt] = sentParts(params);
+            expect(posters.map(p => p.data)).toContain(poster.inlineData!.data);
+            expect(logo.inlineData).toEqual({ data: PNG_BASE64, mimeType: 'image/png' });
+            expect(prompt.text).toContain('this logo (the second image)');
+        }
+    });
+
+    it('keeps the poster without the logo when the logo step returns no image', async () => {
+        client.generateContent
+            .mockResolvedValueOnce(textResponse('The logo is too small to read.'))
+            .mockImplementation(async () => imageResponse(generatedImage('with logo')));
+
+        const container = await uploadLogoAndGenerate();
+
+        await waitFor(() => expect(posterSources()).toHaveLength(3));
+        expect(posterSources()).toContain(`data:image/png;base64,${posters[0].data}`);
+        expect(screen.getByText('The logo could not be added to some posters, so they are shown without it.')).toBeTruthy();
+        expect(container.querySelector('.outcome-report')!.textContent).toContain('The logo is too small to read.');
+    });
+});
@@ -3,141 +3,179 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState } from 'react';
+import { getGenerationService, imagePart, toDataUrl, confirmWithinBudget, GeneratedImage, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildPosterPrompt, buildPosterLogoPrompt } from './prompts/posterGenerator.js';
+import { useI18n } from './i18n.js';
 
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
-export const PosterGenerator: React.FC = () => {
-    const [industry, setIndustry] = useState<string>('Technology');
-    const [elements, setElements] = useState<string>('A glowing brain, circuit patterns, people collaborating');
-    const [slogan, setSlogan] = useState<string>('Innovate the Future');
-    const [style, setStyle] = useState<string>('Modern and minimalist');
+// How many poster options each run generates.
+const POSTER_OPTIONS = 3;
+
+export type PosterGeneratorSettings = {
+    industry: string;
+    elements: string;
+    slogan: string;
+    style: string;
+};
+
+export const DEFAULT_POSTER_GENERATOR_SETTINGS: PosterGeneratorSettings = {
+    industry: 'Technology',
+    elements: 'A glowing brain, circuit patterns, people collaborating',
+    slogan: 'Innovate the Future',
+    style: 'Modern and minimalist',
+};
+
+const POSTER_GENERATOR_PRESETS: PresetDefinition<PosterGeneratorSettings>[] = [
+    { name: 'Cafe Opening', settings: { industry: 'Cafe', elements: 'Latte art, roasted coffee beans, a warm wooden counter', slogan: 'Your Daily Grind Starts Here', style: 'Vintage' } },
+    { name: 'Fitness Challenge', settings: { industry: 'Fitness', elements: 'An athlete mid-sprint, dumbbells, dynamic motion lines', slogan: 'Stronger Every Day', style: 'Bold and colorful' } },
+    { name: 'Summer Sale', settings: { industry: 'Retail', elements: 'Shopping bags, sunshine, bold discount tags', slogan: 'Summer Sale: Up to 50% Off', style: 'Bright and playful' } },
+];
+
+export const PosterGenerator: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_POSTER_GENERATOR_SETTINGS);
+    const [industry, setIndustry] = useState<string>(initialSettings.industry);
+    const [elements, setElements] = useState<string>(initialSettings.elements);
+    const [slogan, setSlogan] = useState<string>(initialSettings.slogan);
+    const [style, setStyle] = useState<string>(initialSettings.style);
+
+    const settings: PosterGeneratorSettings = { industry, elements, slogan, style };
+    useSettingsInUrl(settings);
+
+    const applySettings = (preset: PosterGeneratorSettings) => {
+        setIndustry(preset.industry);
+        setElements(preset.elements);
+        setSlogan(preset.slogan);
+        setStyle(preset.style);
+    };
     
-    const [logoImage, setLogoImage] = useState<File | null>(null);
-    const [logoImageBase64, setLogoImageBase64] = useState<string | null>(null);
+    const [logoImage, setLogoImage] = useState<PreparedImage | null>(null);
 
-    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+    const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [loadingMessage, setLoadingMessage] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
+    // Why the generation step came back without any poster.
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    // Why the logo step came back without an image, for the last poster it failed on.
+    const [logoOutcome, setLogoOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
 
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
-    };
-    
-    const handleLogoChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleLogoChange = (image: PreparedImage | null) => {
         setError(null);
-        const file = event.target.files?.[0];
-
-        if (file) {
-             if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError('Unsupported logo file type. Please upload a JPEG, PNG, or WEBP image.');
-                setLogoImage(null);
-                setLogoImageBase64(null);
-                return;
-            }
-            setLogoImage(file);
-            const base64 = await fileToBase64(file);
-            setLogoImageBase64(base64);
-        }
-    }, []);
-
-    const buildPrompt = (): string => {
-        return `Create a high-impact commercial poster for the ${industry} industry.
-
-**Critical Rules for Slogan Rendering (Absolute Priority):**
-1.  **Language Identification:** Before any design work, you MUST first identify the specific language of the slogan provided: "${slogan}".
-2.  **No Translation:** Under NO circumstances should you translate the slogan. It must be rendered in its original language.
-3.  **High-Fidelity Character Rendering:** This is the most important rule. You must render the slogan onto the poster with perfect accuracy. For languages with complex characters, such as **Chinese, Japanese, or Korean**, it is absolutely critical that every character is rendered with its correct strokes, structure, and form. Do not substitute or misrepresent any character.
-4.  **Aesthetic & Appropriate Typography:** Choose a font and layout for the slogan that is aesthetically pleasing and culturally appropriate for the identified language. For **Chinese characters**, consider a clean Heiti (sans-serif) or an elegant Songti (serif) style that harmonizes with the poster's overall design.
-
-**Poster Design Brief:**
--   **Key Visual Elements:** The poster must prominently feature: ${elements}.
--   **Style:** The overall aesthetic should be: ${style}.
--   **Objective:** The poster must be visually compelling, professional, and suitable for a commercial advertising campaign. Do not include any other text besides the required slogan.`;
+        setLogoImage(image);
     };
 
-    const addLogoToPoster = async (posterBase64: string, ai: GoogleGenAI): Promise<string> => {
-        if (!logoImageBase64 || !logoImage) {
-            return posterBase64;
+    const promptOverrides = usePromptOverrides();
+    const templatePrompts = [buildPosterPrompt(settings), buildPosterLogoPrompt()];
+    const [prompt, logoPrompt] = templatePrompts.map(rendered => withOverride(rendered, promptOverrides.overrides[rendered.id]));
+    // What the first step sends, shown in the prompt inspector.
+    const pendingParts: RequestPart[] = [{ text: prompt.text }];
+
+    const addLogoToPoster = async (poster: GeneratedImage, signal: AbortSignal): Promise<GeneratedImage> => {
+        if (!logoImage) {
+            return poster;
         }
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: {
-                parts: [
-                    { inlineData: { data: posterBase64, mimeType: 'image/png' } },
-                    { inlineData: { data: logoImageBase64, mimeType: logoImage.type } },
-                    { text: "Take this poster (the first image) and seamlessly integrate this logo (the second image) into it. Place the logo in a natural, professional-looking position where it is visible but not obstructing key elements, such as a corner or an area with clear space. Ensure the logo's size is appropriate for the poster's design and it looks like it was part of the original design." }
-                ]
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            }
+        const { image: withLogo, outcome } = await getGenerationService().editImage({
+            signal,
+            toolId: 'posterGenerator',
+            parts: [
+                imagePart(poster.data, poster.mimeType),
+                imagePart(logoImage.data, logoImage.mimeType),
+                { text: logoPrompt.text }
+            ]
         });
 
-        const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-        if (imagePart?.inlineData) {
-            return imagePart.inlineData.data;
-        }
         // If logo addition fails for one image, return the original poster
-        return posterBase64;
+        if (!withLogo) {
+            setLogoOutcome(outcome);
+            return poster;
+        }
+        return withLogo;
     };
 
 
     const handleGenerateClick = async () => {
         if (!industry || !elements || !slogan || !style) {
-            setError('Please fill out all fields.');
+            setError(t('posterGenerator.fieldsRequired'));
+            return;
+        }
+
+        // One generation request, then one edit per poster to add the logo.
+        if (!confirmWithinBudget({ generatedImages: POSTER_OPTIONS, edits: logoImage ? POSTER_OPTIONS : 0 })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
+        setFailedOutcome(null);
+        setLogoOutcome(null);
         setGeneratedImages([]);
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = buildPrompt();
-
             // Step 1: Generate Posters
-            setLoadingMessage(logoImage ? 'Step 1/2: Generating posters...' : 'Generating posters...');
-            const imageGenResponse = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: prompt,
-                config: {
-                    numberOfImages: 3,
-                    outputMimeType: 'image/png',
-                    aspectRatio: '3:4',
-                },
+            setLoadingMessage(logoImage ? t('posterGenerator.step1of2') : t('posterGenerator.generating'));
+            const { images, outcome } = await getGenerationService().generateImages({
+                signal,
+                toolId: 'posterGenerator',
+                prompt: prompt.text,
+                numberOfImages: POSTER_OPTIONS,
+                outputMimeType: 'image/png',
+                aspectRatio: '3:4',
             });
 
-            if (!imageGenResponse.generatedImages || imageGenResponse.generatedImages.length === 0) {
-                throw new Error('The model did not return any images. This might be due to a safety filter. Please try adjusting your prompt.');
+            if (images.length === 0) {
+                throw new NoImageError(outcome);
             }
-            
-            let posters = imageGenResponse.generatedImages.map(img => img.image.imageBytes);
+            let posters = images;
 
             // Step 2: Add Logo if provided
-            if (logoImageBase64) {
-                setLoadingMessage('Step 2/2: Adding your logo...');
-                const logoAddPromises = posters.map(p => addLogoToPoster(p, ai));
+            if (logoImage) {
+                setLoadingMessage(t('posterGenerator.step2of2'));
+                const logoAddPromises = posters.map(p => addLogoToPoster(p, signal));
                 posters = await Promise.all(logoAddPromises);
             }
 
             setGeneratedImages(posters);
+            recordGeneration({
+                toolId: 'posterGenerator',
+                settings,
+                prompt: prompt.text,
+                templates: logoImage ? [prompt, logoPrompt] : [prompt],
+                input: logoImage,
+                outputs: posters,
+            });
+            if (posters.length < POSTER_OPTIONS) {
+                setError(t('posterGenerator.missingPosters', { missing: POSTER_OPTIONS - posters.length, requested: POSTER_OPTIONS }));
+            }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(t('errors.generic', { message: err instanceof Error ? err.message : String(err) }));
+            }
         } finally {
             setIsLoading(false);
             setLoadingMessage('');
@@ -147,52 +185,80 @@ export const PosterGenerator: React.FC = () => {
     return (
         <div className="poster-generator">
             <header className="header">
-                <h1>AI Poster Generator</h1>
-                <p>Describe your needs, optionally add your logo, and our AI will generate three distinct commercial posters.</p>
+                <h1>{t('tools.posterGenerator.title')}</h1>
+                <p>{t('posterGenerator.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} subject="description" />}
+            {logoOutcome && (
+                <>
+                    <p className="field-description">{t('posterGenerator.logoSkipped')}</p>
+                    <OutcomeReport outcome={logoOutcome} subject="logo" />
+                </>
+            )}
+
+            <PresetManager
+                toolId="posterGenerator"
+                settings={settings}
+                defaults={DEFAULT_POSTER_GENERATOR_SETTINGS}
+                builtIns={POSTER_GENERATOR_PRESETS}
+                onApply={applySettings}
+            />
 
             <div className="options-container">
                 <div className="form-group">
-                    <label htmlFor="industry">1. Industry</label>
-                    <input id="industry" type="text" value={industry} onChange={(e) => setIndustry(e.target.value)} className="text-input" placeholder="e.g., Cafe, Tech Startup, Fitness"/>
+                    <label htmlFor="industry">{t('posterGenerator.industry')}</label>
+                    <input id="industry" type="text" value={industry} onChange={(e) => setIndustry(e.target.value)} className="text-input" placeholder={t('posterGenerator.industryPlaceholder')}/>
                 </div>
                  <div className="form-group">
-                    <label htmlFor="elements">2. Key Visual Elements</label>
-                    <textarea id="elements" value={elements} onChange={(e) => setElements(e.target.value)} className="text-input" placeholder="e.g., A coffee cup, steaming latte art, warm lighting"/>
+                    <label htmlFor="elements">{t('posterGenerator.elements')}</label>
+                    <textarea id="elements" value={elements} onChange={(e) => setElements(e.target.value)} className="text-input" placeholder={t('posterGenerator.elementsPlaceholder')}/>
                 </div>
                 <div className="form-group">
-                    <label htmlFor="slogan">3. Slogan / Headline</label>
-                    <input id="slogan" type="text" value={slogan} onChange={(e) => setSlogan(e.target.value)} className="text-input" placeholder="e.g., Your Daily Grind, Perfected"/>
+                    <label htmlFor="slogan">{t('posterGenerator.slogan')}</label>
+                    <input id="slogan" type="text" value={slogan} onChange={(e) => setSlogan(e.target.value)} className="text-input" placeholder={t('posterGenerator.sloganPlaceholder')}/>
                 </div>
                  <div className="form-group">
-                    <label htmlFor="style">4. Desired Style</label>
-                    <input id="style" type="text" value={style} onChange={(e) => setStyle(e.target.value)} className="text-input" placeholder="e.g., Vintage, Modern minimalist, Bold and colorful"/>
+                    <label htmlFor="style">{t('posterGenerator.style')}</label>
+                    <input id="style" type="text" value={style} onChange={(e) => setStyle(e.target.value)} className="text-input" placeholder={t('posterGenerator.stylePlaceholder')}/>
                 </div>
                 <div className="form-group">
-                    <label>5. Add Your Logo (Optional)</label>
-                    <div className="logo-upload-container">
-                        <label htmlFor="logo-upload" className="btn btn-secondary">
-                            Upload Logo
-                        </label>
-                        <input id="logo-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleLogoChange} />
-                        {logoImageBase64 && (
-                            <img src={`data:${logoImage?.type};base64,${logoImageBase64}`} alt="Logo preview" className="logo-preview"/>
-                        )}
-                    </div>
+                    <label>{t('posterGenerator.logo')}</label>
+                    <ImageInput
+                        id="logo-upload"
+                        label={t('posterGenerator.uploadLogo')}
+                        value={logoImage}
+                        onChange={handleLogoChange}
+                        onError={setError}
+                        subject="logo"
+                        buttonClassName="btn btn-secondary"
+                        pasteAnywhere
+                    />
                 </div>
             </div>
 
+            <PromptInspector
+                prompts={templatePrompts}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
+
             <div className="controls">
                 <button 
                     onClick={handleGenerateClick} 
                     className="btn" 
                     disabled={isLoading}
-                    aria-label={isLoading ? "Generating, please wait" : "Generate Posters"}
+                    aria-label={isLoading ? t('common.generatingLabel') : t('posterGenerator.generate')}
                 >
-                    {isLoading ? loadingMessage : 'Generate Posters'}
+                    {isLoading ? loadingMessage : t('posterGenerator.generate')}
                 </button>
+                {isLoading && (
+                    <button onClick={cancelRequest} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
             </div>
 
             <section className="image-previews" aria-live="polite">
@@ -203,23 +269,18 @@ export const PosterGenerator: React.FC = () => {
                         <div className="image-container"><div className="loading-spinner"></div><p>{loadingMessage}</p></div>
                     </>
                 ) : generatedImages.length > 0 ? (
-                    generatedImages.map((imageBase64, index) => (
+                    generatedImages.map((image, index) => (
                         <div className="image-container" key={index}>
-                            <h3>Option {index + 1}</h3>
-                            <img src={`data:image/png;base64,${imageBase64}`} alt={`AI generated poster option ${index + 1}`} />
-                            <a 
-                                href={`data:image/png;base64,${imageBase64}`} 
-                                download={`poster_option_${index + 1}.png`} 
-                                className="btn btn-secondary"
-                                style={{marginTop: '1rem'}}
-                            >
-                                Download
-                            </a>
+                            <h3>{t('posterGenerator.option', { number: index + 1 })}</h3>
+                            <img src={toDataUrl(image)} alt={t('posterGenerator.optionAlt', { number: index + 1 })} />
+                            <div style={{marginTop: '1rem'}}>
+                                <ExportButton image={image} target={{ toolId: 'posterGenerator', name: `poster_option_${index + 1}`, settings }} />
+                            </div>
                         </div>
                     ))
                 ) : (
                     <div style={{gridColumn: '1 / -1', textAlign: 'center', padding: '2rem 0'}}>
-                        <p className="placeholder">Your generated posters will appear here.</p>
+                        <p className="placeholder">{t('posterGenerator.resultPlaceholder')}</p>
                     </div>
                 )}
             </section>
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import {
+    Preset, PresetDefinition, builtInPresets, listPresets, savePreset, renamePreset, deletePreset,
+    exportPresets, parsePresetFile, importPresets,
+} from './presetStore.js';
+import { decodeSettings, encodeSettings, ToolSettings, SettingsLimits } from './toolSettings.js';
+import { downloadBlob } from './download.js';
+import { useI18n } from './i18n.js';
+
+interface PresetManagerProps<S extends ToolSettings> {
+    toolId: string;
+    settings: S;
+    defaults: S;
+    limits?: SettingsLimits<S>;
+    builtIns: PresetDefinition<S>[];
+    onApply: (settings: S) => void;
+}
+
+// Save, load, rename, delete, export and import named settings for one tool. Applying a preset
+// goes through `decodeSettings`, so presets from older versions or other people are clamped to
+// the tool's current limits and missing values fall back to the defaults.
+export const PresetManager = <S extends ToolSettings>({ toolId, settings, defaults, limits, builtIns, onApply }: PresetManagerProps<S>) => {
+    const { t, tCount, optionLabel } = useI18n();
+    const [userPresets, setUserPresets] = useState<Preset[]>(() => listPresets(toolId));
+    const [selectedId, setSelectedId] = useState<string>('');
+    const [newName, setNewName] = useState<string>('');
+    const [renameTo, setRenameTo] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const builtInList = builtInPresets(toolId, builtIns).map(preset => ({ ...preset, name: optionLabel('presetName', preset.name) }));
+    const selected = [...builtInList, ...userPresets].find(preset => preset.id === selectedId) ?? null;
+
+    const refresh = () => setUserPresets(listPresets(toolId));
+
+    const report = (text: string) => {
+        setError(null);
+        setMessage(text);
+    };
+
+    const handleLoad = () => {
+        if (!selected) {
+            return;
+        }
+        onApply(decodeSettings(encodeSettings({ ...defaults, ...selected.settings } as ToolSettings), defaults, limits));
+        report(t('presets.loaded', { name: selected.name }));
+    };
+
+    const handleSave = () => {
+        const preset = savePreset(toolId, newName, settings);
+        refresh();
+        setSelectedId(preset.id);
+        setNewName('');
+        report(t('presets.saved', { name: preset.name }));
+    };
+
+    const handleRename = () => {
+        if (!selected || renameTo === null) {
+            return;
+        }
+        renamePreset(selected.id, renameTo);
+        refresh();
+        setRenameTo(null);
+    };
+
+    const handleDelete = () => {
+        if (!selected || selected.builtIn) {
+            return;
+        }
+        deletePreset(selected.id);
+        refresh();
+        setSelectedId('');
+        report(t('presets.deleted', { name: selected.name }));
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([exportPresets(toolId, userPresets)], { type: 'application/json' }), `${toolId}_presets.json`);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            const imported = importPresets(toolId, parsePresetFile(await file.text(), toolId));
+            refresh();
+            report(tCount('presets.importedCount', imported.length));
+        } catch (err) {
+            setMessage(null);
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <details className="preset-manager">
+            <summary>{t('presets.title')}</summary>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {message && <p className="field-description" role="status">{message}</p>}
+
+            <div className="preset-row">
+                {renameTo === null ? (
+                    <select
+                        className="filter-select"
+                        value={selectedId}
+                        onChange={(e) => setSelectedId(e.target.value)}
+                        aria-label={t('presets.presetLabel')}
+                    >
+                        <option value="">{t('presets.choose')}</option>
+                        <optgroup label={t('presets.builtIn')}>
+                            {builtInList.map(preset => (
+                                <option key={preset.id} value={preset.id}>{preset.name}</option>
+                            ))}
+                        </optgroup>
+                        {userPresets.length > 0 && (
+                            <optgroup label={t('presets.mine')}>
+                                {userPresets.map(preset => (
+                                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                    </select>
+                ) : (
+                    <input
+                        type="text"
+                        className="text-input"
+                        value={renameTo}
+                        onChange={(e) => setRenameTo(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        aria-label={t('presets.newNameLabel')}
+                        autoFocus
+                    />
+                )}
+                {renameTo === null ? (
+                    <>
+                        <button className="btn btn-small" onClick={handleLoad} disabled={!selected}>{t('presets.load')}</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => selected && setRenameTo(selected.name)} disabled={!selected || selected.builtIn}>{t('presets.rename')}</button>
+                        <button className="btn btn-danger btn-small" onClick={handleDelete} disabled={!selected || selected.builtIn}>{t('common.delete')}</button>
+                    </>
+                ) : (
+                    <>
+                        <button className="btn btn-small" onClick={handleRename} disabled={!renameTo.trim()}>{t('presets.saveName')}</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => setRenameTo(null)}>{t('common.cancel')}</button>
+                    </>
+                )}
+            </div>
+
+            <div className="preset-row">
+                <input
+                    type="text"
+                    className="text-input"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                    placeholder={t('presets.namePlaceholder')}
+                    aria-label={t('presets.nameLabel')}
+                />
+                <button className="btn btn-small" onClick={handleSave}>{t('presets.saveCurrent')}</button>
+            </div>
+
+            <div className="preset-row">
+                <button className="btn btn-secondary btn-small" onClick={handleExport} disabled={userPresets.length === 0}>
+                    {t('presets.export')}
+                </button>
+                <label htmlFor={`${toolId}-preset-import`} className="btn btn-secondary btn-small">
+                    {t('presets.import')}
+                </label>
+                <input id={`${toolId}-preset-import`} type="file" accept="application/json,.json" onChange={handleImport} />
+            </div>
+        </details>
+    );
+};
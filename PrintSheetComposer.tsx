@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { GeneratedImage } from './generationService.js';
+import { ID_PHOTO_SPECS, IdPhotoSpec, findIdPhotoSpec, renderToSpec } from './idPhotoSpecs.js';
+import {
+    PAPER_SIZES, SHEET_DPI, SheetOptions, SheetItem, layoutSheet, fillCopies, renderSheet, sheetToPng, sheetToPdf,
+} from './printSheet.js';
+import { specLabel } from './IdPhotoFraming.js';
+import { downloadBlob } from './download.js';
+import { tOr, useI18n } from './i18n.js';
+
+// Resolution of the on-screen preview; exports are drawn at SHEET_DPI.
+const PREVIEW_DPI = 40;
+const MAX_COPIES = 99;
+
+interface PrintSheetComposerProps {
+    // The photo already cropped to `spec`.
+    image: GeneratedImage;
+    spec: IdPhotoSpec;
+    // The uncropped photo, cut to the second size with the default framing.
+    source: GeneratedImage;
+}
+
+const itemFor = (spec: IdPhotoSpec, copies: number): SheetItem => ({ widthMm: spec.widthMm, heightMm: spec.heightMm, copies });
+
+// Tiles copies of the ID photo on a photo print or office sheet, optionally with a second size
+// below, and exports it as a 300 DPI PNG or PDF for a print shop.
+export const PrintSheetComposer: React.FC<PrintSheetComposerProps> = ({ image, spec, source }) => {
+    const { t, tCount } = useI18n();
+    const [paperId, setPaperId] = useState<string>(PAPER_SIZES[0].id);
+    const [landscape, setLandscape] = useState<boolean>(false);
+    const [marginMm, setMarginMm] = useState<number>(5);
+    const [spacingMm, setSpacingMm] = useState<number>(3);
+    const [cutMarks, setCutMarks] = useState<boolean>(true);
+    const [secondSpecId, setSecondSpecId] = useState<string>('');
+    const [secondCopies, setSecondCopies] = useState<number>(2);
+    const [secondImage, setSecondImage] = useState<GeneratedImage | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const options: SheetOptions = {
+        paper: PAPER_SIZES.find(paper => paper.id === paperId) ?? PAPER_SIZES[0],
+        landscape,
+        marginMm,
+        spacingMm,
+        cutMarks,
+    };
+    const secondSpec = secondSpecId ? findIdPhotoSpec(secondSpecId) : null;
+    const [copies, setCopies] = useState<number>(() => fillCopies(options, [itemFor(spec, 0)], 0));
+
+    const items = [itemFor(spec, copies), ...(secondSpec ? [itemFor(secondSpec, secondCopies)] : [])];
+    const images = [image, ...(secondSpec && secondImage ? [secondImage] : [])];
+    const layout = layoutSheet(options, items.slice(0, images.length));
+    const overflow = layout.overflow.reduce((total, count) => total + count, 0);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setSecondImage(null);
+        if (secondSpec) {
+            renderToSpec(source, secondSpec)
+                .then(result => isCurrent && setSecondImage(result))
+                .catch(err => isCurrent && setError(t('printSheet.failed', { message: err instanceof Error ? err.message : String(err) })));
+        }
+        return () => {
+            isCurrent = false;
+        };
+    }, [source, secondSpec]);
+
+    const layoutKey = JSON.stringify({ options, items, images: images.length });
+    useEffect(() => {
+        let isCurrent = true;
+        renderSheet(layout, images, options, PREVIEW_DPI)
+            .then(canvas => isCurrent && setPreviewUrl(canvas.toDataURL('image/png')))
+            .catch(() => isCurrent && setPreviewUrl(null));
+        return () => {
+            isCurrent = false;
+        };
+    }, [layoutKey, image, secondImage]);
+
+    const handleFill = () => setCopies(fillCopies(options, items, 0));
+
+    const handleExport = async (format: 'png' | 'pdf') => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            const canvas = await renderSheet(layout, images, options, SHEET_DPI);
+            const blob = format === 'png' ? await sheetToPng(canvas) : await sheetToPdf(canvas, layout);
+            downloadBlob(blob, `id_photo_sheet_${options.paper.id}.${format}`);
+        } catch (err) {
+            setError(t('printSheet.failed', { message: err instanceof Error ? err.message : String(err) }));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const numberField = (id: string, label: string, value: number, onChange: (value: number) => void, max: number, step: number = 1) => (
+        <div className="form-group">
+            <label htmlFor={id}>{label}</label>
+            <input
+                id={id}
+                type="number"
+                className="number-input"
+                min="0"
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(Math.min(max, Math.max(0, Number(e.target.value) || 0)))}
+            />
+        </div>
+    );
+
+    return (
+        <section className="print-sheet" aria-label={t('printSheet.title')}>
+            <h3 className="options-header">{t('printSheet.title')}</h3>
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            <div className="print-sheet-body">
+                <div className="print-sheet-preview" style={{ aspectRatio: `${layout.widthMm} / ${layout.heightMm}` }}>
+                    {previewUrl && <img src={previewUrl} alt={t('printSheet.previewAlt', { count: layout.placements.length })} />}
+                </div>
+
+                <div className="print-sheet-controls">
+                    <div className="form-group">
+                        <label htmlFor="print-sheet-paper">{t('printSheet.paper')}</label>
+                        <select id="print-sheet-paper" className="filter-select" value={paperId} onChange={(e) => setPaperId(e.target.value)}>
+                            {PAPER_SIZES.map(paper => (
+                                <option key={paper.id} value={paper.id}>{tOr(`printSheet.paper.${paper.id}`, paper.id)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label>{t('printSheet.orientation')}</label>
+                        <div className="radio-group" role="radiogroup" aria-label={t('printSheet.orientation')}>
+                            <button onClick={() => setLandscape(false)} className={!landscape ? 'active' : ''} role="radio" aria-checked={!landscape}>{t('printSheet.portrait')}</button>
+                            <button onClick={() => setLandscape(true)} className={landscape ? 'active' : ''} role="radio" aria-checked={landscape}>{t('printSheet.landscape')}</button>
+                        </div>
+                    </div>
+                    <div className="print-sheet-row">
+                        {numberField('print-sheet-copies', t('printSheet.copies', { spec: specLabel(spec) }), copies, setCopies, MAX_COPIES)}
+                        <button className="btn btn-secondary btn-small" onClick={handleFill}>{t('printSheet.fill')}</button>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="print-sheet-second">{t('printSheet.secondSize')}</label>
+                        <select id="print-sheet-second" className="filter-select" value={secondSpecId} onChange={(e) => setSecondSpecId(e.target.value)}>
+                            <option value="">{t('printSheet.secondSizeNone')}</option>
+                            {ID_PHOTO_SPECS.filter(option => option.id !== spec.id).map(option => (
+                                <option key={option.id} value={option.id}>{specLabel(option)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {secondSpec && numberField('print-sheet-second-copies', t('printSheet.copies', { spec: specLabel(secondSpec) }), secondCopies, setSecondCopies, MAX_COPIES)}
+                    <div className="print-sheet-row">
+                        {numberField('print-sheet-margin', t('printSheet.margin'), marginMm, setMarginMm, 30, 0.5)}
+                        {numberField('print-sheet-spacing', t('printSheet.spacing'), spacingMm, setSpacingMm, 20, 0.5)}
+                    </div>
+                    <label className="compare-toggle">
+                        <input type="checkbox" checked={cutMarks} onChange={(e) => setCutMarks(e.target.checked)} />
+                        {t('printSheet.cutMarks')}
+                    </label>
+
+                    <p className="field-description">
+                        {t('printSheet.summary', { count: layout.placements.length, dpi: SHEET_DPI })}
+                    </p>
+                    {overflow > 0 && (
+                        <p className="field-description print-sheet-overflow">{tCount('printSheet.overflow', overflow)}</p>
+                    )}
+
+                    <div className="controls">
+                        <button className="btn" onClick={() => handleExport('png')} disabled={isBusy || layout.placements.length === 0}>{t('printSheet.downloadPng')}</button>
+                        <button className="btn btn-secondary" onClick={() => handleExport('pdf')} disabled={isBusy || layout.placements.length === 0}>{t('printSheet.downloadPdf')}</button>
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useCallback } from 'react';
+import { RequestPart } from './generationService.js';
+import { RenderedPrompt, describeTemplateRef } from './promptTemplates.js';
+import { useI18n } from './i18n.js';
+
+// Replacement texts keyed by template id.
+export type PromptOverrides = Record<string, string>;
+
+// Prompt overrides typed in the inspector. Tools clear them once a run has used them, so an
+// override never silently sticks to later runs.
+export const usePromptOverrides = () => {
+    const [overrides, setOverrides] = useState<PromptOverrides>({});
+
+    const setOverride = useCallback((templateId: string, text: string | null) => {
+        setOverrides(current => {
+            const next = { ...current };
+            if (text === null) {
+                delete next[templateId];
+            } else {
+                next[templateId] = text;
+            }
+            return next;
+        });
+    }, []);
+
+    const clear = useCallback(() => setOverrides({}), []);
+
+    return { overrides, setOverride, clear };
+};
+
+// Approximate decoded size of a base64 payload.
+const formatBytes = (base64Length: number): string => {
+    const bytes = Math.round(base64Length * 3 / 4);
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+interface PromptInspectorProps {
+    // The prompts as rendered from their templates, without overrides.
+    prompts: RenderedPrompt[];
+    overrides: PromptOverrides;
+    onOverrideChange: (templateId: string, text: string | null) => void;
+    // The parts of the next request, with any override applied.
+    parts: RequestPart[];
+}
+
+// An advanced drawer showing exactly what the next run sends: each prompt with its template
+// version, and the request parts in order. A prompt can be replaced for one run.
+export const PromptInspector: React.FC<PromptInspectorProps> = ({ prompts, overrides, onOverrideChange, parts }) => {
+    const { t } = useI18n();
+
+    return (
+        <details className="prompt-inspector">
+            <summary>{t('promptInspector.title')}</summary>
+
+            {prompts.map(prompt => {
+                const override = overrides[prompt.id];
+                const isOverridden = override !== undefined;
+                return (
+                    <div className="prompt-inspector-prompt" key={prompt.id}>
+                        <div className="prompt-inspector-header">
+                            <code>{describeTemplateRef({ ...prompt, overridden: isOverridden })}</code>
+                            {isOverridden ? (
+                                <button className="btn btn-secondary btn-small" onClick={() => onOverrideChange(prompt.id, null)}>
+                                    {t('promptInspector.reset')}
+                                </button>
+                            ) : (
+                                <button className="btn btn-secondary btn-small" onClick={() => onOverrideChange(prompt.id, prompt.text)}>
+                                    {t('promptInspector.override')}
+                                </button>
+                            )}
+                        </div>
+                        {isOverridden ? (
+                            <textarea
+                                className="text-input"
+                                value={override}
+                                onChange={(e) => onOverrideChange(prompt.id, e.target.value)}
+                                aria-label={t('promptInspector.overrideLabel', { id: prompt.id })}
+                                rows={10}
+                            />
+                        ) : (
+                            <pre className="prompt-inspector-text">{prompt.text}</pre>
+                        )}
+                    </div>
+                );
+            })}
+            <p className="field-description">{t('promptInspector.overrideHint')}</p>
+
+            <h4>{t('promptInspector.parts')}</h4>
+            <ol className="prompt-inspector-parts">
+                {parts.map((part, index) => (
+                    <li key={index}>
+                        {'inlineData' in part
+                            ? t('promptInspector.imagePart', { mimeType: part.inlineData.mimeType, size: formatBytes(part.inlineData.data.length) })
+                            : t('promptInspector.textPart', { count: part.text.length })}
+                    </li>
+                ))}
+            </ol>
+        </details>
+    );
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { getGenerationService, generationErrorMessage, confirmWithinBudget, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import type { ResponseOutcome } from './responseOutcome.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { buildRefinementHistory, RefinementStack } from './useRefinementStack.js';
+import { buildRefinementPrompt } from './prompts/refinement.js';
+import { useI18n } from './i18n.js';
+
+interface RefinementPanelProps {
+    // The tool the refinements are made for, recorded with their usage.
+    toolId: string;
+    stack: RefinementStack;
+    // The parts of the request that produced the base image, replayed as the first turn.
+    initialParts: RequestPart[];
+    // English example instructions; the chips show and insert their translation.
+    suggestions?: string[];
+}
+
+// Follow-up edits on a generated result ("make the tie a bit darker"), each sent with the earlier
+// turns as context so that what already looks right is kept.
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ toolId, stack, initialParts, suggestions = [] }) => {
+    const { t, optionLabel } = useI18n();
+    const [instruction, setInstruction] = useState<string>('');
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
+
+    // A different base image (new run or another candidate) makes a pending refinement meaningless.
+    useEffect(() => {
+        cancelRequest();
+        setError(null);
+        setFailedOutcome(null);
+    }, [stack.base, cancelRequest]);
+
+    const handleRefine = async () => {
+        const base = stack.base;
+        if (!base || !instruction.trim() || !confirmWithinBudget({ edits: 1 })) {
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+        setFailedOutcome(null);
+        const signal = startRequest();
+
+        try {
+            const { image, outcome } = await getGenerationService().editImage({
+                signal,
+                toolId,
+                history: buildRefinementHistory(initialParts, base, stack.applied),
+                parts: [{ text: buildRefinementPrompt(instruction) }],
+            });
+
+            if (image) {
+                stack.push({ instruction: instruction.trim(), image });
+                setInstruction('');
+            } else {
+                setFailedOutcome(outcome);
+            }
+        } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
+            console.error(err);
+            setError(generationErrorMessage(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <section className="refinement-panel" aria-label={t('refinement.title')}>
+            <h3 className="options-header">{t('refinement.title')}</h3>
+
+            {stack.steps.length > 0 && (
+                <ol className="refinement-steps">
+                    {stack.steps.map((step, index) => (
+                        <li key={index} className={index < stack.position ? '' : 'undone'}>
+                            {step.instruction}
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} subject="instruction" />}
+
+            <div className="form-group">
+                <label htmlFor="refinement-instruction">{t('refinement.instructionLabel')}</label>
+                <textarea
+                    id="refinement-instruction"
+                    className="text-input"
+                    rows={2}
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleRefine();
+                        }
+                    }}
+                    placeholder={t('refinement.instructionPlaceholder')}
+                    disabled={isLoading}
+                />
+                {suggestions.length > 0 && (
+                    <div className="refinement-suggestions">
+                        {suggestions.map(suggestion => optionLabel('refinementSuggestion', suggestion)).map(suggestion => (
+                            <button key={suggestion} onClick={() => setInstruction(suggestion)} disabled={isLoading}>
+                                {suggestion}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="refinement-actions">
+                <button className="btn" onClick={handleRefine} disabled={isLoading || !instruction.trim()}>
+                    {isLoading ? t('refinement.refining') : t('refinement.apply')}
+                </button>
+                {isLoading && (
+                    <button onClick={cancelRequest} className="btn btn-secondary">
+                        {t('common.cancel')}
+                    </button>
+                )}
+                <button className="btn btn-secondary" onClick={stack.undo} disabled={isLoading || !stack.canUndo}>
+                    {t('refinement.undo')}
+                </button>
+                <button className="btn btn-secondary" onClick={stack.redo} disabled={isLoading || !stack.canRedo}>
+                    {t('refinement.redo')}
+                </button>
+            </div>
+        </section>
+    );
+};
@@ -3,107 +3,144 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import React, { useState } from 'react';
+import { getGenerationService, imagePart, toDataUrl, generationErrorMessage, editImageVariants, confirmWithinBudget, missingVariantsMessage, MAX_VARIANTS, RequestPart } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import type { PreparedImage } from './imagePreprocessing.js';
+import { ImageInput } from './ImageInput.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+import { ImageCompare } from './ImageCompare.js';
+import { CandidateGrid, VariantCountSelector } from './CandidateGrid.js';
+import { ExportButton } from './ExportDialog.js';
+import { OutcomeReport } from './OutcomeReport.js';
+import type { ExportTarget } from './imageExport.js';
+import { useCandidates } from './useCandidates.js';
+import { BatchPanel, BatchModeToggle } from './BatchPanel.js';
+import { useBatchQueue } from './useBatchQueue.js';
+import { recordGeneration } from './historyStore.js';
+import { useInitialSettings, useSettingsInUrl, ToolProps, SettingsLimits } from './toolSettings.js';
+import { PresetManager } from './PresetManager.js';
+import type { PresetDefinition } from './presetStore.js';
+import { PromptInspector, usePromptOverrides } from './PromptInspector.js';
+import { withOverride } from './promptTemplates.js';
+import { buildSocialMediaPrompt } from './prompts/socialMediaConverter.js';
+import { useI18n } from './i18n.js';
 
-type SocialPlatform = 'Xiaohongshu' | 'Instagram' | 'Facebook' | 'LinkedIn';
+export type SocialPlatform = 'Xiaohongshu' | 'Instagram' | 'Facebook' | 'LinkedIn';
 const SOCIAL_PLATFORMS: SocialPlatform[] = ['Xiaohongshu', 'Instagram', 'Facebook', 'LinkedIn'];
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 
-export const SocialMediaConverter: React.FC = () => {
-    const [originalImage, setOriginalImage] = useState<File | null>(null);
-    const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-    const [generatedImageBase64, setGeneratedImageBase64] = useState<string | null>(null);
+export type SocialMediaConverterSettings = {
+    platform: SocialPlatform;
+    variants: number;
+};
+
+export const DEFAULT_SOCIAL_MEDIA_CONVERTER_SETTINGS: SocialMediaConverterSettings = {
+    platform: 'Instagram',
+    variants: 1,
+};
+
+const SOCIAL_MEDIA_CONVERTER_SETTINGS_LIMITS: SettingsLimits<SocialMediaConverterSettings> = {
+    platform: SOCIAL_PLATFORMS,
+    variants: { min: 1, max: MAX_VARIANTS },
+};
+
+const SOCIAL_MEDIA_CONVERTER_PRESETS: PresetDefinition<SocialMediaConverterSettings>[] = [
+    { name: 'Professional Profile', settings: { platform: 'LinkedIn' } },
+    { name: 'Lifestyle Blog', settings: { platform: 'Xiaohongshu' } },
+    { name: 'Feed Favorites', settings: { platform: 'Instagram', variants: 3 } },
+];
+
+export const SocialMediaConverter: React.FC<ToolProps> = ({ routeParams }) => {
+    const { t, optionLabel } = useI18n();
+    const initialSettings = useInitialSettings(routeParams, DEFAULT_SOCIAL_MEDIA_CONVERTER_SETTINGS, SOCIAL_MEDIA_CONVERTER_SETTINGS_LIMITS);
+    const [originalImage, setOriginalImage] = useState<PreparedImage | null>(null);
+    const candidates = useCandidates();
+    const generatedImage = candidates.selected?.image ?? null;
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [platform, setPlatform] = useState<SocialPlatform>('Instagram');
-
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
+    const [failedOutcome, setFailedOutcome] = useState<ResponseOutcome | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useAbortableRequest();
+    const [platform, setPlatform] = useState<SocialPlatform>(initialSettings.platform);
+    const [variants, setVariants] = useState<number>(initialSettings.variants);
+    const [isBatch, setIsBatch] = useState<boolean>(false);
+    const batchQueue = useBatchQueue();
+
+    const settings: SocialMediaConverterSettings = { platform, variants };
+    const exportTarget: ExportTarget = { toolId: 'socialMediaConverter', name: `${platform.toLowerCase()}_style`, settings };
+    useSettingsInUrl(settings);
+
+    const applySettings = (preset: SocialMediaConverterSettings) => {
+        setPlatform(preset.platform);
+        setVariants(preset.variants);
     };
 
-    const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleImageChange = (image: PreparedImage | null) => {
         setError(null);
-        setGeneratedImageBase64(null);
-        const file = event.target.files?.[0];
-
-        if (file) {
-            if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
-                setError('Unsupported file type. Please upload a JPEG, PNG, or WEBP image.');
-                setOriginalImage(null);
-                setOriginalImageBase64(null);
-                return;
-            }
-            setOriginalImage(file);
-            const base64 = await fileToBase64(file);
-            setOriginalImageBase64(base64);
-        }
-    }, []);
-
-    const buildPrompt = (): string => {
-        switch (platform) {
-            case 'Xiaohongshu':
-                return 'Recreate this image with a "Xiaohongshu" (Little Red Book) aesthetic. The style should be bright, clean, and visually pleasing with a soft, airy feel. Apply an aesthetic filter that enhances the colors to be slightly desaturated but warm. The overall mood should be aspirational, high-quality, and feel like a lifestyle blogger\'s post. If it makes sense, add a subtle, clean border.';
-            case 'Instagram':
-                return 'Transform this image to have a trendy and eye-catching "Instagram" style. Boost the vibrancy and contrast to make the colors pop. Sharpen the details for a high-quality look. The final image should be polished, engaging, and designed to stand out on a feed. Apply a modern, popular filter that gives it a professional but authentic look.';
-            case 'Facebook':
-                return 'Adapt this image for "Facebook". The style should be clean, natural, and well-lit. Enhance the colors to be warm and inviting, but avoid overly dramatic filters. The goal is an approachable, authentic image that looks clear and shareable for a general audience. The focus is on clarity and a friendly, community-oriented feel.';
-            case 'LinkedIn':
-                return 'Convert this image to a professional style suitable for "LinkedIn". The aesthetic must be clean, sharp, and polished. Use a more muted, corporate color palette (e.g., emphasizing blues and neutrals). If there is a person, ensure they look competent and trustworthy. The background should be clean and non-distracting. The overall tone must be professional and serious.';
-        }
+        setFailedOutcome(null);
+        candidates.clear();
+        setOriginalImage(image);
     };
 
+    const promptOverrides = usePromptOverrides();
+    const templatePrompt = buildSocialMediaPrompt(settings);
+    const prompt = withOverride(templatePrompt, promptOverrides.overrides[templatePrompt.id]);
+    // What the next run sends, shown in the prompt inspector.
+    const pendingParts: RequestPart[] = [
+        ...(originalImage ? [imagePart(originalImage.data, originalImage.mimeType)] : []),
+        { text: prompt.text },
+    ];
+
     const handleGenerateClick = async () => {
-        if (!originalImage || !originalImageBase64) {
-            setError('Please upload an image first.');
+        if (!originalImage) {
+            setError(t('common.uploadFirst'));
+            return;
+        }
+
+        if (!confirmWithinBudget({ edits: variants })) {
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setGeneratedImageBase64(null);
+        setFailedOutcome(null);
+        candidates.clear();
+        const signal = startRequest();
+        promptOverrides.clear();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = buildPrompt();
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        {
-                            inlineData: {
-                                data: originalImageBase64,
-                                mimeType: originalImage.type,
-                            },
-                        },
-                        { text: prompt },
-                    ],
-                },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-            
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            const images = await editImageVariants({
+                signal,
+                toolId: 'socialMediaConverter',
+                parts: [
+                    imagePart(originalImage.data, originalImage.mimeType),
+                    { text: prompt.text },
+                ],
+            }, variants);
 
-            if (imagePart?.inlineData) {
-                setGeneratedImageBase64(imagePart.inlineData.data);
-            } else {
-                 setError('The model did not return an image. This might be due to a safety filter or an issue with the input. Please try a different photo.');
+            candidates.replace(images);
+            recordGeneration({
+                toolId: 'socialMediaConverter',
+                settings,
+                prompt: prompt.text,
+                templates: [prompt],
+                input: originalImage,
+                outputs: images,
+            });
+            if (images.length < variants) {
+                setError(missingVariantsMessage(images.length, variants));
             }
 
         } catch (err) {
+            if (isCancellation(err)) {
+                return;
+            }
             console.error(err);
-            setError(`An error occurred while generating the image: ${err instanceof Error ? err.message : String(err)}`);
+            if (err instanceof NoImageError) {
+                setFailedOutcome(err.outcome);
+            } else {
+                setError(generationErrorMessage(err));
+            }
         } finally {
             setIsLoading(false);
         }
@@ -112,15 +149,27 @@ export const SocialMediaConverter: React.FC = () => {
     return (
         <>
             <header className="header">
-                <h1>Social Media Style Converter</h1>
-                <p>Upload a photo, choose a platform, and let AI adapt it to the perfect style.</p>
+                <h1>{t('tools.socialMediaConverter.title')}</h1>
+                <p>{t('socialMediaConverter.subtitle')}</p>
             </header>
             
             {error && <div className="error-message" role="alert">{error}</div>}
+            {failedOutcome && <OutcomeReport outcome={failedOutcome} />}
+
+            <PresetManager
+                toolId="socialMediaConverter"
+                settings={settings}
+                defaults={DEFAULT_SOCIAL_MEDIA_CONVERTER_SETTINGS}
+                limits={SOCIAL_MEDIA_CONVERTER_SETTINGS_LIMITS}
+                builtIns={SOCIAL_MEDIA_CONVERTER_PRESETS}
+                onApply={applySettings}
+            />
+
+            <BatchModeToggle isBatch={isBatch} onChange={setIsBatch} />
 
             <div className="options-container">
                 <div className="form-group">
-                    <label>1. Select Target Platform</label>
+                    <label>{t('socialMediaConverter.platform')}</label>
                     <div className="style-selector" role="radiogroup">
                         {SOCIAL_PLATFORMS.map(p => (
                             <button 
@@ -130,57 +179,93 @@ export const SocialMediaConverter: React.FC = () => {
                                 role="radio"
                                 aria-checked={platform === p}
                             >
-                                {p}
+                                {optionLabel('platform', p)}
                             </button>
                         ))}
                     </div>
                 </div>
+                {!isBatch && <VariantCountSelector label={t('socialMediaConverter.variants')} value={variants} onChange={setVariants} />}
             </div>
 
-            <div className="controls">
-                <label htmlFor="social-media-upload" className="btn">
-                    Upload Photo
-                </label>
-                <input id="social-media-upload" type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} />
-                <button 
-                    onClick={handleGenerateClick} 
-                    className="btn" 
-                    disabled={!originalImage || isLoading}
-                    aria-label={isLoading ? "Converting, please wait" : "Convert Style"}
-                >
-                    {isLoading ? 'Converting...' : 'Convert Style'}
-                </button>
-                {generatedImageBase64 && (
-                    <a 
-                        href={`data:image/png;base64,${generatedImageBase64}`} 
-                        download={`${platform.toLowerCase()}_style.png`} 
-                        className="btn btn-secondary"
-                    >
-                        Download Photo
-                    </a>
-                )}
-            </div>
+            <PromptInspector
+                prompts={[templatePrompt]}
+                overrides={promptOverrides.overrides}
+                onOverrideChange={promptOverrides.setOverride}
+                parts={pendingParts}
+            />
 
-            <section className="image-previews" aria-live="polite">
-                <div className="image-container">
-                    <h3>Original</h3>
-                    {originalImageBase64 ? (
-                        <img src={`data:${originalImage?.type};base64,${originalImageBase64}`} alt="Original user upload" />
-                    ) : (
-                        <p className="placeholder">Upload an image to see it here.</p>
-                    )}
-                </div>
-                <div className="image-container">
-                    <h3>{platform} Style</h3>
-                    {isLoading ? (
-                        <div className="loading-spinner" aria-label="Processing image"></div>
-                    ) : generatedImageBase64 ? (
-                        <img src={`data:image/png;base64,${generatedImageBase64}`} alt={`AI generated image in ${platform} style`} />
-                    ) : (
-                         <p className="placeholder">Your converted image will appear here.</p>
+            {isBatch ? (
+                <BatchPanel
+                    queue={batchQueue}
+                    toolId="socialMediaConverter"
+                    settings={{ platform }}
+                    prompt={prompt.text}
+                    templates={[prompt]}
+                    outputSuffix={platform.toLowerCase()}
+                    process={(input, signal) => getGenerationService().editImage({
+                        signal,
+                        toolId: 'socialMediaConverter',
+                        parts: [imagePart(input.data, input.mimeType), { text: prompt.text }],
+                    })}
+                />
+            ) : (
+                <>
+                    <ImageInput
+                        id="social-media-upload"
+                        label={t('common.uploadPhoto')}
+                        value={originalImage}
+                        onChange={handleImageChange}
+                        onError={setError}
+                        pasteAnywhere
+                    />
+
+                    <div className="controls">
+                        <button 
+                            onClick={handleGenerateClick} 
+                            className="btn" 
+                            disabled={!originalImage || isLoading}
+                            aria-label={isLoading ? t('socialMediaConverter.convertingLabel') : t('socialMediaConverter.convert')}
+                        >
+                            {isLoading ? t('socialMediaConverter.converting') : t('socialMediaConverter.convert')}
+                        </button>
+                        {isLoading && (
+                            <button onClick={cancelRequest} className="btn btn-secondary">
+                                {t('common.cancel')}
+                            </button>
+                        )}
+                        {generatedImage && (
+                            <ExportButton image={generatedImage} target={exportTarget} label={t('common.downloadPhoto')} />
+                        )}
+                    </div>
+
+                    <section className="image-previews" aria-live="polite">
+                        <div className="image-container">
+                            <h3>{t('common.original')}</h3>
+                            {originalImage ? (
+                                <img src={toDataUrl(originalImage)} alt={t('common.originalAlt')} />
+                            ) : (
+                                <p className="placeholder">{t('common.uploadPlaceholder')}</p>
+                            )}
+                        </div>
+                        <div className="image-container">
+                            <h3>{t('socialMediaConverter.resultHeading', { platform: optionLabel('platform', platform) })}</h3>
+                            {isLoading ? (
+                                <div className="loading-spinner" aria-label={t('common.processing')}></div>
+                            ) : generatedImage ? (
+                                <img src={toDataUrl(generatedImage)} alt={t('socialMediaConverter.resultAlt', { platform: optionLabel('platform', platform) })} />
+                            ) : (
+                                 <p className="placeholder">{t('socialMediaConverter.resultPlaceholder')}</p>
+                            )}
+                        </div>
+                    </section>
+
+                    <CandidateGrid state={candidates} exportTarget={exportTarget} alt={t('socialMediaConverter.resultAlt', { platform: optionLabel('platform', platform) })} />
+
+                    {originalImage && generatedImage && !isLoading && (
+                        <ImageCompare beforeSrc={toDataUrl(originalImage)} afterSrc={toDataUrl(generatedImage)} />
                     )}
-                </div>
-            </section>
+                </>
+            )}
         </>
     );
 };
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import React from 'react';
+import { t } from './i18n.js';
 
 interface ToolCardProps {
     icon: React.ReactNode;
@@ -27,7 +28,7 @@ export const ToolCard: React.FC<ToolCardProps> = ({ icon, title, description, on
             onKeyPress={handleKeyPress}
             role="button" 
             tabIndex={0}
-            aria-label={`Select tool: ${title}`}
+            aria-label={t('directory.selectTool', { title })}
         >
             <div className="tool-header">
                 <div className="tool-icon">{icon}</div>
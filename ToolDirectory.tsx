@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ToolCard } from './ToolCard.js';
+import { HistoryIcon, UsageIcon } from './icons.js';
+import { TOOLS, TOOL_CATEGORIES, ToolCategory, filterTools, toolTitle, toolDescription } from './toolRegistry.js';
+import { replaceParams } from './router.js';
+import { useI18n } from './i18n.js';
+
+interface ToolDirectoryProps {
+    // The home route's query, which keeps the search (`q`) and `category` filter across reloads.
+    routeParams: URLSearchParams;
+    onSelect: (toolId: string) => void;
+}
+
+export const ToolDirectory: React.FC<ToolDirectoryProps> = ({ routeParams, onSelect }) => {
+    const { t, optionLabel } = useI18n();
+    const [query, setQuery] = useState<string>(routeParams.get('q') ?? '');
+    const [category, setCategory] = useState<ToolCategory | null>(() => {
+        const value = routeParams.get('category');
+        return TOOL_CATEGORIES.includes(value as ToolCategory) ? value as ToolCategory : null;
+    });
+
+    useEffect(() => {
+        const params = new URLSearchParams();
+        if (query) {
+            params.set('q', query);
+        }
+        if (category) {
+            params.set('category', category);
+        }
+        replaceParams(params);
+    }, [query, category]);
+
+    const visibleTools = filterTools(TOOLS, query, category);
+
+    return (
+        <>
+            <header className="header">
+                <h1>{t('directory.title')}</h1>
+                <p>{t('directory.subtitle')}</p>
+            </header>
+            <div className="tool-filters">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className="text-input"
+                    placeholder={t('directory.searchPlaceholder')}
+                    aria-label={t('directory.searchLabel')}
+                />
+                <div className="style-selector" role="radiogroup" aria-label={t('directory.categoryLabel')}>
+                    <button
+                        onClick={() => setCategory(null)}
+                        className={category === null ? 'active' : ''}
+                        role="radio"
+                        aria-checked={category === null}
+                    >
+                        {t('directory.allCategories')}
+                    </button>
+                    {TOOL_CATEGORIES.map(c => (
+                        <button
+                            key={c}
+                            onClick={() => setCategory(c)}
+                            className={category === c ? 'active' : ''}
+                            role="radio"
+                            aria-checked={category === c}
+                        >
+                            {optionLabel('category', c)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <main className="tool-grid">
+                {visibleTools.map(tool => (
+                    <ToolCard
+                        key={tool.id}
+                        icon={<tool.icon />}
+                        title={toolTitle(tool)}
+                        description={toolDescription(tool)}
+                        onClick={() => onSelect(tool.id)}
+                    />
+                ))}
+                {visibleTools.length === 0 && (
+                    <p className="placeholder">{t('directory.noMatches')}</p>
+                )}
+                <ToolCard
+                    icon={<HistoryIcon />}
+                    title={t('history.title')}
+                    description={t('directory.historyDescription')}
+                    onClick={() => onSelect('history')}
+                />
+                <ToolCard
+                    icon={<UsageIcon />}
+                    title={t('usage.title')}
+                    description={t('directory.usageDescription')}
+                    onClick={() => onSelect('usage')}
+                />
+            </main>
+        </>
+    );
+};
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    useUsage,
+    summarizeUsage,
+    dayKey,
+    monthKey,
+    formatCost,
+    savePriceTable,
+    saveBudgets,
+    clearUsageRecords,
+    DEFAULT_PRICE_TABLE,
+    ModelPrice,
+    PriceTable,
+    UsageBudgets,
+    UsageSummary,
+} from './usageStore.js';
+import { useI18n } from './i18n.js';
+
+interface UsageDashboardProps {
+    // Maps tool ids to their display titles.
+    toolTitles: Record<string, string>;
+}
+
+// Days shown in the per-day table.
+const DAYS_SHOWN = 30;
+
+const PRICE_FIELDS: (keyof ModelPrice)[] = ['perImage', 'perMillionInputTokens', 'perMillionOutputTokens'];
+
+const parseBudget = (value: string): number | null => {
+    const amount = Number(value);
+    return value.trim() === '' || !Number.isFinite(amount) || amount <= 0 ? null : amount;
+};
+
+const UsageTable: React.FC<{ caption: string; keyLabel: string; rows: UsageSummary[]; labelOf?: (key: string) => string }> = ({ caption, keyLabel, rows, labelOf = key => key }) => {
+    const { locale, t } = useI18n();
+    const number = new Intl.NumberFormat(locale);
+
+    return (
+        <table className="usage-table">
+            <caption>{caption}</caption>
+            <thead>
+                <tr>
+                    <th scope="col">{keyLabel}</th>
+                    <th scope="col">{t('usage.requests')}</th>
+                    <th scope="col">{t('usage.failed')}</th>
+                    <th scope="col">{t('usage.images')}</th>
+                    <th scope="col">{t('usage.tokens')}</th>
+                    <th scope="col">{t('usage.cost')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.key}>
+                        <th scope="row">{labelOf(row.key)}</th>
+                        <td>{number.format(row.requests)}</td>
+                        <td>{number.format(row.failed)}</td>
+                        <td>{number.format(row.images)}</td>
+                        <td>{number.format(row.inputTokens)} / {number.format(row.outputTokens)}</td>
+                        <td>
+                            {formatCost(row.cost)}
+                            {row.unpriced > 0 && <span className="usage-unpriced" title={t('usage.unpricedHint')}> *</span>}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+// Every request the app has made from this browser, with totals per day and per tool, an
+// estimated cost from an editable price table, and optional soft budgets.
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ toolTitles }) => {
+    const { t, tCount } = useI18n();
+    const { records, prices, budgets } = useUsage();
+    const [priceDraft, setPriceDraft] = useState<PriceTable>(prices);
+    const [budgetDraft, setBudgetDraft] = useState({ daily: '', monthly: '' });
+    const [status, setStatus] = useState<string | null>(null);
+
+    useEffect(() => {
+        setPriceDraft(prices);
+    }, [prices]);
+
+    useEffect(() => {
+        setBudgetDraft({ daily: budgets.daily?.toString() ?? '', monthly: budgets.monthly?.toString() ?? '' });
+    }, [budgets]);
+
+    const now = Date.now();
+    const [today] = summarizeUsage(records.filter(record => dayKey(record.createdAt) === dayKey(now)), prices, () => 'today');
+    const [thisMonth] = summarizeUsage(records.filter(record => monthKey(record.createdAt) === monthKey(now)), prices, () => 'month');
+    const [total] = summarizeUsage(records, prices, () => 'total');
+    const byDay = summarizeUsage(records, prices, record => dayKey(record.createdAt)).reverse().slice(0, DAYS_SHOWN);
+    const byTool = summarizeUsage(records, prices, record => record.toolId).sort((a, b) => b.cost - a.cost);
+
+    const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+        setPriceDraft(current => ({ ...current, [model]: { ...current[model], [field]: Math.max(0, Number(value) || 0) } }));
+    };
+
+    const handleSavePrices = () => {
+        savePriceTable(priceDraft);
+        setStatus(t('usage.pricesSaved'));
+    };
+
+    const handleResetPrices = () => {
+        savePriceTable(DEFAULT_PRICE_TABLE);
+        setStatus(t('usage.pricesReset'));
+    };
+
+    const handleSaveBudgets = () => {
+        const next: UsageBudgets = { daily: parseBudget(budgetDraft.daily), monthly: parseBudget(budgetDraft.monthly) };
+        saveBudgets(next);
+        setStatus(t('usage.budgetsSaved'));
+    };
+
+    const handleClear = () => {
+        if (window.confirm(t('usage.clearConfirm'))) {
+            clearUsageRecords();
+            setStatus(t('usage.cleared'));
+        }
+    };
+
+    const renderPeriod = (label: string, summary: UsageSummary | undefined, budget: number | null) => {
+        const spent = summary?.cost ?? 0;
+        return (
+            <div className={`usage-period ${budget !== null && spent > budget ? 'over-budget' : ''}`}>
+                <h3>{label}</h3>
+                <strong>{formatCost(spent)}</strong>
+                <span>
+                    {budget !== null ? t('usage.ofBudget', { budget: formatCost(budget) }) : t('usage.noBudget')}
+                </span>
+                <span>{tCount('usage.requestCount', summary?.requests ?? 0, { images: summary?.images ?? 0 })}</span>
+            </div>
+        );
+    };
+
+    return (
+        <>
+            <header className="header">
+                <h1>{t('usage.title')}</h1>
+                <p>{t('usage.subtitle')}</p>
+            </header>
+
+            {status && <p className="field-description" role="status">{status}</p>}
+
+            <section className="usage-periods" aria-label={t('usage.periods')}>
+                {renderPeriod(t('usage.today'), today, budgets.daily)}
+                {renderPeriod(t('usage.thisMonth'), thisMonth, budgets.monthly)}
+                {renderPeriod(t('usage.allTime'), total, null)}
+            </section>
+
+            {records.length === 0 ? (
+                <p className="placeholder">{t('usage.empty')}</p>
+            ) : (
+                <>
+                    <UsageTable caption={t('usage.byDay', { count: DAYS_SHOWN })} keyLabel={t('usage.day')} rows={byDay} />
+                    <UsageTable caption={t('usage.byTool')} keyLabel={t('usage.tool')} rows={byTool} labelOf={toolId => toolTitles[toolId] ?? toolId} />
+                    <p className="field-description">{t('usage.estimateHint')}</p>
+                </>
+            )}
+
+            <section className="options-container usage-settings">
+                <h3 className="options-header">{t('usage.budgets')}</h3>
+                <p className="field-description">{t('usage.budgetsHint')}</p>
+                <div className="usage-budget-fields">
+                    <div className="form-group">
+                        <label htmlFor="usage-budget-daily">{t('usage.dailyBudget')}</label>
+                        <input
+                            id="usage-budget-daily"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="text-input"
+                            value={budgetDraft.daily}
+                            onChange={(e) => setBudgetDraft(current => ({ ...current, daily: e.target.value }))}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="usage-budget-monthly">{t('usage.monthlyBudget')}</label>
+                        <input
+                            id="usage-budget-monthly"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="text-input"
+                            value={budgetDraft.monthly}
+                            onChange={(e) => setBudgetDraft(current => ({ ...current, monthly: e.target.value }))}
+                        />
+                    </div>
+                </div>
+                <button className="btn btn-secondary" onClick={handleSaveBudgets}>{t('usage.saveBudgets')}</button>
+            </section>
+
+            <section className="options-container usage-settings">
+                <h3 className="options-header">{t('usage.prices')}</h3>
+                <p className="field-description">{t('usage.pricesHint')}</p>
+                <table className="usage-table">
+                    <thead>
+                        <tr>
+                            <th scope="col">{t('usage.model')}</th>
+                            {PRICE_FIELDS.map(field => (
+                                <th scope="col" key={field}>{t(`usage.price.${field}`)}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {Object.entries(priceDraft).map(([model, price]) => (
+                            <tr key={model}>
+                                <th scope="row"><code>{model}</code></th>
+                                {PRICE_FIELDS.map(field => (
+                                    <td key={field}>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.001"
+                                            className="text-input"
+                                            value={price[field]}
+                                            onChange={(e) => handlePriceChange(model, field, e.target.value)}
+                                            aria-label={`${model} ${t(`usage.price.${field}`)}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="controls">
+                    <button className="btn btn-secondary" onClick={handleSavePrices}>{t('usage.savePrices')}</button>
+                    <button className="btn btn-secondary" onClick={handleResetPrices}>{t('usage.resetPrices')}</button>
+                </div>
+            </section>
+
+            <div className="controls">
+                <button className="btn btn-secondary" onClick={handleClear} disabled={records.length === 0}>{t('usage.clear')}</button>
+            </div>
+        </>
+    );
+};
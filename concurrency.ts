@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs `task` over `items` with at most `limit` tasks in flight and settles every one of them,
+// in input order. Once `signal` is aborted, items that have not started yet are rejected instead.
+export const mapWithConcurrency = async <T, R>(
+    items: readonly T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> => {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            if (signal?.aborted) {
+                results[index] = { status: 'rejected', reason: signal.reason };
+                continue;
+            }
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+};
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BlockedReason, FinishReason, HarmProbability, Modality, GenerateContentParameters, GenerateContentResponse, GenerateImagesParameters, GenerateImagesResponse } from "@google/genai";
+import type { GenerationProvider, GeneratedImage, EditImageResult, GenerateImagesResult, TokenUsage } from './generationService.js';
+import type { ResponseDetails } from './responseOutcome.js';
+
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image-preview';
+export const IMAGE_GENERATION_MODEL = 'imagen-4.0-generate-001';
+export const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+// The subset of `ai.models` the provider relies on, so a stand-in client can be dropped in.
+export interface GenAIModelsClient {
+    generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+    generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse>;
+}
+
+export const extractImage = (response: GenerateContentResponse): GeneratedImage | null => {
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    if (!imagePart?.inlineData?.data) {
+        return null;
+    }
+    return {
+        data: imagePart.inlineData.data,
+        mimeType: imagePart.inlineData.mimeType || 'image/png',
+    };
+};
+
+// Finish reasons that mean the answer was withheld by a content filter.
+const BLOCKING_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+];
+
+const responseDetails = (response: GenerateContentResponse): ResponseDetails => {
+    const candidate = response.candidates?.[0];
+    const ratings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? [];
+    const text = candidate?.content?.parts?.filter(p => p.text && !p.thought).map(p => p.text!.trim()).join('\n').trim();
+    return {
+        finishReason: candidate?.finishReason,
+        finishMessage: candidate?.finishMessage,
+        blockReason: response.promptFeedback?.blockReason,
+        blockReasonMessage: response.promptFeedback?.blockReasonMessage,
+        safetyRatings: ratings.map(rating => ({
+            category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+            probability: rating.probability,
+            blocked: Boolean(rating.blocked),
+        })),
+        text: text || undefined,
+    };
+};
+
+// Thinking tokens are billed as output.
+const responseUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | undefined => usageMetadata && {
+    inputTokens: usageMetadata.promptTokenCount,
+    outputTokens: (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0),
+};
+
+// Sorts a response into an outcome: the image if there is one, otherwise the most specific
+// reason the response gives for not having one.
+export const interpretResponse = (response: GenerateContentResponse): EditImageResult => {
+    const image = extractImage(response);
+    const details = responseDetails(response);
+    // The rating that caused the block, or failing that the most likely one.
+    const category = (details.safetyRatings.find(rating => rating.blocked)
+        ?? details.safetyRatings.find(rating => rating.probability === HarmProbability.HIGH || rating.probability === HarmProbability.MEDIUM))?.category ?? null;
+
+    const usage = responseUsage(response);
+
+    if (image) {
+        return { image, outcome: { kind: 'success', details }, usage };
+    }
+    if (details.blockReason && details.blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) {
+        return { image: null, outcome: { kind: 'blocked', source: 'prompt', category, details }, usage };
+    }
+    if (details.finishReason && BLOCKING_FINISH_REASONS.includes(details.finishReason)) {
+        return { image: null, outcome: { kind: 'blocked', source: 'response', category, details }, usage };
+    }
+    if (details.finishReason === FinishReason.RECITATION) {
+        return { image: null, outcome: { kind: 'recitation', details }, usage };
+    }
+    if (details.text) {
+        return { image: null, outcome: { kind: 'text-only', message: details.text, details }, usage };
+    }
+    return { image: null, outcome: { kind: 'empty', details }, usage };
+};
+
+// The images of a generation response. Images withheld by the safety filter only carry a
+// `raiFilteredReason`; the answer is 'blocked' when that left nothing, 'empty' when nothing came back at all.
+export const interpretImagesResponse = (response: GenerateImagesResponse, outputMimeType: string): GenerateImagesResult => {
+    const generated = response.generatedImages ?? [];
+    const images = generated
+        .filter(img => img.image?.imageBytes)
+        .map(img => ({
+            data: img.image!.imageBytes!,
+            mimeType: img.image!.mimeType || outputMimeType,
+        }));
+    const filterReasons = [...new Set(generated.flatMap(img => img.raiFilteredReason ? [img.raiFilteredReason] : []))];
+    const details: ResponseDetails = { safetyRatings: [], filterReason: filterReasons.join('\n') || undefined };
+
+    if (images.length > 0) {
+        return { images, outcome: { kind: 'success', details } };
+    }
+    if (filterReasons.length > 0) {
+        return { images, outcome: { kind: 'blocked', source: 'response', category: null, details } };
+    }
+    return { images, outcome: { kind: 'empty', details } };
+};
+
+// An analysis answer without usable JSON. It carries a 502 like a bad upstream answer, so the
+// request is retried and the proxy passes the message on.
+export class AnalysisResponseError extends Error {
+    readonly status = 502;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'AnalysisResponseError';
+    }
+}
+
+// The JSON an analysis answered with. Anything else, including a blocked answer, is an AnalysisResponseError.
+export const parseAnalysisResponse = (response: GenerateContentResponse): unknown => {
+    const details = responseDetails(response);
+    if (!details.text) {
+        throw new AnalysisResponseError(`The model returned no analysis (finish reason: ${details.finishReason ?? details.blockReason ?? 'unknown'}).`);
+    }
+    try {
+        return JSON.parse(details.text);
+    } catch {
+        throw new AnalysisResponseError('The model returned an analysis that is not valid JSON.');
+    }
+};
+
+// Pass `new GoogleGenAI({ apiKey }).models` on the server, or a stand-in client for offline use.
+export const createGeminiProvider = (models: GenAIModelsClient, name: string = 'gemini'): GenerationProvider => ({
+    name,
+    models: { editImage: IMAGE_EDIT_MODEL, generateImages: IMAGE_GENERATION_MODEL, analyzeImage: ANALYSIS_MODEL },
+
+    async editImage({ parts, history, signal }) {
+        const response = await models.generateContent({
+            model: IMAGE_EDIT_MODEL,
+            contents: history?.length ? [...history, { role: 'user', parts }] : { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: signal,
+            },
+        });
+        return interpretResponse(response);
+    },
+
+    async generateImages({ prompt, numberOfImages, aspectRatio, outputMimeType = 'image/png', signal }) {
+        const response = await models.generateImages({
+            model: IMAGE_GENERATION_MODEL,
+            prompt,
+            config: {
+                numberOfImages,
+                outputMimeType,
+                aspectRatio,
+                abortSignal: signal,
+            },
+        });
+        return interpretImagesResponse(response, outputMimeType);
+    },
+
+    async analyzeImage({ parts, schema, signal }) {
+        const response = await models.generateContent({
+            model: ANALYSIS_MODEL,
+            contents: { parts },
+            config: {
+                responseMimeType: 'application/json',
+                responseJsonSchema: schema,
+                abortSignal: signal,
+            },
+        });
+        return { data: parseAnalysisResponse(response), usage: responseUsage(response) };
+    },
+});
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { runWithRetry, DEFAULT_REQUEST_POLICY, RequestPolicy, RequestCancelledError } from './requestPolicy.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { t } from './i18n.js';
+import { NoImageError, ResponseOutcome } from './responseOutcome.js';
+import { withUsageTracking, budgetWarning, PlannedRun } from './usageStore.js';
+
+// A single part of a request sent to an image model: either an inline image or a text instruction.
+export type RequestPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+// An image returned by a provider, as raw base64 bytes plus the mime type the backend reported.
+export interface GeneratedImage {
+    data: string;
+    mimeType: string;
+}
+
+// Options every request accepts. Aborting `signal` cancels the request, including pending retries.
+export interface RequestOptions {
+    signal?: AbortSignal;
+    // The tool the request is made for, recorded with its usage.
+    toolId?: string;
+    onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+// One earlier message of a multi-turn edit, either what was asked or what the model returned.
+export interface ConversationTurn {
+    role: 'user' | 'model';
+    parts: RequestPart[];
+}
+
+// Edits or composes images: the parts are the input images followed by the instruction text.
+// With `history`, the parts are a follow-up to those earlier turns.
+export interface EditImageRequest extends RequestOptions {
+    parts: RequestPart[];
+    history?: ConversationTurn[];
+}
+
+// Generates brand new images from a text prompt.
+export interface GenerateImagesRequest extends RequestOptions {
+    prompt: string;
+    numberOfImages: number;
+    aspectRatio?: string;
+    outputMimeType?: string;
+}
+
+// Asks a text model about the images in `parts`. The answer is JSON that follows `schema`.
+export interface AnalyzeImageRequest extends RequestOptions {
+    parts: RequestPart[];
+    // A JSON Schema object describing the answer.
+    schema: Record<string, unknown>;
+}
+
+// Billed tokens as reported by the backend.
+export interface TokenUsage {
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+// The image, if any, plus what the response said about it. `outcome` explains a missing image.
+export interface EditImageResult {
+    image: GeneratedImage | null;
+    outcome: ResponseOutcome;
+    usage?: TokenUsage;
+}
+
+// The images that came back, plus what the response said about them. `outcome` explains
+// missing images; the generator may filter some of them and still return the rest.
+export interface GenerateImagesResult {
+    images: GeneratedImage[];
+    outcome: ResponseOutcome;
+}
+
+// The parsed answer to an analysis. Its shape is only as good as the model's adherence to the
+// schema, so callers validate it.
+export interface AnalyzeImageResult {
+    data: unknown;
+    usage?: TokenUsage;
+}
+
+// The models a provider sends each kind of request to, used to price its usage.
+export interface ProviderModels {
+    editImage: string;
+    generateImages: string;
+    analyzeImage: string;
+}
+
+// A backend that can serve every tool. Implementations are registered under a name and chosen at startup.
+export interface GenerationProvider {
+    readonly name: string;
+    readonly models: ProviderModels;
+    // Resolves with a null image when the backend answered but did not include one.
+    editImage(request: EditImageRequest): Promise<EditImageResult>;
+    generateImages(request: GenerateImagesRequest): Promise<GenerateImagesResult>;
+    analyzeImage(request: AnalyzeImageRequest): Promise<AnalyzeImageResult>;
+}
+
+export type GenerationProviderFactory = () => GenerationProvider;
+
+export const DEFAULT_PROVIDER = 'proxy';
+
+const providerFactories = new Map<string, GenerationProviderFactory>();
+let selectedProviderName = DEFAULT_PROVIDER;
+let activeProvider: GenerationProvider | null = null;
+let requestPolicy: RequestPolicy = DEFAULT_REQUEST_POLICY;
+
+export const registerProvider = (name: string, factory: GenerationProviderFactory) => {
+    providerFactories.set(name, factory);
+};
+
+export const selectProvider = (name: string) => {
+    if (!providerFactories.has(name)) {
+        throw new Error(`Unknown generation provider "${name}". Registered providers: ${[...providerFactories.keys()].join(', ')}.`);
+    }
+    selectedProviderName = name;
+    activeProvider = null;
+};
+
+export const setRequestPolicy = (policy: Partial<RequestPolicy>) => {
+    requestPolicy = { ...DEFAULT_REQUEST_POLICY, ...policy };
+    activeProvider = null;
+};
+
+// Adds the per-request timeout and retry with backoff around every call of a provider.
+export const withRequestPolicy = (provider: GenerationProvider, policy: RequestPolicy): GenerationProvider => ({
+    name: provider.name,
+    models: provider.models,
+    editImage: ({ signal, onRetry, ...request }) =>
+        runWithRetry(attemptSignal => provider.editImage({ ...request, signal: attemptSignal }), { signal, onRetry, policy }),
+    generateImages: ({ signal, onRetry, ...request }) =>
+        runWithRetry(attemptSignal => provider.generateImages({ ...request, signal: attemptSignal }), { signal, onRetry, policy }),
+    analyzeImage: ({ signal, onRetry, ...request }) =>
+        runWithRetry(attemptSignal => provider.analyzeImage({ ...request, signal: attemptSignal }), { signal, onRetry, policy }),
+});
+
+// Returns the selected provider, creating it on first use so that a missing API key only
+// surfaces once a tool actually makes a request. Usage is recorded per attempt, retries included.
+export const getGenerationService = (): GenerationProvider => {
+    if (!activeProvider) {
+        const factory = providerFactories.get(selectedProviderName);
+        if (!factory) {
+            throw new Error(`Generation provider "${selectedProviderName}" has not been registered.`);
+        }
+        activeProvider = withRequestPolicy(withUsageTracking(factory()), requestPolicy);
+    }
+    return activeProvider;
+};
+
+// Asks before a run that would go over a usage budget. Returns true when the run may go ahead.
+export const confirmWithinBudget = (run: PlannedRun): boolean => {
+    const warning = budgetWarning(run, getGenerationService().models);
+    return warning === null || window.confirm(warning);
+};
+
+// Single-image tools can ask for up to MAX_VARIANTS candidates per run, requested a few at a time.
+export const MAX_VARIANTS = 4;
+export const VARIANT_CONCURRENCY = 2;
+
+// The image of a result, or a NoImageError explaining why there is none.
+export const requireImage = ({ image, outcome }: EditImageResult): GeneratedImage => {
+    if (!image) {
+        throw new NoImageError(outcome);
+    }
+    return image;
+};
+
+// Runs the same edit `count` times and returns every image that came back. Rejects only when
+// the run was cancelled, or when no variant produced an image: with the first failure if one
+// failed, otherwise with a NoImageError for the first answer.
+export const editImageVariants = async (request: EditImageRequest, count: number): Promise<GeneratedImage[]> => {
+    const service = getGenerationService();
+    const results = await mapWithConcurrency(
+        Array.from({ length: count }),
+        VARIANT_CONCURRENCY,
+        () => service.editImage(request),
+        request.signal
+    );
+    if (request.signal?.aborted) {
+        throw new RequestCancelledError();
+    }
+    const answers = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const images = answers.flatMap(answer => answer.image ? [answer.image] : []);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (images.length === 0) {
+        throw failure ? failure.reason : new NoImageError(answers[0].outcome);
+    }
+    return images;
+};
+
+export const imagePart = (data: string, mimeType: string): RequestPart => ({ inlineData: { data, mimeType } });
+
+export const toDataUrl = (image: GeneratedImage): string => `data:${image.mimeType};base64,${image.data}`;
+
+export const missingVariantsMessage = (received: number, requested: number): string =>
+    t('errors.missingVariants', { missing: requested - received, requested });
+
+export const generationErrorMessage = (err: unknown): string =>
+    t('errors.generation', { message: err instanceof Error ? err.message : String(err) });
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GeneratedImage } from './generationService.js';
+import type { ToolSettings } from './toolSettings.js';
+import { PromptTemplateRef, templateRef } from './promptTemplates.js';
+import { addSessionResults } from './sessionResults.js';
+
+// One finished run of a tool, persisted so it survives navigation and reloads.
+export interface HistoryRecord {
+    id: string;
+    toolId: string;
+    createdAt: number;
+    // The tool's non-image settings, used to restore the form when the run is reopened.
+    settings: ToolSettings;
+    prompt: string;
+    // The prompt templates and versions behind `prompt`. Missing on records saved before templates were versioned.
+    templates?: PromptTemplateRef[];
+    // A small data URL of the primary input image, or null for text-only tools.
+    inputThumbnail: string | null;
+    outputs: GeneratedImage[];
+}
+
+export interface RecordGenerationParams {
+    toolId: string;
+    settings: ToolSettings;
+    prompt: string;
+    templates: PromptTemplateRef[];
+    input?: { data: string; mimeType: string } | null;
+    outputs: GeneratedImage[];
+}
+
+const DB_NAME = 'ai-tool-collection';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const THUMBNAIL_SIZE = 256;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+                    store.createIndex('toolId', 'toolId');
+                    store.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openDatabase().then(db => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(HISTORY_STORE, mode);
+        const request = operation(transaction.objectStore(HISTORY_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+
+export const saveHistoryRecord = (record: HistoryRecord): Promise<IDBValidKey> =>
+    runRequest('readwrite', store => store.put(record));
+
+// Newest first, optionally limited to a single tool.
+export const listHistoryRecords = async (toolId?: string): Promise<HistoryRecord[]> => {
+    const records = await runRequest<HistoryRecord[]>('readonly', store =>
+        toolId ? store.index('toolId').getAll(toolId) : store.getAll()
+    );
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getHistoryRecord = (id: string): Promise<HistoryRecord | undefined> =>
+    runRequest<HistoryRecord | undefined>('readonly', store => store.get(id));
+
+export const deleteHistoryRecord = (id: string): Promise<undefined> =>
+    runRequest('readwrite', store => store.delete(id));
+
+// Scales an image down so its longest side is at most `maxSize`, returning a JPEG data URL.
+export const createThumbnail = (data: string, mimeType: string, maxSize: number = THUMBNAIL_SIZE): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+            const ctx = canvas.getContext('2d')!;
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        img.onerror = () => reject(new Error('Could not decode image for thumbnail.'));
+        img.src = `data:${mimeType};base64,${data}`;
+    });
+
+// Saves a finished run. History is a convenience, so failures are logged rather than surfaced to the user.
+// The outputs also become available as inputs to other tools for the rest of the session.
+export const recordGeneration = async ({ toolId, settings, prompt, templates, input, outputs }: RecordGenerationParams): Promise<HistoryRecord | null> => {
+    addSessionResults(toolId, outputs);
+    try {
+        const record: HistoryRecord = {
+            id: crypto.randomUUID(),
+            toolId,
+            createdAt: Date.now(),
+            settings,
+            prompt,
+            templates: templates.map(templateRef),
+            inputThumbnail: input ? await createThumbnail(input.data, input.mimeType) : null,
+            outputs,
+        };
+        await saveHistoryRecord(record);
+        return record;
+    } catch (err) {
+        console.error('Failed to save generation history', err);
+        return null;
+    }
+};
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { EN_MESSAGES } from './messages.en.js';
+import { ZH_CN_MESSAGES, ZH_CN_OPTION_LABELS } from './messages.zh-CN.js';
+
+export type Locale = 'en' | 'zh-CN';
+export const LOCALES: Locale[] = ['en', 'zh-CN'];
+
+// Shown in the language switcher, each in its own language.
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    'zh-CN': '简体中文',
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+export type MessageParams = Record<string, string | number>;
+
+// Messages whose wording depends on a number come in `<key>.one` and `<key>.other` pairs.
+export type CountedMessageKey = { [K in MessageKey]: K extends `${infer Base}.one` ? Base : never }[MessageKey];
+
+// The UI text of one locale. `options` maps the English values that tools put into prompts, such
+// as beauty levels or art styles, to the labels shown for them, grouped by setting. A value
+// without a label is shown as it is, so translating the UI never changes what the model is asked.
+export interface MessageCatalog {
+    messages: Record<MessageKey, string>;
+    options: Record<string, Record<string, string>>;
+}
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+    en: { messages: EN_MESSAGES, options: {} },
+    'zh-CN': { messages: ZH_CN_MESSAGES, options: ZH_CN_OPTION_LABELS },
+};
+
+const STORAGE_KEY = 'ai-tool-collection.locale';
+
+// The first of the browser's preferred languages that has a catalog. Every Chinese variant gets
+// the Simplified Chinese catalog; anything else falls back to English.
+export const matchLocale = (languages: readonly string[]): Locale => {
+    for (const language of languages) {
+        const tag = language.toLowerCase();
+        if (tag.startsWith('zh')) {
+            return 'zh-CN';
+        }
+        if (tag.startsWith('en')) {
+            return 'en';
+        }
+    }
+    return 'en';
+};
+
+// A choice made with the switcher wins over the browser's languages. Also runs on the API server,
+// where neither storage nor navigator exist.
+const detectLocale = (): Locale => {
+    try {
+        const stored = globalThis.localStorage?.getItem(STORAGE_KEY);
+        if (LOCALES.includes(stored as Locale)) {
+            return stored as Locale;
+        }
+    } catch {
+        // Storage can be disabled; detection still works without it.
+    }
+    const languages = globalThis.navigator?.languages ?? [globalThis.navigator?.language ?? 'en'];
+    return matchLocale(languages);
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+const applyDocumentLanguage = () => {
+    if (typeof document !== 'undefined') {
+        document.documentElement.lang = currentLocale;
+    }
+};
+applyDocumentLanguage();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+    currentLocale = locale;
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // Not remembered across visits, but still applied.
+    }
+    applyDocumentLanguage();
+    listeners.forEach(listener => listener());
+};
+
+const interpolate = (template: string, params?: MessageParams): string =>
+    params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+
+// The message in the current locale, with `{name}` placeholders filled from `params`.
+export const t = (key: MessageKey, params?: MessageParams): string =>
+    interpolate(CATALOGS[currentLocale].messages[key] ?? EN_MESSAGES[key] ?? key, params);
+
+// Picks `<key>.one` or `<key>.other` for `count`, which is also available as `{count}`.
+export const tCount = (key: CountedMessageKey, count: number, params?: MessageParams): string =>
+    t(`${key}.${count === 1 ? 'one' : 'other'}` as MessageKey, { count, ...params });
+
+// For keys built at runtime, such as a tool's title, where the catalog may not have an entry.
+export const tOr = (key: string, fallback: string, params?: MessageParams): string =>
+    key in EN_MESSAGES ? t(key as MessageKey, params) : interpolate(fallback, params);
+
+// The label shown for a setting's value; `value` itself is what goes into the prompt.
+export const optionLabel = (group: string, value: string): string =>
+    CATALOGS[currentLocale].options[group]?.[value] ?? value;
+
+// Re-renders the component when the locale changes. The returned helpers read the current locale,
+// so they can also be called from event handlers and plain functions.
+export const useI18n = () => {
+    const [locale, setLocaleState] = useState<Locale>(currentLocale);
+
+    useEffect(() => {
+        const handleChange = () => setLocaleState(currentLocale);
+        listeners.add(handleChange);
+        handleChange();
+        return () => {
+            listeners.delete(handleChange);
+        };
+    }, []);
+
+    return { locale, t, tCount, optionLabel, setLocale };
+};
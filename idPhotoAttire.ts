@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PromptTemplate } from './promptTemplates.js';
+import {
+    AttirePromptVariables,
+    SUIT_ATTIRE_TEMPLATE,
+    BLAZER_ATTIRE_TEMPLATE,
+    HIGH_NECK_ATTIRE_TEMPLATE,
+    UNIFORM_ATTIRE_TEMPLATE,
+    HEAD_COVERING_ATTIRE_TEMPLATE,
+    ORIGINAL_ATTIRE_TEMPLATE,
+} from './prompts/idPhotoAttire.js';
+
+// The fields of every attire, kept flat so they round-trip through the URL with the other settings.
+export type AttireSettings = AttirePromptVariables;
+
+export const DEFAULT_ATTIRE_SETTINGS: AttireSettings = {
+    suitColor: 'black',
+    shirtColor: 'white',
+    hasTie: true,
+    tieColor: 'deep blue',
+    blazerColor: 'navy',
+    blouseColor: 'white',
+    topColor: 'black',
+    uniform: 'navy blue school uniform blazer with a white shirt',
+    garmentColor: 'dark',
+};
+
+export interface AttireField {
+    key: keyof AttireSettings;
+    kind: 'text' | 'toggle';
+    // Only shown, and only used by the prompt, while this toggle is on.
+    shownWhen?: keyof AttireSettings;
+}
+
+// A refinement offered for the result. The text is in English and translated through the
+// `refinementSuggestion` option labels.
+export interface AttireSuggestion {
+    text: string;
+    // Only offered while this toggle is on.
+    shownWhen?: keyof AttireSettings;
+}
+
+// One way of dressing the person, with the fields it is configured by, its prompt fragment and
+// the refinements that make sense for it.
+export interface AttireOption {
+    id: string;
+    fields: AttireField[];
+    template: PromptTemplate<AttireSettings>;
+    suggestions: AttireSuggestion[];
+}
+
+export const ID_PHOTO_ATTIRE: AttireOption[] = [
+    {
+        id: 'suit',
+        fields: [
+            { key: 'suitColor', kind: 'text' },
+            { key: 'shirtColor', kind: 'text' },
+            { key: 'hasTie', kind: 'toggle' },
+            { key: 'tieColor', kind: 'text', shownWhen: 'hasTie' },
+        ],
+        template: SUIT_ATTIRE_TEMPLATE,
+        suggestions: [{ text: 'Make the tie a bit darker', shownWhen: 'hasTie' }, { text: 'Straighten the collar' }],
+    },
+    {
+        id: 'blazer-blouse',
+        fields: [{ key: 'blazerColor', kind: 'text' }, { key: 'blouseColor', kind: 'text' }],
+        template: BLAZER_ATTIRE_TEMPLATE,
+        suggestions: [{ text: 'Straighten the lapels' }, { text: 'Make the blazer a bit darker' }],
+    },
+    {
+        id: 'high-neck',
+        fields: [{ key: 'topColor', kind: 'text' }],
+        template: HIGH_NECK_ATTIRE_TEMPLATE,
+        suggestions: [{ text: 'Smooth the collar around the neck' }],
+    },
+    {
+        id: 'uniform',
+        fields: [{ key: 'uniform', kind: 'text' }],
+        template: UNIFORM_ATTIRE_TEMPLATE,
+        suggestions: [{ text: 'Straighten the insignia' }],
+    },
+    {
+        id: 'head-covering',
+        fields: [{ key: 'garmentColor', kind: 'text' }],
+        template: HEAD_COVERING_ATTIRE_TEMPLATE,
+        suggestions: [{ text: 'Show a little more of the forehead' }],
+    },
+    { id: 'original', fields: [], template: ORIGINAL_ATTIRE_TEMPLATE, suggestions: [] },
+];
+
+export const DEFAULT_ATTIRE = 'suit';
+
+export const findAttire = (id: string): AttireOption =>
+    ID_PHOTO_ATTIRE.find(option => option.id === id) ?? ID_PHOTO_ATTIRE.find(option => option.id === DEFAULT_ATTIRE)!;
+
+// The fields of `option` that apply with these settings, e.g. no tie colour without a tie.
+export const visibleAttireFields = (option: AttireOption, settings: AttireSettings): AttireField[] =>
+    option.fields.filter(field => !field.shownWhen || settings[field.shownWhen]);
+
+// The refinements of `option` that apply with these settings, e.g. no tie without a tie.
+export const attireSuggestions = (option: AttireOption, settings: AttireSettings): string[] =>
+    option.suggestions.filter(suggestion => !suggestion.shownWhen || settings[suggestion.shownWhen]).map(suggestion => suggestion.text);
+
+// Only the values the chosen attire uses, for batch manifests.
+export const attireValues = (option: AttireOption, settings: AttireSettings): Record<string, string | boolean> =>
+    Object.fromEntries(visibleAttireFields(option, settings).map(field => [field.key, settings[field.key]]));
+
+// The attire fields of a larger settings object, e.g. a preset.
+export const pickAttireSettings = (settings: AttireSettings): AttireSettings =>
+    Object.fromEntries(Object.keys(DEFAULT_ATTIRE_SETTINGS).map(key => [key, settings[key as keyof AttireSettings]])) as AttireSettings;
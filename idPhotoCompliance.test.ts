@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    FaceAnalysis, PixelData, ComplianceCheck, analyzeFace, parseFaceAnalysis, checkCompliance, measureBackground, backgroundRegions, faceInCrop,
+} from './idPhotoCompliance.js';
+import { AnalysisResponseError, ANALYSIS_MODEL } from './geminiProvider.js';
+import { findIdPhotoSpec } from './idPhotoSpecs.js';
+import { installTestClient, textResponse, generatedImage } from './testSupport.js';
+
+type Color = [number, number, number];
+
+const WIDTH = 100;
+const HEIGHT = 120;
+const BACKGROUND: Color = [240, 240, 240];
+const SKIN: Color = [200, 160, 140];
+
+// A centered head covering 74% of the height, eyes 60% of the way up.
+const FACE: FaceAnalysis = { faceFound: true, crown: 0.12, chin: 0.86, left: 0.3, right: 0.7, eyeLine: 0.4, glasses: false, glare: false };
+
+const photo = (colorAt: (x: number, y: number) => Color | null = () => null): PixelData => {
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const inHead = x >= FACE.left * WIDTH && x < FACE.right * WIDTH && y >= FACE.crown * HEIGHT;
+            data.set([...(colorAt(x, y) ?? (inHead ? SKIN : BACKGROUND)), 255], (y * WIDTH + x) * 4);
+        }
+    }
+    return { width: WIDTH, height: HEIGHT, data };
+};
+
+const schengen = findIdPhotoSpec('schengen-35x45');
+
+const statuses = (checks: ComplianceCheck[]) => Object.fromEntries(checks.map(check => [check.id, check.status]));
+
+describe('parseFaceAnalysis', () => {
+    it('clamps positions into the photo', () => {
+        expect(parseFaceAnalysis({ ...FACE, crown: -0.05, right: 1.2 })).toMatchObject({ crown: 0, right: 1 });
+    });
+
+    it('rejects an answer that does not follow the schema', () => {
+        expect(() => parseFaceAnalysis({ ...FACE, chin: '0.8' })).toThrow(AnalysisResponseError);
+        expect(() => parseFaceAnalysis(null)).toThrow(/faceFound/);
+    });
+});
+
+describe('analyzeFace', () => {
+    it('asks the analysis model for JSON in the face schema', async () => {
+        const client = installTestClient();
+        client.generateContent.mockResolvedValue(textResponse(JSON.stringify(FACE)));
+
+        await expect(analyzeFace(generatedImage('photo'))).resolves.toEqual(FACE);
+        const [params] = client.generateContent.mock.calls[0];
+        expect(params.model).toBe(ANALYSIS_MODEL);
+        expect(params.config).toMatchObject({ responseMimeType: 'application/json', responseJsonSchema: { required: expect.arrayContaining(['crown', 'chin']) } });
+    });
+
+    it('fails on an answer that is not JSON', async () => {
+        const client = installTestClient();
+        client.generateContent.mockResolvedValue(textResponse('The face is centered.'));
+        await expect(analyzeFace(generatedImage('photo'))).rejects.toThrow(AnalysisResponseError);
+    });
+});
+
+describe('faceInCrop', () => {
+    it('places the face of the whole photo in a crop of it', () => {
+        const face = faceInCrop(FACE, { x: 0.25, y: 0, width: 0.5, height: 0.5 });
+        expect(face.glasses).toBe(false);
+        expect([face.left, face.right, face.eyeLine, face.crown]).toEqual([0.1, 0.9, 0.8, 0.24].map(value => expect.closeTo(value)));
+        // A chin below the crop stays outside it, so the face check fails.
+        expect(face.chin).toBeCloseTo(1.72);
+    });
+});
+
+describe('measureBackground', () => {
+    it('keeps clear of the head', () => {
+        const background = measureBackground(photo(), backgroundRegions(FACE))!;
+        expect(background.color).toEqual(BACKGROUND);
+        expect(background.deviation).toBe(0);
+        expect(background.shadowDepth).toBe(0);
+    });
+});
+
+describe('checkCompliance', () => {
+    it('passes a well framed photo on the spec background', () => {
+        const checks = checkCompliance({ pixels: photo(), face: FACE, spec: schengen, background: schengen.background });
+        expect(checks.every(check => check.status === 'pass')).toBe(true);
+        expect(checks.find(check => check.id === 'headSize')).toMatchObject({ measured: '74%', expected: '71%–80%' });
+    });
+
+    it('fails a small, off-center head with the measured values', () => {
+        const face = { ...FACE, crown: 0.3, left: 0.4, right: 0.8 };
+        const checks = checkCompliance({ pixels: photo(), face, spec: schengen, background: schengen.background });
+        expect(statuses(checks)).toMatchObject({ headSize: 'fail', centering: 'fail', eyeLine: 'pass' });
+        expect(checks.find(check => check.id === 'centering')!.measured).toBe('10% right of center');
+    });
+
+    it('finds a shadow beside the head', () => {
+        const pixels = photo((x, y) => x >= 0.75 * WIDTH && y < 0.4 * HEIGHT && y >= 0.1 * HEIGHT ? [190, 190, 190] : null);
+        const checks = checkCompliance({ pixels, face: FACE, spec: schengen, background: schengen.background });
+        expect(statuses(checks)).toMatchObject({ shadows: 'fail', backgroundUniformity: 'fail', backgroundColor: 'pass' });
+    });
+
+    it('compares the background with the colour of the spec', () => {
+        const pixels = photo((x, y) => x < FACE.left * WIDTH || x >= FACE.right * WIDTH || y < FACE.crown * HEIGHT ? [70, 130, 200] : null);
+        const checks = checkCompliance({ pixels, face: FACE, spec: schengen, background: schengen.background });
+        expect(statuses(checks)).toMatchObject({ backgroundColor: 'fail', backgroundUniformity: 'pass' });
+        expect(checks.find(check => check.id === 'backgroundColor')!.measured).toMatch(/^#4682C8/);
+    });
+
+    it('compares the background with the chosen colour instead', () => {
+        const pixels = photo((x, y) => x < FACE.left * WIDTH || x >= FACE.right * WIDTH || y < FACE.crown * HEIGHT ? [67, 142, 219] : null);
+        const checks = checkCompliance({ pixels, face: FACE, spec: schengen, background: '#438edb' });
+        expect(checks.find(check => check.id === 'backgroundColor')).toMatchObject({ status: 'pass', expected: '#438EDB (Δ ≤ 40)' });
+    });
+
+    it('skips the background checks for an uploaded background', () => {
+        const checks = checkCompliance({ pixels: photo(), face: FACE, spec: schengen, background: null });
+        expect(statuses(checks)).toMatchObject({ backgroundUniformity: 'skipped', backgroundColor: 'skipped', shadows: 'skipped' });
+    });
+
+    it('flags glare on glasses', () => {
+        const pixels = photo((x, y) => x >= 40 && x < 50 && y >= 45 && y < 50 ? [255, 255, 255] : null);
+        const withGlasses = checkCompliance({ pixels, face: { ...FACE, glasses: true }, spec: schengen, background: schengen.background });
+        expect(statuses(withGlasses).glare).toBe('fail');
+        const withoutGlasses = checkCompliance({ pixels, face: FACE, spec: schengen, background: schengen.background });
+        expect(statuses(withoutGlasses).glare).toBe('pass');
+    });
+
+    it('fails the face check and skips what depends on it when no face is found', () => {
+        const checks = checkCompliance({ pixels: photo(), face: { ...FACE, faceFound: false }, spec: schengen, background: schengen.background });
+        expect(statuses(checks)).toMatchObject({ faceBox: 'fail', headSize: 'skipped', eyeLine: 'skipped', centering: 'skipped', glare: 'skipped' });
+    });
+});
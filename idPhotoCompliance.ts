@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getGenerationService, imagePart, GeneratedImage, RequestOptions } from './generationService.js';
+import { AnalysisResponseError } from './geminiProvider.js';
+import { base64ToBytes, CropRect } from './imagePreprocessing.js';
+import { framingCrop, IdPhotoSpec, SpecFraming } from './idPhotoSpecs.js';
+import { buildFaceAnalysisPrompt } from './prompts/idPhotoCompliance.js';
+import { t } from './i18n.js';
+
+export type ComplianceCheckId =
+    | 'faceBox'
+    | 'headSize'
+    | 'eyeLine'
+    | 'centering'
+    | 'backgroundUniformity'
+    | 'backgroundColor'
+    | 'shadows'
+    | 'glare';
+
+// 'skipped' when a check cannot apply, e.g. the colour of an uploaded background.
+export type ComplianceStatus = 'pass' | 'fail' | 'skipped';
+
+export interface ComplianceCheck {
+    id: ComplianceCheckId;
+    status: ComplianceStatus;
+    // Display text for what was measured and what the spec allows.
+    measured: string;
+    expected: string;
+}
+
+// What the analysis model found, as fractions of the photo's width and height from the top left.
+export interface FaceAnalysis {
+    faceFound: boolean;
+    crown: number;
+    chin: number;
+    left: number;
+    right: number;
+    eyeLine: number;
+    glasses: boolean;
+    glare: boolean;
+}
+
+const fraction = { type: 'number', minimum: 0, maximum: 1 };
+
+export const FACE_ANALYSIS_SCHEMA: Record<string, unknown> = {
+    type: 'object',
+    properties: {
+        faceFound: { type: 'boolean' },
+        crown: fraction,
+        chin: fraction,
+        left: fraction,
+        right: fraction,
+        eyeLine: fraction,
+        glasses: { type: 'boolean' },
+        glare: { type: 'boolean' },
+    },
+    required: ['faceFound', 'crown', 'chin', 'left', 'right', 'eyeLine', 'glasses', 'glare'],
+};
+
+// Raw RGBA pixels, as in ImageData.
+export interface PixelData {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+// Limits the checks allow. Colour distances are in RGB units (0-441), deviations in luminance units (0-255).
+export const COMPLIANCE_LIMITS = {
+    backgroundDeviation: 8,
+    backgroundDistance: 40,
+    shadowDepth: 0.08,
+    centerOffset: 0.05,
+    glareShare: 0.01,
+    // How close to an edge the head may come before it counts as cut off.
+    edgeMargin: 0.01,
+};
+
+// Background samples stay this far (as a fraction of the photo) from the head the model reported.
+const HEAD_CLEARANCE = 0.04;
+// Shadows are found by comparing the mean brightness of a grid of cells across the background.
+const SHADOW_GRID = 8;
+
+// Validates the model's answer against FACE_ANALYSIS_SCHEMA, clamping fractions into 0-1.
+export const parseFaceAnalysis = (data: unknown): FaceAnalysis => {
+    const value = data as Record<string, unknown> | null;
+    const flag = (key: string) => {
+        if (typeof value?.[key] !== 'boolean') {
+            throw new AnalysisResponseError(`The face analysis has no "${key}" flag.`);
+        }
+        return value[key] as boolean;
+    };
+    const position = (key: string) => {
+        if (typeof value?.[key] !== 'number' || !Number.isFinite(value[key])) {
+            throw new AnalysisResponseError(`The face analysis has no "${key}" position.`);
+        }
+        return Math.min(1, Math.max(0, value[key] as number));
+    };
+    return {
+        faceFound: flag('faceFound'),
+        crown: position('crown'),
+        chin: position('chin'),
+        left: position('left'),
+        right: position('right'),
+        eyeLine: position('eyeLine'),
+        glasses: flag('glasses'),
+        glare: flag('glare'),
+    };
+};
+
+// Asks the analysis model where the face is and whether glasses reflect light.
+export const analyzeFace = async (image: GeneratedImage, options: RequestOptions = {}): Promise<FaceAnalysis> => {
+    const { data } = await getGenerationService().analyzeImage({
+        ...options,
+        parts: [imagePart(image.data, image.mimeType), { text: buildFaceAnalysisPrompt().text }],
+        schema: FACE_ANALYSIS_SCHEMA,
+    });
+    return parseFaceAnalysis(data);
+};
+
+export const readPixels = async (image: GeneratedImage): Promise<PixelData> => {
+    const bitmap = await createImageBitmap(new Blob([base64ToBytes(image.data)] as BlobPart[], { type: image.mimeType }));
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        ctx.drawImage(bitmap, 0, 0);
+        const { width, height, data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+        return { width, height, data };
+    } finally {
+        bitmap.close();
+    }
+};
+
+const luminance = (data: Uint8ClampedArray, index: number) =>
+    0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+// Calls `visit` with the offset of every pixel inside any of the regions, each pixel once.
+const forEachPixel = (pixels: PixelData, regions: CropRect[], visit: (index: number, x: number, y: number) => void) => {
+    const seen = new Uint8Array(pixels.width * pixels.height);
+    for (const region of regions) {
+        const x0 = Math.max(0, Math.round(region.x * pixels.width));
+        const y0 = Math.max(0, Math.round(region.y * pixels.height));
+        const x1 = Math.min(pixels.width, Math.round((region.x + region.width) * pixels.width));
+        const y1 = Math.min(pixels.height, Math.round((region.y + region.height) * pixels.height));
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) {
+                const pixel = y * pixels.width + x;
+                if (!seen[pixel]) {
+                    seen[pixel] = 1;
+                    visit(pixel * 4, x, y);
+                }
+            }
+        }
+    }
+};
+
+// The parts of the photo taken to be background: the band above the head and the strips beside it
+// down to the eyes. Without a face, the top and the upper sides of the photo.
+export const backgroundRegions = (face: FaceAnalysis | null): CropRect[] => {
+    if (!face?.faceFound) {
+        return [
+            { x: 0, y: 0, width: 1, height: 0.1 },
+            { x: 0, y: 0.1, width: 0.12, height: 0.4 },
+            { x: 0.88, y: 0.1, width: 0.12, height: 0.4 },
+        ];
+    }
+    const top = Math.max(0, face.crown - HEAD_CLEARANCE);
+    const sideHeight = Math.max(0, face.eyeLine - top);
+    const right = Math.min(1, face.right + HEAD_CLEARANCE);
+    return [
+        { x: 0, y: 0, width: 1, height: top },
+        { x: 0, y: top, width: Math.max(0, face.left - HEAD_CLEARANCE), height: sideHeight },
+        { x: right, y: top, width: 1 - right, height: sideHeight },
+    ];
+};
+
+export interface BackgroundMeasurement {
+    // Mean colour as [r, g, b].
+    color: [number, number, number];
+    // Standard deviation of the brightness.
+    deviation: number;
+    // How far the darkest cell falls below the median cell, as a fraction of the median.
+    shadowDepth: number;
+}
+
+// Null when the regions hold too little of the photo to judge, e.g. a head that fills the frame.
+export const measureBackground = (pixels: PixelData, regions: CropRect[]): BackgroundMeasurement | null => {
+    const cellSize = Math.max(1, Math.ceil(pixels.width / SHADOW_GRID));
+    const cells = new Map<number, { sum: number; count: number }>();
+    const sums = [0, 0, 0];
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+    forEachPixel(pixels, regions, (index, x, y) => {
+        const value = luminance(pixels.data, index);
+        sums[0] += pixels.data[index];
+        sums[1] += pixels.data[index + 1];
+        sums[2] += pixels.data[index + 2];
+        sum += value;
+        sumOfSquares += value * value;
+        count++;
+        const key = Math.floor(y / cellSize) * SHADOW_GRID + Math.floor(x / cellSize);
+        const cell = cells.get(key) ?? { sum: 0, count: 0 };
+        cell.sum += value;
+        cell.count++;
+        cells.set(key, cell);
+    });
+    if (count < pixels.width * pixels.height * 0.02) {
+        return null;
+    }
+
+    const mean = sum / count;
+    // Cells only partly inside the regions are too small a sample to compare.
+    const cellMeans = [...cells.values()]
+        .filter(cell => cell.count >= cellSize * cellSize / 4)
+        .map(cell => cell.sum / cell.count)
+        .sort((a, b) => a - b);
+    const median = cellMeans[Math.floor(cellMeans.length / 2)] ?? mean;
+    return {
+        color: [sums[0] / count, sums[1] / count, sums[2] / count],
+        deviation: Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean)),
+        shadowDepth: median > 0 && cellMeans.length > 0 ? (median - cellMeans[0]) / median : 0,
+    };
+};
+
+// The share of near-white, colourless pixels in the band around the eyes, where glare on glasses shows.
+export const measureGlare = (pixels: PixelData, face: FaceAnalysis): number => {
+    const band = (face.chin - face.crown) * 0.08;
+    let bright = 0;
+    let count = 0;
+    forEachPixel(pixels, [{ x: face.left, y: face.eyeLine - band, width: face.right - face.left, height: 2 * band }], index => {
+        const [r, g, b] = [pixels.data[index], pixels.data[index + 1], pixels.data[index + 2]];
+        if (luminance(pixels.data, index) >= 240 && Math.max(r, g, b) - Math.min(r, g, b) <= 25) {
+            bright++;
+        }
+        count++;
+    });
+    return count > 0 ? bright / count : 0;
+};
+
+export const parseHexColor = (hex: string): [number, number, number] =>
+    [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+
+const toHex = (color: number[]) => `#${color.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+export const colorDistance = (a: number[], b: number[]): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const range = ({ min, max }: { min: number; max: number }) => `${percent(min)}–${percent(max)}`;
+const NOT_MEASURED = '—';
+
+export interface ComplianceInput {
+    pixels: PixelData;
+    face: FaceAnalysis;
+    spec: IdPhotoSpec;
+    // The hex colour the plain background should have, or null for an uploaded background, whose colour
+    // and evenness are not checked.
+    background: string | null;
+}
+
+// Every check, in the order they are reported. Geometry comes from the model's answer, everything
+// about the background and the glare from the pixels.
+export const checkCompliance = ({ pixels, face, spec, background: expected }: ComplianceInput): ComplianceCheck[] => {
+    const { edgeMargin } = COMPLIANCE_LIMITS;
+    const check = (id: ComplianceCheckId, passed: boolean | null, measured: string, expected: string): ComplianceCheck =>
+        ({ id, status: passed === null ? 'skipped' : passed ? 'pass' : 'fail', measured, expected });
+    const checks: ComplianceCheck[] = [];
+
+    if (face.faceFound) {
+        const headHeight = face.chin - face.crown;
+        const eyeHeight = 1 - face.eyeLine;
+        const offset = (face.left + face.right) / 2 - 0.5;
+        const inside = face.crown >= edgeMargin && face.chin <= 1 - edgeMargin && face.left >= edgeMargin && face.right <= 1 - edgeMargin;
+        checks.push(
+            check('faceBox', inside, t('idPhoto.compliance.faceBoxMeasured', {
+                left: percent(face.left), right: percent(face.right), crown: percent(face.crown), chin: percent(face.chin),
+            }), t('idPhoto.compliance.faceBoxExpected')),
+            check('headSize', headHeight >= spec.headHeight.min && headHeight <= spec.headHeight.max, percent(headHeight), range(spec.headHeight)),
+            check('eyeLine', eyeHeight >= spec.eyeLine.min && eyeHeight <= spec.eyeLine.max, percent(eyeHeight), range(spec.eyeLine)),
+            check('centering', Math.abs(offset) <= COMPLIANCE_LIMITS.centerOffset,
+                offset < 0 ? t('idPhoto.compliance.offsetLeft', { offset: percent(-offset) }) : t('idPhoto.compliance.offsetRight', { offset: percent(offset) }),
+                t('idPhoto.compliance.atMost', { value: percent(COMPLIANCE_LIMITS.centerOffset) })),
+        );
+    } else {
+        checks.push(
+            check('faceBox', false, t('idPhoto.compliance.noFace'), t('idPhoto.compliance.faceBoxExpected')),
+            check('headSize', null, NOT_MEASURED, range(spec.headHeight)),
+            check('eyeLine', null, NOT_MEASURED, range(spec.eyeLine)),
+            check('centering', null, NOT_MEASURED, t('idPhoto.compliance.atMost', { value: percent(COMPLIANCE_LIMITS.centerOffset) })),
+        );
+    }
+
+    const customBackground = expected === null;
+    const expectedHex = (expected ?? spec.background).toUpperCase();
+    const background = customBackground ? null : measureBackground(pixels, backgroundRegions(face));
+    const backgroundMissing = customBackground ? t('idPhoto.compliance.customBackground') : t('idPhoto.compliance.noBackground');
+    if (background) {
+        const distance = colorDistance(background.color, parseHexColor(expectedHex));
+        checks.push(
+            check('backgroundUniformity', background.deviation <= COMPLIANCE_LIMITS.backgroundDeviation,
+                `σ ${background.deviation.toFixed(1)}`, `σ ≤ ${COMPLIANCE_LIMITS.backgroundDeviation}`),
+            check('backgroundColor', distance <= COMPLIANCE_LIMITS.backgroundDistance,
+                `${toHex(background.color)} (Δ ${Math.round(distance)})`, `${expectedHex} (Δ ≤ ${COMPLIANCE_LIMITS.backgroundDistance})`),
+            check('shadows', background.shadowDepth <= COMPLIANCE_LIMITS.shadowDepth,
+                t('idPhoto.compliance.shadowMeasured', { depth: percent(background.shadowDepth) }),
+                t('idPhoto.compliance.atMost', { value: percent(COMPLIANCE_LIMITS.shadowDepth) })),
+        );
+    } else {
+        checks.push(
+            check('backgroundUniformity', customBackground ? null : false, backgroundMissing, `σ ≤ ${COMPLIANCE_LIMITS.backgroundDeviation}`),
+            check('backgroundColor', customBackground ? null : false, backgroundMissing, expectedHex),
+            check('shadows', customBackground ? null : false, backgroundMissing, t('idPhoto.compliance.atMost', { value: percent(COMPLIANCE_LIMITS.shadowDepth) })),
+        );
+    }
+
+    const glareExpected = t('idPhoto.compliance.glareExpected');
+    if (!face.faceFound) {
+        checks.push(check('glare', null, NOT_MEASURED, glareExpected));
+    } else if (!face.glasses) {
+        checks.push(check('glare', true, t('idPhoto.compliance.noGlasses'), glareExpected));
+    } else {
+        const share = measureGlare(pixels, face);
+        checks.push(check('glare', !face.glare && share <= COMPLIANCE_LIMITS.glareShare,
+            t(face.glare ? 'idPhoto.compliance.glareReported' : 'idPhoto.compliance.glareMeasured', { share: `${(share * 100).toFixed(1)}%` }), glareExpected));
+    }
+    return checks;
+};
+
+// The face in the uncropped generated photo, with that photo's size so the face can be placed in
+// any crop of it. Analysing once per photo keeps framing changes from sending paid requests.
+export interface SourceAnalysis {
+    face: FaceAnalysis;
+    width: number;
+    height: number;
+}
+
+export const analyzeSource = async (source: GeneratedImage, options: RequestOptions = {}): Promise<SourceAnalysis> => {
+    const [{ width, height }, face] = await Promise.all([readPixels(source), analyzeFace(source, options)]);
+    return { face, width, height };
+};
+
+// Moves positions in the whole photo into `crop`. They are not clamped, so a head cut off by the
+// crop fails the face check.
+export const faceInCrop = (face: FaceAnalysis, crop: CropRect): FaceAnalysis => {
+    const x = (value: number) => (value - crop.x) / crop.width;
+    const y = (value: number) => (value - crop.y) / crop.height;
+    return { ...face, crown: y(face.crown), chin: y(face.chin), eyeLine: y(face.eyeLine), left: x(face.left), right: x(face.right) };
+};
+
+// Measures the photo cropped to `spec` with `framing`, and runs every check with the face from
+// the analysis of the uncropped photo.
+export const checkPhotoCompliance = async (
+    image: GeneratedImage,
+    spec: IdPhotoSpec,
+    background: string | null,
+    analysis: SourceAnalysis,
+    framing: SpecFraming
+): Promise<ComplianceCheck[]> => {
+    const pixels = await readPixels(image);
+    const face = faceInCrop(analysis.face, framingCrop(analysis, spec, framing));
+    return checkCompliance({ pixels, face, spec, background });
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ID_PHOTO_SPECS, findIdPhotoSpec, specPixelSize, framingCrop, headGuide, backgroundColorFor, DEFAULT_FRAMING, SPEC_BACKGROUND } from './idPhotoSpecs.js';
+
+describe('specPixelSize', () => {
+    it('gives the pixel size at the spec resolution', () => {
+        expect(specPixelSize(findIdPhotoSpec('us-2x2'))).toEqual({ width: 600, height: 600 });
+        expect(specPixelSize(findIdPhotoSpec('schengen-35x45'))).toEqual({ width: 413, height: 531 });
+        expect(specPixelSize(findIdPhotoSpec('china-1-inch'))).toEqual({ width: 295, height: 413 });
+    });
+
+    it('falls back to the default spec for an unknown id', () => {
+        expect(findIdPhotoSpec('atlantis').id).toBe('schengen-35x45');
+    });
+});
+
+describe('backgroundColorFor', () => {
+    it("uses the spec's colour unless a standard one is chosen", () => {
+        const uk = findIdPhotoSpec('uk-35x45');
+        expect(backgroundColorFor(SPEC_BACKGROUND, uk)).toBe('#e8e8e8');
+        expect(backgroundColorFor('red', uk)).toBe('#ff0000');
+        expect(backgroundColorFor('mauve', uk)).toBe('#e8e8e8');
+    });
+});
+
+describe('framingCrop', () => {
+    const spec = findIdPhotoSpec('schengen-35x45');
+    const square = { width: 1024, height: 1024 };
+
+    it('takes the largest centred area with the spec aspect ratio', () => {
+        const crop = framingCrop(square, spec, DEFAULT_FRAMING);
+        expect(crop.height).toBeCloseTo(1);
+        expect(crop.width).toBeCloseTo(35 / 45);
+        expect(crop.x).toBeCloseTo((1 - 35 / 45) / 2);
+        expect(crop.y).toBeCloseTo(0);
+    });
+
+    it('cuts a wide source down to the spec aspect ratio', () => {
+        const crop = framingCrop({ width: 1600, height: 900 }, findIdPhotoSpec('us-2x2'), DEFAULT_FRAMING);
+        expect(crop.width * 1600).toBeCloseTo(crop.height * 900);
+        expect(crop.height).toBeCloseTo(1);
+    });
+
+    it('zooms in and moves within the image without leaving it', () => {
+        const crop = framingCrop(square, spec, { zoom: 2, offsetX: -1, offsetY: 1 });
+        expect(crop.height).toBeCloseTo(0.5);
+        expect(crop.x).toBeCloseTo(0);
+        expect(crop.y + crop.height).toBeCloseTo(1);
+
+        const clamped = framingCrop(square, spec, { zoom: 10, offsetX: 5, offsetY: -5 });
+        expect(clamped.height).toBeCloseTo(1 / 3);
+        expect(clamped.x + clamped.width).toBeCloseTo(1);
+        expect(clamped.y).toBeCloseTo(0);
+    });
+});
+
+describe('headGuide', () => {
+    it('places the head within the photo with the eyes inside the eye band', () => {
+        for (const spec of ID_PHOTO_SPECS) {
+            const { crown, eyes, chin } = headGuide(spec);
+            expect(crown).toBeGreaterThanOrEqual(0);
+            expect(chin).toBeLessThanOrEqual(1);
+            expect(1 - eyes).toBeGreaterThanOrEqual(spec.eyeLine.min);
+            expect(1 - eyes).toBeLessThanOrEqual(spec.eyeLine.max);
+        }
+    });
+});
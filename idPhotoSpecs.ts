@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GeneratedImage } from './generationService.js';
+import { base64ToBytes, bytesToBase64, canvasToBlob, CropRect } from './imagePreprocessing.js';
+import { setImageDpi, MM_PER_INCH } from './imageDpi.js';
+
+// A range as fractions (0-1) of the photo's height.
+export interface HeightRange {
+    min: number;
+    max: number;
+}
+
+// The printed size and head placement an authority requires for a document photo.
+export interface IdPhotoSpec {
+    id: string;
+    widthMm: number;
+    heightMm: number;
+    dpi: number;
+    // Chin to crown.
+    headHeight: HeightRange;
+    // Height of the eyes, measured from the bottom edge.
+    eyeLine: HeightRange;
+    // The plain background colour the authority asks for, as #rrggbb.
+    background: string;
+}
+
+// A length in millimetres as a fraction of the photo's height.
+const mm = (value: number, heightMm: number) => value / heightMm;
+
+// Head and eye ranges follow each authority's published requirements; where one gives no eye
+// line, the ICAO recommendation of 50-70% from the bottom is used. Schengen and UK photos want a
+// light grey background, the others white.
+export const ID_PHOTO_SPECS: IdPhotoSpec[] = [
+    { id: 'us-2x2', widthMm: 50.8, heightMm: 50.8, dpi: 300, headHeight: { min: 1 / 2, max: 1.375 / 2 }, eyeLine: { min: 1.125 / 2, max: 1.375 / 2 }, background: '#ffffff' },
+    { id: 'schengen-35x45', widthMm: 35, heightMm: 45, dpi: 300, headHeight: { min: mm(32, 45), max: mm(36, 45) }, eyeLine: { min: 0.5, max: 0.7 }, background: '#f0f0f0' },
+    { id: 'uk-35x45', widthMm: 35, heightMm: 45, dpi: 300, headHeight: { min: mm(29, 45), max: mm(34, 45) }, eyeLine: { min: 0.5, max: 0.7 }, background: '#e8e8e8' },
+    { id: 'china-1-inch', widthMm: 25, heightMm: 35, dpi: 300, headHeight: { min: mm(21, 35), max: mm(25, 35) }, eyeLine: { min: 0.5, max: 0.7 }, background: '#ffffff' },
+    { id: 'china-2-inch', widthMm: 35, heightMm: 49, dpi: 300, headHeight: { min: mm(29, 49), max: mm(34, 49) }, eyeLine: { min: 0.5, max: 0.7 }, background: '#ffffff' },
+    { id: 'japan-30x40', widthMm: 30, heightMm: 40, dpi: 300, headHeight: { min: mm(25, 40), max: mm(30, 40) }, eyeLine: { min: 0.5, max: 0.7 }, background: '#ffffff' },
+];
+
+export const DEFAULT_ID_PHOTO_SPEC = 'schengen-35x45';
+
+// A plain background the photo can be put on instead of the spec's own colour.
+export interface BackgroundColor {
+    id: string;
+    // As #rrggbb.
+    color: string;
+}
+
+// Blue and red are the standard backgrounds of Chinese ID, visa and exam photos.
+export const ID_PHOTO_BACKGROUNDS: BackgroundColor[] = [
+    { id: 'white', color: '#ffffff' },
+    { id: 'light-grey', color: '#f0f0f0' },
+    { id: 'blue', color: '#438edb' },
+    { id: 'red', color: '#ff0000' },
+];
+
+// The background setting that follows the chosen spec.
+export const SPEC_BACKGROUND = 'spec';
+
+export const backgroundColorFor = (backgroundId: string, spec: IdPhotoSpec): string =>
+    ID_PHOTO_BACKGROUNDS.find(background => background.id === backgroundId)?.color ?? spec.background;
+
+export const findIdPhotoSpec = (id: string): IdPhotoSpec =>
+    ID_PHOTO_SPECS.find(spec => spec.id === id) ?? ID_PHOTO_SPECS.find(spec => spec.id === DEFAULT_ID_PHOTO_SPEC)!;
+
+export const specPixelSize = (spec: IdPhotoSpec): { width: number; height: number } => ({
+    width: Math.round(spec.widthMm / MM_PER_INCH * spec.dpi),
+    height: Math.round(spec.heightMm / MM_PER_INCH * spec.dpi),
+});
+
+const midpoint = ({ min, max }: HeightRange) => (min + max) / 2;
+
+// Where the head should sit, as fractions of the photo's height from the top, for the framing
+// guides. Eyes sit roughly halfway between chin and crown.
+export const headGuide = (spec: IdPhotoSpec): { crown: number; eyes: number; chin: number } => {
+    const eyes = 1 - midpoint(spec.eyeLine);
+    const head = midpoint(spec.headHeight);
+    return { crown: Math.max(0, eyes - head / 2), eyes, chin: Math.min(1, eyes + head / 2) };
+};
+
+// How the photo is cut from the generated image: `zoom` 1 is the largest area with the spec's
+// aspect ratio, and the offsets (-1 to 1) move that area within the image.
+export interface SpecFraming {
+    zoom: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+export const DEFAULT_FRAMING: SpecFraming = { zoom: 1, offsetX: 0, offsetY: 0 };
+export const MAX_FRAMING_ZOOM = 3;
+
+// The crop, as fractions of the source, that `framing` selects from a source of the given size.
+export const framingCrop = (source: { width: number; height: number }, spec: IdPhotoSpec, framing: SpecFraming): CropRect => {
+    const aspect = spec.widthMm / spec.heightMm;
+    const zoom = Math.min(MAX_FRAMING_ZOOM, Math.max(1, framing.zoom));
+    const fullWidth = Math.min(source.width, source.height * aspect);
+    const width = fullWidth / zoom / source.width;
+    const height = fullWidth / aspect / zoom / source.height;
+    const clamp = (offset: number) => Math.min(1, Math.max(-1, offset));
+    return {
+        x: (1 - width) / 2 * (1 + clamp(framing.offsetX)),
+        y: (1 - height) / 2 * (1 + clamp(framing.offsetY)),
+        width,
+        height,
+    };
+};
+
+// Cuts the photo out of `image` and scales it to the spec's exact pixel size. The PNG declares
+// the spec's DPI, so it prints at the physical size.
+export const renderToSpec = async (image: GeneratedImage, spec: IdPhotoSpec, framing: SpecFraming = DEFAULT_FRAMING): Promise<GeneratedImage> => {
+    const bitmap = await createImageBitmap(new Blob([base64ToBytes(image.data)] as BlobPart[], { type: image.mimeType }));
+    try {
+        const crop = framingCrop(bitmap, spec, framing);
+        const { width, height } = specPixelSize(spec);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(
+            bitmap,
+            crop.x * bitmap.width, crop.y * bitmap.height, crop.width * bitmap.width, crop.height * bitmap.height,
+            0, 0, width, height
+        );
+        const blob = await canvasToBlob(canvas, 'image/png', 1);
+        const bytes = setImageDpi(new Uint8Array(await blob.arrayBuffer()), spec.dpi);
+        return { data: bytesToBase64(bytes), mimeType: blob.type || 'image/png' };
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { setImageDpi, readImageDpi } from './imageDpi.js';
+import { base64ToBytes, sniffImageType } from './imagePreprocessing.js';
+import { PNG_BASE64 } from './testSupport.js';
+
+const chunkTypes = (png: Uint8Array): string[] => {
+    const types: string[] = [];
+    let offset = 8;
+    while (offset + 12 <= png.length) {
+        const length = new DataView(png.buffer, png.byteOffset + offset).getUint32(0);
+        types.push(String.fromCharCode(...png.subarray(offset + 4, offset + 8)));
+        offset += 12 + length;
+    }
+    return types;
+};
+
+// SOI, a DQT stub and EOI: enough structure for the header to be found.
+const BARE_JPEG = Uint8Array.from([0xff, 0xd8, 0xff, 0xdb, 0x00, 0x04, 0x00, 0x00, 0xff, 0xd9]);
+
+describe('setImageDpi', () => {
+    it('adds a pHYs chunk right after IHDR in a PNG', () => {
+        const png = base64ToBytes(PNG_BASE64);
+        expect(readImageDpi(png)).toBeNull();
+
+        const withDpi = setImageDpi(png, 300);
+        expect(chunkTypes(withDpi)).toEqual(['IHDR', 'pHYs', 'IDAT', 'IEND']);
+        expect(readImageDpi(withDpi)).toBe(300);
+        expect(sniffImageType(withDpi)).toBe('image/png');
+    });
+
+    it('writes the chunk checksum PNG decoders verify', () => {
+        const withDpi = setImageDpi(base64ToBytes(PNG_BASE64), 300);
+        // pHYs for 11811 pixels per metre, as written by common image editors.
+        const expected = [0x00, 0x00, 0x00, 0x09, 0x70, 0x48, 0x59, 0x73, 0x00, 0x00, 0x2e, 0x23, 0x00, 0x00, 0x2e, 0x23, 0x01, 0x78, 0xa5, 0x3f, 0x76];
+        expect([...withDpi.subarray(33, 33 + 21)]).toEqual(expected);
+    });
+
+    it('replaces an existing resolution instead of adding a second one', () => {
+        const twice = setImageDpi(setImageDpi(base64ToBytes(PNG_BASE64), 72), 600);
+        expect(chunkTypes(twice).filter(type => type === 'pHYs')).toHaveLength(1);
+        expect(readImageDpi(twice)).toBe(600);
+    });
+
+    it('adds a JFIF header to a JPEG without one and updates an existing one', () => {
+        const withHeader = setImageDpi(BARE_JPEG, 300);
+        expect(withHeader.length).toBe(BARE_JPEG.length + 18);
+        expect(readImageDpi(withHeader)).toBe(300);
+
+        const updated = setImageDpi(withHeader, 350);
+        expect(updated.length).toBe(withHeader.length);
+        expect(readImageDpi(updated)).toBe(350);
+    });
+
+    it('leaves other formats alone', () => {
+        const gif = Uint8Array.from([...'GIF89a'].map(c => c.charCodeAt(0)));
+        expect(setImageDpi(gif, 300)).toBe(gif);
+    });
+});
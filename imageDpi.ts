@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { crc32 } from './zip.js';
+
+// Reads and writes the print resolution stored in PNG (pHYs chunk) and JPEG (JFIF header) files,
+// so printers and photo kiosks lay an image out at its intended physical size.
+
+export const MM_PER_INCH = 25.4;
+const METERS_PER_INCH = 0.0254;
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const chunkType = (bytes: Uint8Array, offset: number): string =>
+    String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set([...type].map(c => c.charCodeAt(0)), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const isPng = (bytes: Uint8Array) => bytes.length > PNG_SIGNATURE_LENGTH && bytes[0] === 0x89 && chunkType(bytes, PNG_SIGNATURE_LENGTH) === 'IHDR';
+const isJpeg = (bytes: Uint8Array) => bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// Replaces any pHYs chunk with one for `dpi`, placed right after IHDR as the format requires
+// it to come before the image data.
+export const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+    const kept: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+    const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+    const data = new Uint8Array(9);
+    new DataView(data.buffer).setUint32(0, pixelsPerMeter);
+    new DataView(data.buffer).setUint32(4, pixelsPerMeter);
+    data[8] = 1;
+
+    let offset = PNG_SIGNATURE_LENGTH;
+    while (offset + 12 <= bytes.length) {
+        const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+        const type = chunkType(bytes, offset);
+        if (type !== 'pHYs') {
+            kept.push(bytes.subarray(offset, offset + 12 + length));
+        }
+        if (type === 'IHDR') {
+            kept.push(pngChunk('pHYs', data));
+        }
+        offset += 12 + length;
+    }
+    return concat(kept);
+};
+
+// Sets the density of the JFIF header to `dpi`, adding the header when the file has none.
+export const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+    const density = Math.max(1, Math.min(0xffff, Math.round(dpi)));
+    const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 11)) === 'JFIF\0';
+    if (hasJfif) {
+        const copy = bytes.slice();
+        const view = new DataView(copy.buffer);
+        copy[13] = 1;
+        view.setUint16(14, density);
+        view.setUint16(16, density);
+        return copy;
+    }
+    const app0 = new Uint8Array([
+        0xff, 0xe0, 0x00, 0x10,
+        0x4a, 0x46, 0x49, 0x46, 0x00,
+        0x01, 0x01,
+        0x01, density >> 8, density & 0xff, density >> 8, density & 0xff,
+        0x00, 0x00,
+    ]);
+    return concat([bytes.subarray(0, 2), app0, bytes.subarray(2)]);
+};
+
+// Other formats are returned unchanged.
+export const setImageDpi = (bytes: Uint8Array, dpi: number): Uint8Array =>
+    isPng(bytes) ? setPngDpi(bytes, dpi) : isJpeg(bytes) ? setJpegDpi(bytes, dpi) : bytes;
+
+// The horizontal resolution a PNG or JPEG declares, or null when it declares none.
+export const readImageDpi = (bytes: Uint8Array): number | null => {
+    if (isPng(bytes)) {
+        let offset = PNG_SIGNATURE_LENGTH;
+        while (offset + 12 <= bytes.length) {
+            const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+            const length = view.getUint32(0);
+            const type = chunkType(bytes, offset);
+            if (type === 'pHYs') {
+                return bytes[offset + 16] === 1 ? Math.round(view.getUint32(8) * METERS_PER_INCH) : null;
+            }
+            if (type === 'IDAT') {
+                return null;
+            }
+            offset += 12 + length;
+        }
+        return null;
+    }
+    if (isJpeg(bytes) && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 11)) === 'JFIF\0') {
+        const view = new DataView(bytes.buffer, bytes.byteOffset);
+        const units = bytes[13];
+        const density = view.getUint16(14);
+        return units === 1 ? density : units === 2 ? Math.round(density * 2.54) : null;
+    }
+    return null;
+};
+
+export const setBlobDpi = async (blob: Blob, dpi: number): Promise<Blob> =>
+    new Blob([setImageDpi(new Uint8Array(await blob.arrayBuffer()), dpi)] as BlobPart[], { type: blob.type });
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GeneratedImage } from './generationService.js';
+import type { ToolSettings } from './toolSettings.js';
+import { base64ToBytes, canvasToBlob, fileExtensionFor } from './imagePreprocessing.js';
+import { setBlobDpi } from './imageDpi.js';
+
+// 'original' keeps the format the model returned.
+export type ExportFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp';
+export const EXPORT_FORMATS: ExportFormat[] = ['original', 'image/png', 'image/jpeg', 'image/webp'];
+
+// 'print' sizes the image for a physical width at a given DPI.
+export type ResizeMode = 'none' | 'width' | 'print';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // 1-100, used by JPEG and WebP.
+    quality: number;
+    resizeMode: ResizeMode;
+    width: number;
+    printWidthCm: number;
+    dpi: number;
+    fileNameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'original',
+    quality: 92,
+    resizeMode: 'none',
+    width: 1080,
+    printWidthCm: 10,
+    dpi: 300,
+    fileNameTemplate: '{name}',
+};
+
+// What is being exported, for the file name: the tool's default name and the settings it ran with.
+export interface ExportTarget {
+    toolId: string;
+    name: string;
+    settings?: ToolSettings;
+    // The resolution the image was laid out for, such as an ID photo spec's, kept in the file
+    // while the image is exported at its own size.
+    dpi?: number;
+}
+
+// Keeps a typo in the width from allocating a canvas the browser cannot handle.
+export const MAX_EXPORT_DIMENSION = 8192;
+export const CM_PER_INCH = 2.54;
+
+const LOSSY_TYPES = ['image/jpeg', 'image/webp'];
+
+export const exportMimeType = (image: GeneratedImage, options: ExportOptions): string =>
+    options.format === 'original' ? image.mimeType : options.format;
+
+export const isLossy = (mimeType: string): boolean => LOSSY_TYPES.includes(mimeType);
+
+// The output size for a source of `source` pixels, keeping the aspect ratio. A width or height
+// above MAX_EXPORT_DIMENSION scales the whole image down to fit.
+export const exportSize = (source: { width: number; height: number }, options: ExportOptions): { width: number; height: number } => {
+    let width = source.width;
+    if (options.resizeMode === 'width') {
+        width = options.width;
+    } else if (options.resizeMode === 'print') {
+        width = options.printWidthCm / CM_PER_INCH * options.dpi;
+    }
+    const scale = Math.min(
+        Math.max(1, width) / source.width,
+        MAX_EXPORT_DIMENSION / source.width,
+        MAX_EXPORT_DIMENSION / source.height
+    );
+    return {
+        width: Math.max(1, Math.round(source.width * scale)),
+        height: Math.max(1, Math.round(source.height * scale)),
+    };
+};
+
+// The DPI to declare in the exported file: the print resolution when sizing for print, the
+// target's own while the size is unchanged, and none after a resize to a pixel width.
+export const exportDpi = (options: ExportOptions, target: ExportTarget): number | null => {
+    if (options.resizeMode === 'print') {
+        return options.dpi;
+    }
+    return options.resizeMode === 'none' ? target.dpi ?? null : null;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Replaces `{name}`, `{tool}`, `{date}`, `{time}` and `{<setting>}` (e.g. `{platform}`) in the
+// template, drops characters that file systems reject and appends the extension for `mimeType`.
+// Unknown placeholders are kept as written so a typo is visible in the preview.
+export const renderFileName = (template: string, target: ExportTarget, mimeType: string, date: Date = new Date()): string => {
+    const values: Record<string, string | number | boolean> = {
+        ...target.settings,
+        name: target.name,
+        tool: target.toolId,
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+    };
+    const base = template
+        .replace(/\{(\w+)\}/g, (match, key) => key in values ? String(values[key]) : match)
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+        .replace(/\s+/g, '_')
+        .replace(/^[.\-_]+|[.\-_]+$/g, '');
+    return `${base || target.name}.${fileExtensionFor(mimeType)}`;
+};
+
+// Converts the image on a canvas when the format or size changes; otherwise the bytes are
+// returned untouched. The blob's type is the format actually produced, which can be PNG when the
+// browser cannot encode the requested one.
+const encodeImage = async (image: GeneratedImage, options: ExportOptions): Promise<Blob> => {
+    const source = new Blob([base64ToBytes(image.data)] as BlobPart[], { type: image.mimeType });
+    const mimeType = exportMimeType(image, options);
+    if (options.resizeMode === 'none' && mimeType === image.mimeType) {
+        return source;
+    }
+
+    const bitmap = await createImageBitmap(source);
+    try {
+        const { width, height } = exportSize(bitmap, options);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        if (mimeType === 'image/jpeg') {
+            // JPEG has no alpha channel; transparent areas would otherwise turn black.
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        return await canvasToBlob(canvas, mimeType, options.quality / 100);
+    } finally {
+        bitmap.close();
+    }
+};
+
+// Encodes `image` for saving, writing `dpi` into PNG and JPEG files when given.
+export const exportImage = async (image: GeneratedImage, options: ExportOptions, dpi: number | null = null): Promise<Blob> => {
+    const blob = await encodeImage(image, options);
+    return dpi ? setBlobDpi(blob, dpi) : blob;
+};
+
+// Browsers only accept PNG on the clipboard reliably, so other formats are converted first.
+export const copyImageToClipboard = async (image: GeneratedImage, options: ExportOptions) => {
+    const blob = await exportImage(image, { ...options, format: 'image/png' });
+    await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+};
+
+const STORAGE_KEY = 'ai-tool-collection.export';
+
+// The last options used, shared by every tool.
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') };
+    } catch {
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch {
+        // Only the remembered choice is lost.
+    }
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { sniffImageType, preprocessImage, hasEmbeddedMetadata, base64ToBytes, UnsupportedImageError } from './imagePreprocessing.js';
+import { PNG_BASE64 } from './testSupport.js';
+
+const bytes = (...values: (number | string)[]): Uint8Array =>
+    Uint8Array.from(values.flatMap(value => typeof value === 'string' ? [...value].map(c => c.charCodeAt(0)) : [value]));
+
+describe('sniffImageType', () => {
+    it('recognises every accepted format by its signature', () => {
+        expect(sniffImageType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg');
+        expect(sniffImageType(base64ToBytes(PNG_BASE64))).toBe('image/png');
+        expect(sniffImageType(bytes('GIF89a', 1, 0))).toBe('image/gif');
+        expect(sniffImageType(bytes('GIF87a'))).toBe('image/gif');
+        expect(sniffImageType(bytes('RIFF', 0, 0, 0, 0, 'WEBPVP8 '))).toBe('image/webp');
+        expect(sniffImageType(bytes('BM', 0, 0))).toBe('image/bmp');
+        expect(sniffImageType(bytes(0, 0, 0, 0x1c, 'ftypavif'))).toBe('image/avif');
+    });
+
+    it('rejects anything else', () => {
+        expect(sniffImageType(bytes('%PDF-1.7'))).toBeNull();
+        expect(sniffImageType(bytes('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+        expect(sniffImageType(bytes(0, 0, 0, 0x1c, 'ftypheic'))).toBeNull();
+        expect(sniffImageType(new Uint8Array())).toBeNull();
+    });
+});
+
+describe('hasEmbeddedMetadata', () => {
+    // The test pixel with a chunk inserted just before IEND, after the image data. The CRC is not checked.
+    const pngWithTrailingChunk = (type: string, text: string): Uint8Array => {
+        const png = base64ToBytes(PNG_BASE64);
+        const iend = png.length - 12;
+        return Uint8Array.from([...png.subarray(0, iend), ...bytes(0, 0, 0, text.length, type, text, 0, 0, 0, 0), ...png.subarray(iend)]);
+    };
+
+    it('finds text and EXIF chunks that come after the image data', () => {
+        expect(hasEmbeddedMetadata(base64ToBytes(PNG_BASE64), 'image/png')).toBe(false);
+        expect(hasEmbeddedMetadata(pngWithTrailingChunk('tEXt', 'GPS\u000052.52,13.40'), 'image/png')).toBe(true);
+        expect(hasEmbeddedMetadata(pngWithTrailingChunk('eXIf', 'MM'), 'image/png')).toBe(true);
+    });
+
+    it('stops at a truncated chunk', () => {
+        const png = base64ToBytes(PNG_BASE64);
+        expect(hasEmbeddedMetadata(Uint8Array.from([...png.subarray(0, 33), 0, 0, 1, 0, ...bytes('IDAT')]), 'image/png')).toBe(false);
+    });
+});
+
+describe('preprocessImage', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('ignores the declared type and rejects content that is not an image', async () => {
+        const file = Object.assign(new Blob(['not an image'], { type: 'image/jpeg' }), { name: 'photo.jpg' });
+        await expect(preprocessImage(file)).rejects.toBeInstanceOf(UnsupportedImageError);
+    });
+
+    it('labels a re-encoded image with the type the canvas produced', async () => {
+        vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 4000, height: 3000, close() {} })));
+        // Like a browser that cannot encode WebP and falls back to PNG.
+        const canvas = {
+            getContext: () => ({ fillRect() {}, drawImage() {} }),
+            toBlob: (callback: (blob: Blob) => void) => callback(new Blob([base64ToBytes(PNG_BASE64)], { type: 'image/png' })),
+        };
+        vi.stubGlobal('document', { createElement: () => canvas });
+        const file = Object.assign(new Blob([bytes('RIFF', 0, 0, 0, 0, 'WEBPVP8 ')]), { name: 'shoe.webp' });
+
+        expect(await preprocessImage(file)).toMatchObject({ data: PNG_BASE64, mimeType: 'image/png', name: 'shoe.png', width: 2048, height: 1536 });
+    });
+
+    it('passes a small image without metadata through unchanged', async () => {
+        vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 1, height: 1, close() {} })));
+        const file = Object.assign(new Blob([base64ToBytes(PNG_BASE64)]), { name: 'pixel.png' });
+
+        expect(await preprocessImage(file)).toEqual({ data: PNG_BASE64, mimeType: 'image/png', name: 'pixel.png', width: 1, height: 1 });
+    });
+});
@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t, optionLabel } from './i18n.js';
+
+// An uploaded image after preprocessing, ready to be sent as an inline part. It has the same
+// `data`/`mimeType` shape as a GeneratedImage, so `toDataUrl` works for both.
+export interface PreparedImage {
+    data: string;
+    mimeType: string;
+    name: string;
+    width: number;
+    height: number;
+}
+
+export interface PreprocessOptions {
+    // Longest side, in pixels, after downscaling.
+    maxDimension: number;
+    // Quality used when re-encoding to JPEG or WebP.
+    quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: Number(process.env.MAX_IMAGE_DIMENSION) || 2048,
+    quality: 0.92,
+};
+
+// The formats the model accepts as-is; anything else is converted.
+const PASSTHROUGH_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Target format for each accepted input. Lossless sources stay lossless; AVIF is photographic.
+const OUTPUT_MIME_TYPES: Record<string, string> = {
+    'image/jpeg': 'image/jpeg',
+    'image/png': 'image/png',
+    'image/webp': 'image/webp',
+    'image/gif': 'image/png',
+    'image/bmp': 'image/png',
+    'image/avif': 'image/jpeg',
+};
+
+// Value for the `accept` attribute of file inputs.
+export const ACCEPTED_IMAGE_TYPES = Object.keys(OUTPUT_MIME_TYPES).join(',');
+
+export class UnsupportedImageError extends Error {
+    constructor(message: string = t('errors.unsupportedImage')) {
+        super(message);
+        this.name = 'UnsupportedImageError';
+    }
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Detects the real format from the file's leading bytes, ignoring its name and reported type.
+export const sniffImageType = (bytes: Uint8Array): string | null => {
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (bytes.length >= 8 && ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) {
+        return 'image/png';
+    }
+    if (bytes.length >= 6 && (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a')) {
+        return 'image/gif';
+    }
+    if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (bytes.length >= 2 && ascii(bytes, 0, 2) === 'BM') {
+        return 'image/bmp';
+    }
+    if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp' && ['avif', 'avis'].includes(ascii(bytes, 8, 4))) {
+        return 'image/avif';
+    }
+    return null;
+};
+
+// Iterates over the marker segments of a JPEG up to the start of the image data.
+const forEachJpegSegment = (bytes: Uint8Array, visit: (marker: number, start: number, length: number) => boolean | void) => {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) {
+            return;
+        }
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (visit(marker, offset + 4, length - 2) === true) {
+            return;
+        }
+        offset += 2 + length;
+    }
+};
+
+// Reads the EXIF orientation (1-8) of a JPEG; 1 means upright or unknown.
+export const readJpegOrientation = (bytes: Uint8Array): number => {
+    let orientation = 1;
+    forEachJpegSegment(bytes, (marker, start, length) => {
+        if (marker !== 0xe1 || ascii(bytes, start, 4) !== 'Exif') {
+            return;
+        }
+        const tiff = start + 6;
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if (tiff + 8 > start + length) {
+            return true;
+        }
+        const littleEndian = ascii(bytes, tiff, 2) === 'II';
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        if (ifd + 2 > bytes.length) {
+            return true;
+        }
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > bytes.length) {
+                break;
+            }
+            if (view.getUint16(entry, littleEndian) === 0x0112) {
+                const value = view.getUint16(entry + 8, littleEndian);
+                orientation = value >= 1 && value <= 8 ? value : 1;
+                break;
+            }
+        }
+        return true;
+    });
+    return orientation;
+};
+
+// True when the file carries EXIF/XMP or text metadata that may include a location or device details.
+export const hasEmbeddedMetadata = (bytes: Uint8Array, mimeType: string): boolean => {
+    if (mimeType === 'image/jpeg') {
+        let found = false;
+        forEachJpegSegment(bytes, marker => {
+            // APP1 holds EXIF and XMP, APP13 holds IPTC.
+            if (marker === 0xe1 || marker === 0xed) {
+                found = true;
+                return true;
+            }
+        });
+        return found;
+    }
+    if (mimeType === 'image/png') {
+        // Metadata chunks may also come after the image data, so the scan runs up to IEND.
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+            const type = ascii(bytes, offset + 4, 4);
+            if (['eXIf', 'tEXt', 'iTXt', 'zTXt'].includes(type)) {
+                return true;
+            }
+            if (type === 'IEND' || offset + 12 + length > bytes.length) {
+                return false;
+            }
+            offset += 12 + length;
+        }
+        return false;
+    }
+    if (mimeType === 'image/webp') {
+        let offset = 12;
+        while (offset + 8 <= bytes.length) {
+            const type = ascii(bytes, offset, 4);
+            if (type === 'EXIF' || type === 'XMP ') {
+                return true;
+            }
+            const length = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true);
+            offset += 8 + length + (length % 2);
+        }
+        return false;
+    }
+    return true;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array =>
+    Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+export const fileExtensionFor = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'png';
+
+const renameForType = (name: string, mimeType: string): string =>
+    `${name.replace(/\.[^.]+$/, '') || 'image'}.${fileExtensionFor(mimeType)}`;
+
+// Browsers that cannot encode `mimeType` fall back to PNG, so check the blob's type.
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t('errors.encodeImage'))), mimeType, quality);
+    });
+
+// Prepares an upload for the model: validates the real format, applies the EXIF orientation,
+// downscales to `maxDimension` and strips metadata such as GPS coordinates. Files that already
+// satisfy all of this are passed through byte for byte to avoid re-encoding losses.
+export const preprocessImage = async (
+    file: Blob & { name?: string },
+    options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreparedImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const sourceType = sniffImageType(bytes);
+    if (!sourceType) {
+        throw new UnsupportedImageError();
+    }
+    const name = file.name || 'image';
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(new Blob([bytes], { type: sourceType }), { imageOrientation: 'from-image' });
+    } catch {
+        throw new UnsupportedImageError(t('errors.undecodableImage', { format: sourceType.split('/')[1].toUpperCase() }));
+    }
+
+    try {
+        const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const orientation = sourceType === 'image/jpeg' ? readJpegOrientation(bytes) : 1;
+
+        const canPassThrough = PASSTHROUGH_MIME_TYPES.includes(sourceType)
+            && scale === 1
+            && orientation === 1
+            && !hasEmbeddedMetadata(bytes, sourceType);
+        if (canPassThrough) {
+            return { data: bytesToBase64(bytes), mimeType: sourceType, name, width, height };
+        }
+
+        // Drawing onto a canvas bakes in the orientation and drops every metadata block.
+        const targetType = OUTPUT_MIME_TYPES[sourceType];
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        if (targetType === 'image/jpeg') {
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const blob = await canvasToBlob(canvas, targetType, options.quality);
+        // Labelled with what the browser produced, which is PNG when it cannot encode the target type.
+        const mimeType = blob.type || targetType;
+        return {
+            data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+            mimeType,
+            name: mimeType === sourceType ? name : renameForType(name, mimeType),
+            width,
+            height,
+        };
+    } finally {
+        bitmap.close();
+    }
+};
+
+// A crop area as fractions (0-1) of the image's width and height.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Rotates `image` clockwise by `quarterTurns` times 90 degrees, then crops it to `crop`, which is
+// relative to the rotated image. The result goes through `preprocessImage` like any upload.
+export const transformImage = async (image: PreparedImage, quarterTurns: number, crop: CropRect | null = null): Promise<PreparedImage> => {
+    const bitmap = await createImageBitmap(new Blob([base64ToBytes(image.data)], { type: image.mimeType }));
+    let blob: Blob;
+    try {
+        const turns = ((quarterTurns % 4) + 4) % 4;
+        const rotatedWidth = turns % 2 ? bitmap.height : bitmap.width;
+        const rotatedHeight = turns % 2 ? bitmap.width : bitmap.height;
+        const area = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(area.width * rotatedWidth));
+        canvas.height = Math.max(1, Math.round(area.height * rotatedHeight));
+        const ctx = canvas.getContext('2d')!;
+        if (image.mimeType === 'image/jpeg') {
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.translate(-Math.round(area.x * rotatedWidth), -Math.round(area.y * rotatedHeight));
+        ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+        ctx.rotate(turns * Math.PI / 2);
+        ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+        blob = await canvasToBlob(canvas, image.mimeType, DEFAULT_PREPROCESS_OPTIONS.quality);
+    } finally {
+        bitmap.close();
+    }
+    return preprocessImage(new File([blob], image.name, { type: blob.type }));
+};
+
+export const preprocessErrorMessage = (err: unknown, subject: string = 'image'): string =>
+    err instanceof UnsupportedImageError
+        ? err.message
+        : t('errors.unreadableImage', { subject: optionLabel('subject', subject), message: err instanceof Error ? err.message : String(err) });
@@ -0,0 +1,500 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The English UI text, and the reference every other catalog is checked against. Keys are grouped
+// by the component that shows them; `{name}` marks a value filled in by `t`.
+export const EN_MESSAGES = {
+    'app.backToTools': 'Back to Tools',
+    'app.language': 'Language',
+    'app.loadingTool': 'Loading tool',
+
+    'common.cancel': 'Cancel',
+    'common.delete': 'Delete',
+    'common.download': 'Download',
+    'common.downloadPhoto': 'Download Photo',
+    'common.generated': 'Generated',
+    'common.generating': 'Generating...',
+    'common.generatingLabel': 'Generating, please wait',
+    'common.no': 'No',
+    'common.original': 'Original',
+    'common.originalAlt': 'Original user upload',
+    'common.processing': 'Processing image',
+    'common.uploadFirst': 'Please upload an image first.',
+    'common.uploadPhoto': 'Upload Photo',
+    'common.uploadPlaceholder': 'Upload an image to see it here.',
+    'common.yes': 'Yes',
+
+    'errors.cancelled': 'The request was cancelled.',
+    'errors.encodeImage': 'Could not encode the image.',
+    'errors.generation': 'An error occurred while generating the image: {message}',
+    'errors.generic': 'An error occurred: {message}',
+    'errors.missingVariants': '{missing} of {requested} variants could not be generated. The others are shown below.',
+    'errors.timeout': 'The request timed out after {seconds} seconds.',
+    'errors.undecodableImage': 'This browser could not decode the {format} image. Please convert it to JPEG or PNG and try again.',
+    'errors.unreadableImage': 'Could not read the {subject}: {message}',
+    'errors.unsupportedImage': 'Unsupported file type. Please upload a JPEG, PNG, WEBP, GIF, BMP or AVIF image.',
+
+    'tools.idPhoto.title': 'AI Formal ID Photo Generator',
+    'tools.idPhoto.description': 'Transform a casual portrait into a professional ID photo with formal attire.',
+    'tools.outfitChanger.title': 'AI Outfit & Pose Changer',
+    'tools.outfitChanger.description': 'Change outfits and poses in your photos. Choose a style and color to see the magic.',
+    'tools.beautyCamera.title': 'AI Beauty Camera',
+    'tools.beautyCamera.description': 'Retouch skin and enhance body shape for a perfect, natural-looking portrait.',
+    'tools.posterGenerator.title': 'AI Poster Generator',
+    'tools.posterGenerator.description': 'Create three unique commercial posters by providing a few simple details.',
+    'tools.socialMediaConverter.title': 'Social Media Style Converter',
+    'tools.socialMediaConverter.description': 'Adapt your images to the unique style of popular social media platforms.',
+    'tools.doodleEnhancer.title': 'AI Doodle Storyteller',
+    'tools.doodleEnhancer.description': "Turn a kid's doodle into a multi-panel comic strip story.",
+
+    'directory.title': 'AI Tool Collection',
+    'directory.subtitle': 'A collection of useful and fun AI-powered tools. Select a tool to get started.',
+    'directory.searchPlaceholder': 'Search tools, e.g. passport, comic, logo',
+    'directory.searchLabel': 'Search tools',
+    'directory.categoryLabel': 'Filter by category',
+    'directory.allCategories': 'All',
+    'directory.noMatches': 'No tools match your search.',
+    'directory.historyDescription': 'Browse, re-download and reopen everything you have generated with any tool.',
+    'directory.usageDescription': 'See how many requests each tool made, what they cost, and set soft budgets.',
+    'directory.selectTool': 'Select tool: {title}',
+
+    'history.title': 'Generation History',
+    'history.subtitle': 'Browse everything you have generated, download it again, or reopen a run with its settings restored.',
+    'history.loadError': 'Could not load your history: {message}',
+    'history.deleteError': 'Could not delete this entry: {message}',
+    'history.filterLabel': 'Filter by tool',
+    'history.allTools': 'All tools',
+    'history.loading': 'Loading history',
+    'history.empty': 'No generations yet. Your results will appear here after you run a tool.',
+    'history.inputThumbnail': 'Input thumbnail',
+    'history.output': 'Output {number}',
+    'history.settingsAndPrompt': 'Settings & prompt',
+    'history.templates': 'Prompt templates: {templates}',
+    'history.reopen': 'Reopen',
+    'history.downloadNumbered': 'Download {number}',
+    'history.deleteEntry': 'Delete this entry',
+
+    'presets.title': 'Presets',
+    'presets.presetLabel': 'Preset',
+    'presets.choose': 'Choose a preset...',
+    'presets.builtIn': 'Built-in',
+    'presets.mine': 'My presets',
+    'presets.load': 'Load',
+    'presets.rename': 'Rename',
+    'presets.saveName': 'Save Name',
+    'presets.newNameLabel': 'New preset name',
+    'presets.namePlaceholder': 'Name for the current settings',
+    'presets.nameLabel': 'Preset name',
+    'presets.saveCurrent': 'Save Current',
+    'presets.export': 'Export My Presets',
+    'presets.import': 'Import...',
+    'presets.loaded': 'Loaded "{name}".',
+    'presets.saved': 'Saved "{name}".',
+    'presets.deleted': 'Deleted "{name}".',
+    'presets.importedCount.one': 'Imported {count} preset.',
+    'presets.importedCount.other': 'Imported {count} presets.',
+    'presets.untitled': 'Untitled preset',
+    'presets.imported': 'Imported preset',
+    'presets.errors.invalidJson': 'The file is not valid JSON.',
+    'presets.errors.notPresetFile': 'This is not a presets file.',
+    'presets.errors.newerVersion': 'The presets were exported by a newer version of the app. Please update and try again.',
+    'presets.errors.otherTool': 'These presets belong to a different tool ("{toolId}").',
+    'presets.errors.noPresets': 'The file does not contain any presets.',
+    'presets.errors.invalidPreset': 'Every preset needs a name and settings.',
+
+    'candidates.countLabel': 'Number of variants',
+    'candidates.countDescription': 'Generate several candidates at once and keep the best one.',
+    'candidates.title': 'Candidates',
+    'candidates.heading': 'Candidates ({count})',
+    'candidates.keepFavorite': 'Keep Favorite Only',
+    'candidates.listLabel': 'Generated candidates',
+    'candidates.select': 'Select candidate {number}',
+    'candidates.alt': '{alt} (candidate {number})',
+    'candidates.favorite': 'Mark as favorite',
+    'candidates.unfavorite': 'Remove favorite',
+    'candidates.discard': 'Discard',
+
+    'compare.label': 'Before and after comparison',
+    'compare.modeLabel': 'Comparison mode',
+    'compare.split': 'Split',
+    'compare.toggle': 'Toggle',
+    'compare.show': 'Show {label}',
+    'compare.blink': 'Blink',
+    'compare.stopBlinking': 'Stop Blinking',
+    'compare.loupe': 'Pixel loupe',
+    'compare.zoomIn': 'Zoom in',
+    'compare.zoomOut': 'Zoom out',
+    'compare.reset': 'Reset',
+    'compare.divider': 'Comparison divider',
+    'compare.toggleLabel': 'Comparison toggle',
+    'compare.help': 'Drag the divider to compare. Scroll to zoom, and drag to pan when zoomed in.',
+
+    'refinement.title': 'Refine Result',
+    'refinement.instructionLabel': 'Describe a change to the latest result',
+    'refinement.instructionPlaceholder': "e.g., 'make the tie a bit darker'",
+    'refinement.apply': 'Apply Refinement',
+    'refinement.refining': 'Refining...',
+    'refinement.undo': 'Undo',
+    'refinement.redo': 'Redo',
+
+    'batch.modeLabel': 'Processing mode',
+    'batch.single': 'Single Photo',
+    'batch.batch': 'Batch',
+    'batch.label': 'Batch processing',
+    'batch.addPhotos': 'Add Photos',
+    'batch.addFolder': 'Add Folder',
+    'batch.concurrency': 'Parallel requests',
+    'batch.stop': 'Stop',
+    'batch.process.one': 'Process {count} Photo',
+    'batch.process.other': 'Process {count} Photos',
+    'batch.retryFailed': 'Retry Failed ({count})',
+    'batch.downloadZip': 'Download ZIP',
+    'batch.clear': 'Clear',
+    'batch.progress': '{done} of {total} done',
+    'batch.progressWithFailures': '{done} of {total} done, {failed} failed',
+    'batch.resultAlt': 'Result for {name}',
+    'batch.status.queued': 'Queued',
+    'batch.status.running': 'Processing...',
+    'batch.status.done': 'Done',
+    'batch.status.failed': 'Failed',
+    'batch.attempt': '(attempt {count})',
+    'batch.retry': 'Retry',
+    'batch.remove': 'Remove',
+    'batch.empty': 'Add photos or a folder to start a batch. Every photo is processed with the settings above.',
+
+    'export.title': 'Export Image',
+    'export.format': 'Format',
+    'export.formatOriginal': 'Original ({extension})',
+    'export.quality': 'Quality: {quality}',
+    'export.size': 'Size',
+    'export.resize.none': 'Original Size',
+    'export.resize.width': 'Width',
+    'export.resize.print': 'Print Size',
+    'export.widthLabel': 'Width in pixels',
+    'export.printWidthLabel': 'Print width in centimeters',
+    'export.dpiLabel': 'Print resolution in DPI',
+    'export.outputSize': 'Output: {width} × {height} px',
+    'export.printSize': 'Prints at {width} × {height} mm ({dpi} DPI).',
+    'export.resizeDropsDpi': 'Resizing to a pixel width drops the document size; keep the original size to print at the required dimensions.',
+    'export.fileName': 'File name',
+    'export.fileNamePreview': 'Saves as {fileName}',
+    'export.fileNameHelp': 'Placeholders: {tokens}',
+    'export.copy': 'Copy to Clipboard',
+    'export.close': 'Close',
+    'export.downloaded': 'Saved {fileName}.',
+    'export.copied': 'Copied to the clipboard.',
+    'export.prepareFailed': 'Could not prepare the image: {message}',
+
+    'imageInput.dropHint': 'Or drop an image here, or paste one from the clipboard.',
+    'imageInput.loading': 'Loading image...',
+    'imageInput.fromUrl': 'From URL',
+    'imageInput.urlLabel': 'Image address',
+    'imageInput.urlHint': 'The site must allow cross-origin downloads; otherwise save the image and upload it.',
+    'imageInput.urlFailed': 'Could not download the image from that address ({message}).',
+    'imageInput.load': 'Load',
+    'imageInput.camera': 'Camera',
+    'imageInput.cameraPreview': 'Camera preview',
+    'imageInput.cameraFailed': 'Could not start the camera ({message}).',
+    'imageInput.capture': 'Take Photo',
+    'imageInput.fromResults': 'Earlier Results',
+    'imageInput.resultAlt': 'Result from {tool}',
+    'imageInput.remove': 'Remove',
+    'imageInput.previewAlt': 'Selected image',
+    'imageInput.rotateLeft': 'Rotate left',
+    'imageInput.rotateRight': 'Rotate right',
+    'imageInput.crop': 'Crop',
+    'imageInput.cropHint': 'Drag across the image to choose the area to keep.',
+    'imageInput.applyCrop': 'Apply Crop',
+    'imageInput.resetEdits': 'Undo rotate and crop',
+
+    'promptInspector.title': 'Prompt Inspector',
+    'promptInspector.override': 'Override for Next Run',
+    'promptInspector.reset': 'Reset to Template',
+    'promptInspector.overrideLabel': 'Prompt text for {id}',
+    'promptInspector.overrideHint': 'An override replaces the template text for the next run only. Versions marked * were edited by hand.',
+    'promptInspector.parts': 'Request parts, in order',
+    'promptInspector.imagePart': 'Image ({mimeType}, about {size})',
+    'promptInspector.textPart': 'Text ({count} characters)',
+
+    'outcome.success': 'The model returned an image.',
+    'outcome.blockedPrompt': 'The request was blocked by the safety filter before the model answered.',
+    'outcome.blockedPromptCategory': 'The request was blocked by the safety filter before the model answered ({category}).',
+    'outcome.blockedResponse': 'The model created a result, but the safety filter withheld it.',
+    'outcome.blockedResponseCategory': 'The model created a result, but the safety filter withheld it ({category}).',
+    'outcome.blockedSuggestion': 'Try a different {subject} or milder settings. Retrying the same request usually gives the same result.',
+    'outcome.recitation': 'The model stopped because the result would have closely copied existing material.',
+    'outcome.recitationSuggestion': 'Try a more original {subject} or change the style settings.',
+    'outcome.textOnly': 'The model replied with a message instead of an image: "{message}"',
+    'outcome.textOnlySuggestion': 'Follow the reply, for example by changing the {subject}, then try again.',
+    'outcome.empty': 'The model finished without returning an image.',
+    'outcome.emptyReason': 'The model finished without returning an image (reason: {reason}).',
+    'outcome.emptySuggestion': 'This is often temporary. Try again, or use a simpler {subject}.',
+    'outcome.details': 'Response details',
+    'outcome.kind': 'Outcome',
+    'outcome.finishReason': 'Finish reason',
+    'outcome.blockReason': 'Block reason',
+    'outcome.safetyRatings': 'Safety ratings',
+    'outcome.ratingBlocked': 'blocked',
+    'outcome.text': 'Model text',
+    'outcome.filterReason': 'Filter reason',
+    'outcome.category.HARM_CATEGORY_HARASSMENT': 'harassment',
+    'outcome.category.HARM_CATEGORY_HATE_SPEECH': 'hate speech',
+    'outcome.category.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'sexually explicit content',
+    'outcome.category.HARM_CATEGORY_DANGEROUS_CONTENT': 'dangerous content',
+    'outcome.category.HARM_CATEGORY_CIVIC_INTEGRITY': 'civic integrity',
+
+    'usage.title': 'Usage & Costs',
+    'usage.subtitle': 'Every request made from this browser, with estimated costs. Nothing here is sent anywhere.',
+    'usage.periods': 'Spending by period',
+    'usage.today': 'Today',
+    'usage.thisMonth': 'This month',
+    'usage.allTime': 'All recorded',
+    'usage.ofBudget': 'of {budget} budget',
+    'usage.noBudget': 'No budget set',
+    'usage.requestCount.one': '{count} request, {images} images',
+    'usage.requestCount.other': '{count} requests, {images} images',
+    'usage.empty': 'No requests recorded yet. Usage appears here after you run a tool.',
+    'usage.byDay': 'Per day (last {count} days)',
+    'usage.byTool': 'Per tool',
+    'usage.day': 'Day',
+    'usage.tool': 'Tool',
+    'usage.model': 'Model',
+    'usage.requests': 'Requests',
+    'usage.failed': 'Failed',
+    'usage.images': 'Images',
+    'usage.tokens': 'Tokens in / out',
+    'usage.cost': 'Est. cost',
+    'usage.unpricedHint': 'Some requests used a model without a price and are not included.',
+    'usage.estimateHint': 'Costs are estimates from the price table below and the token counts the model reported. Retries count as separate requests.',
+    'usage.budgets': 'Soft Budgets',
+    'usage.budgetsHint': 'In US dollars. Before a run that would go over a budget you are asked to confirm. Leave empty for no limit.',
+    'usage.dailyBudget': 'Daily budget',
+    'usage.monthlyBudget': 'Monthly budget',
+    'usage.saveBudgets': 'Save Budgets',
+    'usage.budgetsSaved': 'Budgets saved.',
+    'usage.prices': 'Price Table',
+    'usage.pricesHint': 'US dollars per generated image and per million input and output tokens, for each model.',
+    'usage.price.perImage': 'Per image',
+    'usage.price.perMillionInputTokens': 'Per 1M input tokens',
+    'usage.price.perMillionOutputTokens': 'Per 1M output tokens',
+    'usage.savePrices': 'Save Prices',
+    'usage.resetPrices': 'Reset to Defaults',
+    'usage.pricesSaved': 'Prices saved.',
+    'usage.pricesReset': 'Prices reset to the defaults.',
+    'usage.clear': 'Clear Usage Log',
+    'usage.clearConfirm': 'Delete every recorded request? Budgets and prices are kept.',
+    'usage.cleared': 'Usage log cleared.',
+    'usage.budgetWarningDaily': 'This run is estimated at {estimate}. With {spent} already spent today, it would go over your daily budget of {budget}. Run it anyway?',
+    'usage.budgetWarningMonthly': 'This run is estimated at {estimate}. With {spent} already spent this month, it would go over your monthly budget of {budget}. Run it anyway?',
+
+    'beautyCamera.subtitle': 'Upload a portrait and use the advanced controls below to create the perfect look.',
+    'beautyCamera.beautyLevel': '1. Beauty Level',
+    'beautyCamera.faceReshape': '2. Face Reshape:',
+    'beautyCamera.bodySlimming': '3. Body Slimming:',
+    'beautyCamera.chestEnhancement': '4. Chest Enhancement:',
+    'beautyCamera.legExtension': '5. Leg Extension:',
+    'beautyCamera.filter': '6. Filter Style',
+    'beautyCamera.variants': '7. Variants',
+    'beautyCamera.beautify': 'Beautify Photo',
+    'beautyCamera.beautifying': 'Beautifying...',
+    'beautyCamera.beautifyingLabel': 'Beautifying, please wait',
+    'beautyCamera.resultAlt': 'AI beautified portrait',
+    'beautyCamera.resultPlaceholder': 'Your beautified photo will appear here.',
+
+    'outfitChanger.subtitle': 'Upload a photo, choose an outfit style and color or add garment photos, and let AI transform it.',
+    'outfitChanger.clothingStyle': '1. Select Clothing Style',
+    'outfitChanger.clothingColor': '2. Enter Clothing Color',
+    'outfitChanger.colorPlaceholder': "e.g., 'red' or '#FF0000'",
+    'outfitChanger.colorRequired': 'Please enter a color for the clothing.',
+    'outfitChanger.variants': '3. Variants',
+    'outfitChanger.garments': 'Garment References (Optional)',
+    'outfitChanger.garmentsHint': 'Upload product photos, such as flat-lay or mannequin shots, to put those exact garments on the person.',
+    'outfitChanger.garmentsReplaceStyle': 'The outfit comes from your garment references, so the clothing style and color are not used.',
+    'outfitChanger.garment.top': 'Top',
+    'outfitChanger.garment.bottom': 'Bottom',
+    'outfitChanger.garment.shoes': 'Shoes',
+    'outfitChanger.garment.accessory': 'Accessory',
+    'outfitChanger.selectGarment': 'Select Photo...',
+    'outfitChanger.generate': 'Generate New Outfit',
+    'outfitChanger.resultAlt': 'AI generated image with new outfit and pose',
+    'outfitChanger.resultPlaceholder': 'Your generated image will appear here.',
+
+    'idPhoto.subtitle': 'Upload a portrait and use the advanced controls below to customize your professional ID picture.',
+    'idPhoto.portraitRequired': 'Please upload a portrait photo first.',
+    'idPhoto.uploads': 'Image Uploads',
+    'idPhoto.portrait': '1. Portrait (Required)',
+    'idPhoto.selectPortrait': 'Select Portrait...',
+    'idPhoto.background': '2. Background (Optional)',
+    'idPhoto.selectBackground': 'Select Background...',
+    'idPhoto.backgroundDefault': 'Without an image, the background is a plain {color}.',
+    'idPhoto.backgroundColor': 'Background Color',
+    'idPhoto.backgroundColor.spec': 'Document default',
+    'idPhoto.backgroundColor.white': 'White',
+    'idPhoto.backgroundColor.light-grey': 'Light grey',
+    'idPhoto.backgroundColor.blue': 'Blue',
+    'idPhoto.backgroundColor.red': 'Red',
+    'idPhoto.brooch': '3. Brooch (Optional)',
+    'idPhoto.selectBrooch': 'Select Brooch...',
+    'idPhoto.broochDefault': 'Default: No brooch',
+    'idPhoto.attire': 'Attire Customization',
+    'idPhoto.attireStyle': 'Attire',
+    'idPhoto.attire.suit': 'Suit and shirt',
+    'idPhoto.attire.suit.description': 'A formal suit jacket over a shirt, with or without a tie.',
+    'idPhoto.attire.blazer-blouse': 'Blazer and blouse',
+    'idPhoto.attire.blazer-blouse.description': 'A tailored blazer over a plain blouse.',
+    'idPhoto.attire.high-neck': 'High-neck top',
+    'idPhoto.attire.high-neck.description': 'A plain turtleneck or mock-neck top.',
+    'idPhoto.attire.uniform': 'Uniform',
+    'idPhoto.attire.uniform.description': 'A school, work or service uniform you describe.',
+    'idPhoto.attire.head-covering': 'Religious head covering',
+    'idPhoto.attire.head-covering.description': 'Keeps the head covering exactly as it is and adds plain, modest clothing below it.',
+    'idPhoto.attire.original': 'Keep original clothing',
+    'idPhoto.attire.original.description': 'Leaves the clothing in the portrait unchanged.',
+    'idPhoto.attireField.suitColor': 'Suit Color',
+    'idPhoto.attireField.shirtColor': 'Shirt Color',
+    'idPhoto.attireField.hasTie': 'Include Tie?',
+    'idPhoto.attireField.tieColor': 'Tie Color',
+    'idPhoto.attireField.blazerColor': 'Blazer Color',
+    'idPhoto.attireField.blouseColor': 'Blouse Color',
+    'idPhoto.attireField.topColor': 'Top Color',
+    'idPhoto.attireField.uniform': 'Uniform',
+    'idPhoto.attireField.garmentColor': 'Clothing Color',
+    'idPhoto.variants': 'Variants',
+    'idPhoto.generate': 'Generate ID Photo',
+    'idPhoto.resultAlt': 'AI generated formal ID photo',
+    'idPhoto.resultPlaceholder': 'Your generated ID photo will appear here.',
+    'idPhoto.spec': 'Document Size',
+    'idPhoto.spec.us-2x2': 'US passport / visa (2 × 2 in)',
+    'idPhoto.spec.schengen-35x45': 'Schengen visa (35 × 45 mm)',
+    'idPhoto.spec.uk-35x45': 'UK passport (35 × 45 mm)',
+    'idPhoto.spec.china-1-inch': 'China 1-inch (25 × 35 mm)',
+    'idPhoto.spec.china-2-inch': 'China 2-inch (35 × 49 mm)',
+    'idPhoto.spec.japan-30x40': 'Japan resume / ID (30 × 40 mm)',
+    'idPhoto.specDetails': '{width} × {height} mm, {pixelWidth} × {pixelHeight} px at {dpi} DPI. Head: {headMin}-{headMax}% of the height.',
+    'idPhoto.framing': 'Fit to {spec}',
+    'idPhoto.framingHint': 'Adjust until the face fills the oval and the eyes sit in the shaded band.',
+    'idPhoto.framingFailed': 'Could not crop the photo: {message}',
+    'idPhoto.zoom': 'Zoom',
+    'idPhoto.offsetX': 'Left / right',
+    'idPhoto.offsetY': 'Up / down',
+    'idPhoto.resetFraming': 'Reset Framing',
+    'idPhoto.specResultAlt': 'ID photo cropped to {spec}',
+    'idPhoto.compliance.title': 'Compliance Check',
+    'idPhoto.compliance.intro': 'The photo is checked against the {spec} rules: the background from its pixels, the face with an analysis by the model.',
+    'idPhoto.compliance.overBudget': 'Not checked, because analysing the face would go over your usage budget. Use Check Again to run it anyway.',
+    'idPhoto.compliance.checking': 'Checking the photo…',
+    'idPhoto.compliance.failed': 'Could not check the photo: {message}',
+    'idPhoto.compliance.allPassed': 'All checks passed.',
+    'idPhoto.compliance.summary.one': '{count} check failed.',
+    'idPhoto.compliance.summary.other': '{count} checks failed.',
+    'idPhoto.compliance.column.check': 'Check',
+    'idPhoto.compliance.column.measured': 'Measured',
+    'idPhoto.compliance.column.expected': 'Required',
+    'idPhoto.compliance.column.result': 'Result',
+    'idPhoto.compliance.check.faceBox': 'Face position',
+    'idPhoto.compliance.check.headSize': 'Head size',
+    'idPhoto.compliance.check.eyeLine': 'Eye line',
+    'idPhoto.compliance.check.centering': 'Centering',
+    'idPhoto.compliance.check.backgroundUniformity': 'Background uniformity',
+    'idPhoto.compliance.check.backgroundColor': 'Background color',
+    'idPhoto.compliance.check.shadows': 'Background shadows',
+    'idPhoto.compliance.check.glare': 'Glasses glare',
+    'idPhoto.compliance.status.pass': 'Pass',
+    'idPhoto.compliance.status.fail': 'Fail',
+    'idPhoto.compliance.status.skipped': 'Not applicable',
+    'idPhoto.compliance.fix': 'Fix',
+    'idPhoto.compliance.fixAll': 'Fix All',
+    'idPhoto.compliance.fixing': 'Fixing…',
+    'idPhoto.compliance.fixStep': 'Compliance fix: {checks}',
+    'idPhoto.compliance.recheck': 'Check Again',
+    'idPhoto.compliance.faceBoxMeasured': 'Head at {left}–{right} across, {crown}–{chin} down',
+    'idPhoto.compliance.faceBoxExpected': 'Whole head inside the frame',
+    'idPhoto.compliance.noFace': 'No face found',
+    'idPhoto.compliance.offsetLeft': '{offset} left of center',
+    'idPhoto.compliance.offsetRight': '{offset} right of center',
+    'idPhoto.compliance.atMost': 'At most {value}',
+    'idPhoto.compliance.shadowMeasured': 'Darkest area {depth} below average',
+    'idPhoto.compliance.noBackground': 'No background visible',
+    'idPhoto.compliance.customBackground': 'Uploaded background',
+    'idPhoto.compliance.glareExpected': 'Both eyes clearly visible',
+    'idPhoto.compliance.noGlasses': 'No glasses',
+    'idPhoto.compliance.glareMeasured': 'Glasses, {share} bright spots',
+    'idPhoto.compliance.glareReported': 'Glare on glasses, {share} bright spots',
+
+    'printSheet.title': 'Print Sheet',
+    'printSheet.paper': 'Paper',
+    'printSheet.paper.4x6in': '4 × 6 in photo print',
+    'printSheet.paper.5x7in': '5 × 7 in photo print',
+    'printSheet.paper.a4': 'A4 (210 × 297 mm)',
+    'printSheet.paper.letter': 'US Letter (8.5 × 11 in)',
+    'printSheet.orientation': 'Orientation',
+    'printSheet.portrait': 'Portrait',
+    'printSheet.landscape': 'Landscape',
+    'printSheet.copies': 'Copies: {spec}',
+    'printSheet.fill': 'Fill Sheet',
+    'printSheet.secondSize': 'Second size (optional)',
+    'printSheet.secondSizeNone': 'None',
+    'printSheet.margin': 'Margin (mm)',
+    'printSheet.spacing': 'Spacing (mm)',
+    'printSheet.cutMarks': 'Cut marks',
+    'printSheet.summary': '{count} photos on the sheet, exported at {dpi} DPI.',
+    'printSheet.overflow.one': '{count} copy does not fit on the sheet.',
+    'printSheet.overflow.other': '{count} copies do not fit on the sheet.',
+    'printSheet.previewAlt': 'Print sheet preview with {count} photos',
+    'printSheet.downloadPng': 'Download PNG',
+    'printSheet.downloadPdf': 'Download PDF',
+    'printSheet.failed': 'Could not create the print sheet: {message}',
+
+    'socialMediaConverter.subtitle': 'Upload a photo, choose a platform, and let AI adapt it to the perfect style.',
+    'socialMediaConverter.platform': '1. Select Target Platform',
+    'socialMediaConverter.variants': '2. Variants',
+    'socialMediaConverter.convert': 'Convert Style',
+    'socialMediaConverter.converting': 'Converting...',
+    'socialMediaConverter.convertingLabel': 'Converting, please wait',
+    'socialMediaConverter.resultHeading': '{platform} Style',
+    'socialMediaConverter.resultAlt': 'AI generated image in {platform} style',
+    'socialMediaConverter.resultPlaceholder': 'Your converted image will appear here.',
+
+    'doodleEnhancer.subtitle': 'Turn a doodle into a comic strip. Upload a drawing, choose an art style, and select the number of panels.',
+    'doodleEnhancer.doodleRequired': 'Please upload a doodle first.',
+    'doodleEnhancer.artStyle': '1. Select Art Style',
+    'doodleEnhancer.panelCount': '2. Number of Comic Panels ({min}-{max})',
+    'doodleEnhancer.variants': '3. Variants',
+    'doodleEnhancer.upload': 'Upload Doodle',
+    'doodleEnhancer.generate': 'Generate Story',
+    'doodleEnhancer.generating': 'Generating Story...',
+    'doodleEnhancer.generatingLabel': 'Generating story, please wait',
+    'doodleEnhancer.download': 'Download Story',
+    'doodleEnhancer.original': 'Original Doodle',
+    'doodleEnhancer.originalAlt': 'Original user doodle',
+    'doodleEnhancer.uploadPlaceholder': 'Upload a doodle to see it here.',
+    'doodleEnhancer.result': 'Generated Comic Strip',
+    'doodleEnhancer.resultAlt': 'AI generated comic strip in {style} style',
+    'doodleEnhancer.resultPlaceholder': 'Your generated comic strip will appear here.',
+    'doodleEnhancer.compareBefore': 'Doodle',
+    'doodleEnhancer.compareAfter': 'Comic',
+
+    'posterGenerator.subtitle': 'Describe your needs, optionally add your logo, and our AI will generate three distinct commercial posters.',
+    'posterGenerator.fieldsRequired': 'Please fill out all fields.',
+    'posterGenerator.industry': '1. Industry',
+    'posterGenerator.industryPlaceholder': 'e.g., Cafe, Tech Startup, Fitness',
+    'posterGenerator.elements': '2. Key Visual Elements',
+    'posterGenerator.elementsPlaceholder': 'e.g., A coffee cup, steaming latte art, warm lighting',
+    'posterGenerator.slogan': '3. Slogan / Headline',
+    'posterGenerator.sloganPlaceholder': 'e.g., Your Daily Grind, Perfected',
+    'posterGenerator.style': '4. Desired Style',
+    'posterGenerator.stylePlaceholder': 'e.g., Vintage, Modern minimalist, Bold and colorful',
+    'posterGenerator.logo': '5. Add Your Logo (Optional)',
+    'posterGenerator.uploadLogo': 'Upload Logo',
+    'posterGenerator.generate': 'Generate Posters',
+    'posterGenerator.generating': 'Generating posters...',
+    'posterGenerator.step1of2': 'Step 1/2: Generating posters...',
+    'posterGenerator.step2of2': 'Step 2/2: Adding your logo...',
+    'posterGenerator.logoSkipped': 'The logo could not be added to some posters, so they are shown without it.',
+    'posterGenerator.missingPosters': '{missing} of {requested} posters could not be generated. The others are shown below.',
+    'posterGenerator.option': 'Option {number}',
+    'posterGenerator.optionAlt': 'AI generated poster option {number}',
+    'posterGenerator.resultPlaceholder': 'Your generated posters will appear here.',
+};
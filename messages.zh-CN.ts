@@ -0,0 +1,613 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageKey } from './i18n.js';
+
+export const ZH_CN_MESSAGES: Record<MessageKey, string> = {
+    'app.backToTools': '返回工具列表',
+    'app.language': '语言',
+    'app.loadingTool': '正在加载工具',
+
+    'common.cancel': '取消',
+    'common.delete': '删除',
+    'common.download': '下载',
+    'common.downloadPhoto': '下载照片',
+    'common.generated': '生成结果',
+    'common.generating': '生成中...',
+    'common.generatingLabel': '正在生成，请稍候',
+    'common.no': '否',
+    'common.original': '原图',
+    'common.originalAlt': '用户上传的原图',
+    'common.processing': '正在处理图片',
+    'common.uploadFirst': '请先上传一张图片。',
+    'common.uploadPhoto': '上传照片',
+    'common.uploadPlaceholder': '上传图片后会显示在这里。',
+    'common.yes': '是',
+
+    'errors.cancelled': '请求已取消。',
+    'errors.encodeImage': '无法编码该图片。',
+    'errors.generation': '生成图片时出错：{message}',
+    'errors.generic': '出错了：{message}',
+    'errors.missingVariants': '{requested} 个变体中有 {missing} 个未能生成，其余结果显示在下方。',
+    'errors.timeout': '请求在 {seconds} 秒后超时。',
+    'errors.undecodableImage': '此浏览器无法解码该 {format} 图片。请将其转换为 JPEG 或 PNG 后重试。',
+    'errors.unreadableImage': '无法读取{subject}：{message}',
+    'errors.unsupportedImage': '不支持的文件类型。请上传 JPEG、PNG、WEBP、GIF、BMP 或 AVIF 图片。',
+
+    'tools.idPhoto.title': 'AI 正装证件照生成器',
+    'tools.idPhoto.description': '将日常人像照片变成身着正装的专业证件照。',
+    'tools.outfitChanger.title': 'AI 换装换姿势',
+    'tools.outfitChanger.description': '为照片中的人物更换服装和姿势。选择风格和颜色，见证神奇效果。',
+    'tools.beautyCamera.title': 'AI 美颜相机',
+    'tools.beautyCamera.description': '美化肌肤、优化身形，打造完美又自然的人像照片。',
+    'tools.posterGenerator.title': 'AI 海报生成器',
+    'tools.posterGenerator.description': '只需填写几项简单信息，即可生成三张风格各异的商业海报。',
+    'tools.socialMediaConverter.title': '社交媒体风格转换',
+    'tools.socialMediaConverter.description': '将图片转换为各大社交媒体平台的独特风格。',
+    'tools.doodleEnhancer.title': 'AI 涂鸦故事机',
+    'tools.doodleEnhancer.description': '把孩子的涂鸦变成多格连环漫画故事。',
+
+    'directory.title': 'AI 工具合集',
+    'directory.subtitle': '实用又有趣的 AI 工具合集。选择一个工具开始吧。',
+    'directory.searchPlaceholder': '搜索工具，例如：证件照、漫画、logo',
+    'directory.searchLabel': '搜索工具',
+    'directory.categoryLabel': '按分类筛选',
+    'directory.allCategories': '全部',
+    'directory.noMatches': '没有符合搜索条件的工具。',
+    'directory.historyDescription': '浏览、重新下载并重新打开你用任意工具生成的所有内容。',
+    'directory.usageDescription': '查看每个工具发出的请求数和费用，并设置软预算。',
+    'directory.selectTool': '选择工具：{title}',
+
+    'history.title': '生成历史',
+    'history.subtitle': '浏览你生成过的所有内容，重新下载，或恢复当时的设置重新打开。',
+    'history.loadError': '无法加载历史记录：{message}',
+    'history.deleteError': '无法删除此记录：{message}',
+    'history.filterLabel': '按工具筛选',
+    'history.allTools': '全部工具',
+    'history.loading': '正在加载历史记录',
+    'history.empty': '还没有生成记录。使用工具后，结果会显示在这里。',
+    'history.inputThumbnail': '输入缩略图',
+    'history.output': '输出 {number}',
+    'history.settingsAndPrompt': '设置和提示词',
+    'history.templates': '提示词模板：{templates}',
+    'history.reopen': '重新打开',
+    'history.downloadNumbered': '下载 {number}',
+    'history.deleteEntry': '删除此记录',
+
+    'presets.title': '预设',
+    'presets.presetLabel': '预设',
+    'presets.choose': '选择预设...',
+    'presets.builtIn': '内置',
+    'presets.mine': '我的预设',
+    'presets.load': '加载',
+    'presets.rename': '重命名',
+    'presets.saveName': '保存名称',
+    'presets.newNameLabel': '新的预设名称',
+    'presets.namePlaceholder': '为当前设置命名',
+    'presets.nameLabel': '预设名称',
+    'presets.saveCurrent': '保存当前设置',
+    'presets.export': '导出我的预设',
+    'presets.import': '导入...',
+    'presets.loaded': '已加载“{name}”。',
+    'presets.saved': '已保存“{name}”。',
+    'presets.deleted': '已删除“{name}”。',
+    'presets.importedCount.one': '已导入 {count} 个预设。',
+    'presets.importedCount.other': '已导入 {count} 个预设。',
+    'presets.untitled': '未命名预设',
+    'presets.imported': '导入的预设',
+    'presets.errors.invalidJson': '该文件不是有效的 JSON。',
+    'presets.errors.notPresetFile': '这不是预设文件。',
+    'presets.errors.newerVersion': '这些预设由更新版本的应用导出。请更新后重试。',
+    'presets.errors.otherTool': '这些预设属于其他工具（“{toolId}”）。',
+    'presets.errors.noPresets': '该文件中没有任何预设。',
+    'presets.errors.invalidPreset': '每个预设都需要名称和设置。',
+
+    'candidates.countLabel': '变体数量',
+    'candidates.countDescription': '一次生成多个候选结果，保留最满意的一张。',
+    'candidates.title': '候选结果',
+    'candidates.heading': '候选结果（{count}）',
+    'candidates.keepFavorite': '只保留收藏',
+    'candidates.listLabel': '生成的候选结果',
+    'candidates.select': '选择候选 {number}',
+    'candidates.alt': '{alt}（候选 {number}）',
+    'candidates.favorite': '设为收藏',
+    'candidates.unfavorite': '取消收藏',
+    'candidates.discard': '丢弃',
+
+    'compare.label': '前后对比',
+    'compare.modeLabel': '对比模式',
+    'compare.split': '分屏',
+    'compare.toggle': '切换',
+    'compare.show': '显示{label}',
+    'compare.blink': '闪烁',
+    'compare.stopBlinking': '停止闪烁',
+    'compare.loupe': '像素放大镜',
+    'compare.zoomIn': '放大',
+    'compare.zoomOut': '缩小',
+    'compare.reset': '重置',
+    'compare.divider': '对比分割线',
+    'compare.toggleLabel': '对比切换',
+    'compare.help': '拖动分割线进行对比。滚动鼠标滚轮缩放，放大后可拖动平移。',
+
+    'refinement.title': '细化结果',
+    'refinement.instructionLabel': '描述要对最新结果做的修改',
+    'refinement.instructionPlaceholder': '例如：“把领带颜色调深一点”',
+    'refinement.apply': '应用修改',
+    'refinement.refining': '修改中...',
+    'refinement.undo': '撤销',
+    'refinement.redo': '重做',
+
+    'batch.modeLabel': '处理模式',
+    'batch.single': '单张照片',
+    'batch.batch': '批量',
+    'batch.label': '批量处理',
+    'batch.addPhotos': '添加照片',
+    'batch.addFolder': '添加文件夹',
+    'batch.concurrency': '并行请求数',
+    'batch.stop': '停止',
+    'batch.process.one': '处理 {count} 张照片',
+    'batch.process.other': '处理 {count} 张照片',
+    'batch.retryFailed': '重试失败项（{count}）',
+    'batch.downloadZip': '下载 ZIP',
+    'batch.clear': '清空',
+    'batch.progress': '已完成 {done}/{total}',
+    'batch.progressWithFailures': '已完成 {done}/{total}，失败 {failed}',
+    'batch.resultAlt': '{name} 的处理结果',
+    'batch.status.queued': '排队中',
+    'batch.status.running': '处理中...',
+    'batch.status.done': '已完成',
+    'batch.status.failed': '失败',
+    'batch.attempt': '（第 {count} 次尝试）',
+    'batch.retry': '重试',
+    'batch.remove': '移除',
+    'batch.empty': '添加照片或文件夹以开始批量处理。每张照片都会使用上方的设置处理。',
+
+    'export.title': '导出图片',
+    'export.format': '格式',
+    'export.formatOriginal': '原始格式（{extension}）',
+    'export.quality': '质量：{quality}',
+    'export.size': '尺寸',
+    'export.resize.none': '原始尺寸',
+    'export.resize.width': '指定宽度',
+    'export.resize.print': '打印尺寸',
+    'export.widthLabel': '宽度（像素）',
+    'export.printWidthLabel': '打印宽度（厘米）',
+    'export.dpiLabel': '打印分辨率（DPI）',
+    'export.outputSize': '输出：{width} × {height} 像素',
+    'export.printSize': '打印尺寸 {width} × {height} 毫米（{dpi} DPI）。',
+    'export.resizeDropsDpi': '按像素宽度缩放会失去证件尺寸；如需按规定尺寸打印，请保持原始大小。',
+    'export.fileName': '文件名',
+    'export.fileNamePreview': '将保存为 {fileName}',
+    'export.fileNameHelp': '可用占位符：{tokens}',
+    'export.copy': '复制到剪贴板',
+    'export.close': '关闭',
+    'export.downloaded': '已保存 {fileName}。',
+    'export.copied': '已复制到剪贴板。',
+    'export.prepareFailed': '无法准备图片：{message}',
+
+    'imageInput.dropHint': '也可以把图片拖到这里，或从剪贴板粘贴。',
+    'imageInput.loading': '正在加载图片...',
+    'imageInput.fromUrl': '从网址导入',
+    'imageInput.urlLabel': '图片地址',
+    'imageInput.urlHint': '该网站必须允许跨域下载；否则请先保存图片再上传。',
+    'imageInput.urlFailed': '无法从该地址下载图片（{message}）。',
+    'imageInput.load': '加载',
+    'imageInput.camera': '相机',
+    'imageInput.cameraPreview': '相机预览',
+    'imageInput.cameraFailed': '无法启动相机（{message}）。',
+    'imageInput.capture': '拍照',
+    'imageInput.fromResults': '之前的结果',
+    'imageInput.resultAlt': '来自{tool}的结果',
+    'imageInput.remove': '移除',
+    'imageInput.previewAlt': '已选择的图片',
+    'imageInput.rotateLeft': '向左旋转',
+    'imageInput.rotateRight': '向右旋转',
+    'imageInput.crop': '裁剪',
+    'imageInput.cropHint': '在图片上拖动以选择要保留的区域。',
+    'imageInput.applyCrop': '应用裁剪',
+    'imageInput.resetEdits': '撤销旋转和裁剪',
+
+    'promptInspector.title': '提示词检查器',
+    'promptInspector.override': '为下次生成覆盖',
+    'promptInspector.reset': '恢复为模板',
+    'promptInspector.overrideLabel': '{id} 的提示词文本',
+    'promptInspector.overrideHint': '覆盖内容只替换下一次生成所用的模板文本。标有 * 的版本经过手动修改。',
+    'promptInspector.parts': '请求内容（按顺序）',
+    'promptInspector.imagePart': '图片（{mimeType}，约 {size}）',
+    'promptInspector.textPart': '文本（{count} 个字符）',
+
+    'outcome.success': '模型返回了图片。',
+    'outcome.blockedPrompt': '请求在模型作答前被安全过滤拦截。',
+    'outcome.blockedPromptCategory': '请求在模型作答前被安全过滤拦截（{category}）。',
+    'outcome.blockedResponse': '模型生成了结果，但被安全过滤拦下。',
+    'outcome.blockedResponseCategory': '模型生成了结果，但被安全过滤拦下（{category}）。',
+    'outcome.blockedSuggestion': '请换一张{subject}或使用更温和的设置。原样重试通常会得到相同结果。',
+    'outcome.recitation': '结果与已有内容过于相似，模型已停止生成。',
+    'outcome.recitationSuggestion': '请换一张更有原创性的{subject}，或调整风格设置。',
+    'outcome.textOnly': '模型回复了一段文字而不是图片：“{message}”',
+    'outcome.textOnlySuggestion': '请按回复内容调整，例如更换{subject}，然后再试。',
+    'outcome.empty': '模型结束了生成，但没有返回图片。',
+    'outcome.emptyReason': '模型结束了生成，但没有返回图片（原因：{reason}）。',
+    'outcome.emptySuggestion': '这通常是暂时的。请重试，或换一张更简单的{subject}。',
+    'outcome.details': '响应详情',
+    'outcome.kind': '结果类型',
+    'outcome.finishReason': '结束原因',
+    'outcome.blockReason': '拦截原因',
+    'outcome.safetyRatings': '安全评级',
+    'outcome.ratingBlocked': '已拦截',
+    'outcome.text': '模型文字',
+    'outcome.filterReason': '过滤原因',
+    'outcome.category.HARM_CATEGORY_HARASSMENT': '骚扰',
+    'outcome.category.HARM_CATEGORY_HATE_SPEECH': '仇恨言论',
+    'outcome.category.HARM_CATEGORY_SEXUALLY_EXPLICIT': '色情内容',
+    'outcome.category.HARM_CATEGORY_DANGEROUS_CONTENT': '危险内容',
+    'outcome.category.HARM_CATEGORY_CIVIC_INTEGRITY': '公民诚信',
+
+    'usage.title': '用量与费用',
+    'usage.subtitle': '此浏览器发出的每个请求及其估算费用。这些数据不会发送到任何地方。',
+    'usage.periods': '按时段统计的花费',
+    'usage.today': '今天',
+    'usage.thisMonth': '本月',
+    'usage.allTime': '全部记录',
+    'usage.ofBudget': '预算 {budget}',
+    'usage.noBudget': '未设置预算',
+    'usage.requestCount.one': '{count} 个请求，{images} 张图片',
+    'usage.requestCount.other': '{count} 个请求，{images} 张图片',
+    'usage.empty': '还没有请求记录。运行工具后，用量会显示在这里。',
+    'usage.byDay': '按天（最近 {count} 天）',
+    'usage.byTool': '按工具',
+    'usage.day': '日期',
+    'usage.tool': '工具',
+    'usage.model': '模型',
+    'usage.requests': '请求数',
+    'usage.failed': '失败',
+    'usage.images': '图片',
+    'usage.tokens': '输入 / 输出 token',
+    'usage.cost': '估算费用',
+    'usage.unpricedHint': '部分请求使用的模型没有价格，未计入费用。',
+    'usage.estimateHint': '费用根据下方价格表和模型报告的 token 数估算。重试按单独的请求计算。',
+    'usage.budgets': '软预算',
+    'usage.budgetsHint': '单位为美元。运行前如果预计会超出预算，会先请你确认。留空表示不限制。',
+    'usage.dailyBudget': '每日预算',
+    'usage.monthlyBudget': '每月预算',
+    'usage.saveBudgets': '保存预算',
+    'usage.budgetsSaved': '预算已保存。',
+    'usage.prices': '价格表',
+    'usage.pricesHint': '每个模型每张生成图片以及每百万输入、输出 token 的美元价格。',
+    'usage.price.perImage': '每张图片',
+    'usage.price.perMillionInputTokens': '每百万输入 token',
+    'usage.price.perMillionOutputTokens': '每百万输出 token',
+    'usage.savePrices': '保存价格',
+    'usage.resetPrices': '恢复默认',
+    'usage.pricesSaved': '价格已保存。',
+    'usage.pricesReset': '价格已恢复为默认值。',
+    'usage.clear': '清空用量记录',
+    'usage.clearConfirm': '删除所有请求记录吗？预算和价格会保留。',
+    'usage.cleared': '用量记录已清空。',
+    'usage.budgetWarningDaily': '本次运行预计花费 {estimate}。今天已花费 {spent}，运行后将超出每日预算 {budget}。仍要运行吗？',
+    'usage.budgetWarningMonthly': '本次运行预计花费 {estimate}。本月已花费 {spent}，运行后将超出每月预算 {budget}。仍要运行吗？',
+
+    'beautyCamera.subtitle': '上传一张人像照片，使用下方的高级选项打造完美造型。',
+    'beautyCamera.beautyLevel': '1. 美颜程度',
+    'beautyCamera.faceReshape': '2. 瘦脸：',
+    'beautyCamera.bodySlimming': '3. 瘦身：',
+    'beautyCamera.chestEnhancement': '4. 丰胸：',
+    'beautyCamera.legExtension': '5. 长腿：',
+    'beautyCamera.filter': '6. 滤镜风格',
+    'beautyCamera.variants': '7. 变体数量',
+    'beautyCamera.beautify': '一键美颜',
+    'beautyCamera.beautifying': '美颜中...',
+    'beautyCamera.beautifyingLabel': '正在美颜，请稍候',
+    'beautyCamera.resultAlt': 'AI 美颜后的人像',
+    'beautyCamera.resultPlaceholder': '美颜后的照片会显示在这里。',
+
+    'outfitChanger.subtitle': '上传一张照片，选择服装风格和颜色或添加服装图片，让 AI 为你换装。',
+    'outfitChanger.clothingStyle': '1. 选择服装风格',
+    'outfitChanger.clothingColor': '2. 输入服装颜色',
+    'outfitChanger.colorPlaceholder': '例如：“红色”或“#FF0000”',
+    'outfitChanger.colorRequired': '请输入服装颜色。',
+    'outfitChanger.variants': '3. 变体数量',
+    'outfitChanger.garments': '服装参考图（可选）',
+    'outfitChanger.garmentsHint': '上传商品图（如平铺图或模特架图），即可为人物换上这些服装。',
+    'outfitChanger.garmentsReplaceStyle': '服装将按您上传的参考图生成，不再使用服装风格和颜色。',
+    'outfitChanger.garment.top': '上装',
+    'outfitChanger.garment.bottom': '下装',
+    'outfitChanger.garment.shoes': '鞋子',
+    'outfitChanger.garment.accessory': '配饰',
+    'outfitChanger.selectGarment': '选择图片...',
+    'outfitChanger.generate': '生成新造型',
+    'outfitChanger.resultAlt': 'AI 生成的新服装和姿势图片',
+    'outfitChanger.resultPlaceholder': '生成的图片会显示在这里。',
+
+    'idPhoto.subtitle': '上传一张人像照片，使用下方的高级选项定制你的专业证件照。',
+    'idPhoto.portraitRequired': '请先上传一张人像照片。',
+    'idPhoto.uploads': '上传图片',
+    'idPhoto.portrait': '1. 人像（必填）',
+    'idPhoto.selectPortrait': '选择人像...',
+    'idPhoto.background': '2. 背景（可选）',
+    'idPhoto.selectBackground': '选择背景...',
+    'idPhoto.backgroundDefault': '未上传图片时，背景为纯色 {color}。',
+    'idPhoto.backgroundColor': '背景颜色',
+    'idPhoto.backgroundColor.spec': '证件默认',
+    'idPhoto.backgroundColor.white': '白色',
+    'idPhoto.backgroundColor.light-grey': '浅灰色',
+    'idPhoto.backgroundColor.blue': '蓝色',
+    'idPhoto.backgroundColor.red': '红色',
+    'idPhoto.brooch': '3. 胸针（可选）',
+    'idPhoto.selectBrooch': '选择胸针...',
+    'idPhoto.broochDefault': '默认：不佩戴胸针',
+    'idPhoto.attire': '服装定制',
+    'idPhoto.attireStyle': '服装',
+    'idPhoto.attire.suit': '西装衬衫',
+    'idPhoto.attire.suit.description': '正装西装外套搭配衬衫，可选是否系领带。',
+    'idPhoto.attire.blazer-blouse': '西装外套配女士衬衫',
+    'idPhoto.attire.blazer-blouse.description': '修身西装外套搭配素色女士衬衫。',
+    'idPhoto.attire.high-neck': '高领上衣',
+    'idPhoto.attire.high-neck.description': '素色高领或半高领上衣。',
+    'idPhoto.attire.uniform': '制服',
+    'idPhoto.attire.uniform.description': '由您描述的校服、工作服或职业制服。',
+    'idPhoto.attire.head-covering': '宗教头饰',
+    'idPhoto.attire.head-covering.description': '完全保留头饰原样，并在其下方搭配素净端庄的服装。',
+    'idPhoto.attire.original': '保留原有服装',
+    'idPhoto.attire.original.description': '不改变人像中的服装。',
+    'idPhoto.attireField.suitColor': '西装颜色',
+    'idPhoto.attireField.shirtColor': '衬衫颜色',
+    'idPhoto.attireField.hasTie': '是否系领带？',
+    'idPhoto.attireField.tieColor': '领带颜色',
+    'idPhoto.attireField.blazerColor': '西装外套颜色',
+    'idPhoto.attireField.blouseColor': '女士衬衫颜色',
+    'idPhoto.attireField.topColor': '上衣颜色',
+    'idPhoto.attireField.uniform': '制服',
+    'idPhoto.attireField.garmentColor': '服装颜色',
+    'idPhoto.variants': '变体数量',
+    'idPhoto.generate': '生成证件照',
+    'idPhoto.resultAlt': 'AI 生成的正装证件照',
+    'idPhoto.resultPlaceholder': '生成的证件照会显示在这里。',
+    'idPhoto.spec': '证件尺寸',
+    'idPhoto.spec.us-2x2': '美国护照 / 签证（2 × 2 英寸）',
+    'idPhoto.spec.schengen-35x45': '申根签证（35 × 45 毫米）',
+    'idPhoto.spec.uk-35x45': '英国护照（35 × 45 毫米）',
+    'idPhoto.spec.china-1-inch': '中国一寸（25 × 35 毫米）',
+    'idPhoto.spec.china-2-inch': '中国二寸（35 × 49 毫米）',
+    'idPhoto.spec.japan-30x40': '日本履历书 / 证件（30 × 40 毫米）',
+    'idPhoto.specDetails': '{width} × {height} 毫米，{pixelWidth} × {pixelHeight} 像素，{dpi} DPI。头部占高度的 {headMin}-{headMax}%。',
+    'idPhoto.framing': '裁剪为{spec}',
+    'idPhoto.framingHint': '调整到面部填满椭圆、眼睛位于阴影带内。',
+    'idPhoto.framingFailed': '无法裁剪照片：{message}',
+    'idPhoto.zoom': '缩放',
+    'idPhoto.offsetX': '左右位置',
+    'idPhoto.offsetY': '上下位置',
+    'idPhoto.resetFraming': '重置裁剪',
+    'idPhoto.specResultAlt': '裁剪为{spec}的证件照',
+    'idPhoto.compliance.title': '合规检查',
+    'idPhoto.compliance.intro': '按{spec}的要求检查照片：背景依据像素分析，面部依据模型分析。',
+    'idPhoto.compliance.overBudget': '分析面部会超出您的用量预算，因此未进行检查。如仍要检查，请点击“重新检查”。',
+    'idPhoto.compliance.checking': '正在检查照片…',
+    'idPhoto.compliance.failed': '无法检查照片：{message}',
+    'idPhoto.compliance.allPassed': '全部检查通过。',
+    'idPhoto.compliance.summary.one': '{count} 项检查未通过。',
+    'idPhoto.compliance.summary.other': '{count} 项检查未通过。',
+    'idPhoto.compliance.column.check': '检查项',
+    'idPhoto.compliance.column.measured': '测量值',
+    'idPhoto.compliance.column.expected': '要求',
+    'idPhoto.compliance.column.result': '结果',
+    'idPhoto.compliance.check.faceBox': '面部位置',
+    'idPhoto.compliance.check.headSize': '头部大小',
+    'idPhoto.compliance.check.eyeLine': '眼睛高度',
+    'idPhoto.compliance.check.centering': '居中',
+    'idPhoto.compliance.check.backgroundUniformity': '背景均匀度',
+    'idPhoto.compliance.check.backgroundColor': '背景颜色',
+    'idPhoto.compliance.check.shadows': '背景阴影',
+    'idPhoto.compliance.check.glare': '眼镜反光',
+    'idPhoto.compliance.status.pass': '通过',
+    'idPhoto.compliance.status.fail': '未通过',
+    'idPhoto.compliance.status.skipped': '不适用',
+    'idPhoto.compliance.fix': '修正',
+    'idPhoto.compliance.fixAll': '全部修正',
+    'idPhoto.compliance.fixing': '正在修正…',
+    'idPhoto.compliance.fixStep': '合规修正：{checks}',
+    'idPhoto.compliance.recheck': '重新检查',
+    'idPhoto.compliance.faceBoxMeasured': '头部位于横向 {left}–{right}，纵向 {crown}–{chin}',
+    'idPhoto.compliance.faceBoxExpected': '整个头部在画面内',
+    'idPhoto.compliance.noFace': '未找到面部',
+    'idPhoto.compliance.offsetLeft': '偏左 {offset}',
+    'idPhoto.compliance.offsetRight': '偏右 {offset}',
+    'idPhoto.compliance.atMost': '不超过 {value}',
+    'idPhoto.compliance.shadowMeasured': '最暗区域比平均暗 {depth}',
+    'idPhoto.compliance.noBackground': '看不到背景',
+    'idPhoto.compliance.customBackground': '上传的背景',
+    'idPhoto.compliance.glareExpected': '双眼清晰可见',
+    'idPhoto.compliance.noGlasses': '未戴眼镜',
+    'idPhoto.compliance.glareMeasured': '戴眼镜，亮斑占 {share}',
+    'idPhoto.compliance.glareReported': '眼镜有反光，亮斑占 {share}',
+
+    'printSheet.title': '打印排版',
+    'printSheet.paper': '纸张',
+    'printSheet.paper.4x6in': '4 × 6 英寸相纸',
+    'printSheet.paper.5x7in': '5 × 7 英寸相纸',
+    'printSheet.paper.a4': 'A4（210 × 297 毫米）',
+    'printSheet.paper.letter': '美式信纸（8.5 × 11 英寸）',
+    'printSheet.orientation': '方向',
+    'printSheet.portrait': '纵向',
+    'printSheet.landscape': '横向',
+    'printSheet.copies': '张数：{spec}',
+    'printSheet.fill': '铺满',
+    'printSheet.secondSize': '第二种尺寸（可选）',
+    'printSheet.secondSizeNone': '无',
+    'printSheet.margin': '页边距（毫米）',
+    'printSheet.spacing': '间距（毫米）',
+    'printSheet.cutMarks': '裁切线',
+    'printSheet.summary': '共 {count} 张照片，以 {dpi} DPI 导出。',
+    'printSheet.overflow.one': '有 {count} 张放不下。',
+    'printSheet.overflow.other': '有 {count} 张放不下。',
+    'printSheet.previewAlt': '包含 {count} 张照片的打印排版预览',
+    'printSheet.downloadPng': '下载 PNG',
+    'printSheet.downloadPdf': '下载 PDF',
+    'printSheet.failed': '无法生成打印排版：{message}',
+
+    'socialMediaConverter.subtitle': '上传一张照片，选择平台，让 AI 将其转换为最合适的风格。',
+    'socialMediaConverter.platform': '1. 选择目标平台',
+    'socialMediaConverter.variants': '2. 变体数量',
+    'socialMediaConverter.convert': '转换风格',
+    'socialMediaConverter.converting': '转换中...',
+    'socialMediaConverter.convertingLabel': '正在转换，请稍候',
+    'socialMediaConverter.resultHeading': '{platform}风格',
+    'socialMediaConverter.resultAlt': 'AI 生成的{platform}风格图片',
+    'socialMediaConverter.resultPlaceholder': '转换后的图片会显示在这里。',
+
+    'doodleEnhancer.subtitle': '把涂鸦变成连环漫画。上传一幅画，选择艺术风格和漫画格数。',
+    'doodleEnhancer.doodleRequired': '请先上传一幅涂鸦。',
+    'doodleEnhancer.artStyle': '1. 选择艺术风格',
+    'doodleEnhancer.panelCount': '2. 漫画格数（{min}-{max}）',
+    'doodleEnhancer.variants': '3. 变体数量',
+    'doodleEnhancer.upload': '上传涂鸦',
+    'doodleEnhancer.generate': '生成故事',
+    'doodleEnhancer.generating': '故事生成中...',
+    'doodleEnhancer.generatingLabel': '正在生成故事，请稍候',
+    'doodleEnhancer.download': '下载故事',
+    'doodleEnhancer.original': '原始涂鸦',
+    'doodleEnhancer.originalAlt': '用户上传的原始涂鸦',
+    'doodleEnhancer.uploadPlaceholder': '上传涂鸦后会显示在这里。',
+    'doodleEnhancer.result': '生成的连环漫画',
+    'doodleEnhancer.resultAlt': 'AI 生成的{style}风格连环漫画',
+    'doodleEnhancer.resultPlaceholder': '生成的连环漫画会显示在这里。',
+    'doodleEnhancer.compareBefore': '涂鸦',
+    'doodleEnhancer.compareAfter': '漫画',
+
+    'posterGenerator.subtitle': '描述你的需求，可选添加 logo，AI 将为你生成三张不同的商业海报。',
+    'posterGenerator.fieldsRequired': '请填写所有字段。',
+    'posterGenerator.industry': '1. 行业',
+    'posterGenerator.industryPlaceholder': '例如：咖啡馆、科技初创、健身',
+    'posterGenerator.elements': '2. 关键视觉元素',
+    'posterGenerator.elementsPlaceholder': '例如：一杯咖啡、冒着热气的拿铁拉花、温暖的灯光',
+    'posterGenerator.slogan': '3. 标语 / 标题',
+    'posterGenerator.sloganPlaceholder': '例如：每日好咖啡，精益求精',
+    'posterGenerator.style': '4. 期望风格',
+    'posterGenerator.stylePlaceholder': '例如：复古、现代简约、大胆多彩',
+    'posterGenerator.logo': '5. 添加 logo（可选）',
+    'posterGenerator.uploadLogo': '上传 logo',
+    'posterGenerator.generate': '生成海报',
+    'posterGenerator.generating': '海报生成中...',
+    'posterGenerator.step1of2': '第 1/2 步：生成海报...',
+    'posterGenerator.step2of2': '第 2/2 步：添加你的 logo...',
+    'posterGenerator.logoSkipped': '部分海报未能添加标志，因此以无标志版本显示。',
+    'posterGenerator.missingPosters': '{requested} 张海报中有 {missing} 张未能生成，其余结果显示在下方。',
+    'posterGenerator.option': '方案 {number}',
+    'posterGenerator.optionAlt': 'AI 生成的海报方案 {number}',
+    'posterGenerator.resultPlaceholder': '生成的海报会显示在这里。',
+};
+
+// Labels for the English values tools send to the model, grouped as in `optionLabel`.
+export const ZH_CN_OPTION_LABELS: Record<string, Record<string, string>> = {
+    category: {
+        Portrait: '人像',
+        Marketing: '营销',
+        Creative: '创意',
+    },
+    beautyLevel: {
+        Natural: '自然',
+        'Clear Skin': '净肤',
+        Makeup: '妆容',
+        Enhanced: '增强',
+        Glamour: '魅力',
+        Subtle: '轻微',
+    },
+    filter: {
+        None: '无',
+        Fresh: '清新',
+        Vintage: '复古',
+        'Black & White': '黑白',
+        Cinematic: '电影感',
+        Retro: '怀旧',
+        'Cool Tone': '冷色调',
+    },
+    clothingStyle: {
+        Sportswear: '运动装',
+        'Evening Gown': '晚礼服',
+        'Business Suit': '商务西装',
+        'Casual Wear': '休闲装',
+    },
+    platform: {
+        Xiaohongshu: '小红书',
+        Instagram: 'Instagram',
+        Facebook: 'Facebook',
+        LinkedIn: '领英',
+    },
+    artStyle: {
+        Byzantine: '拜占庭',
+        Gothic: '哥特',
+        Renaissance: '文艺复兴',
+        Baroque: '巴洛克',
+        Rococo: '洛可可',
+        Neoclassicism: '新古典主义',
+        Romanticism: '浪漫主义',
+        Realism: '现实主义',
+        Impressionism: '印象派',
+        'Post-Impressionism': '后印象派',
+        Fauvism: '野兽派',
+        Cubism: '立体主义',
+        Expressionism: '表现主义',
+        Surrealism: '超现实主义',
+        'Abstract Expressionism': '抽象表现主义',
+        'Pop Art': '波普艺术',
+        'Art Nouveau': '新艺术运动',
+        'Ukiyo-e': '浮世绘',
+        'Street Art': '街头艺术',
+        Minimalism: '极简主义',
+        Psychedelic: '迷幻',
+        'De Stijl': '风格派',
+        Futurism: '未来主义',
+    },
+    subject: {
+        photo: '照片',
+        image: '图片',
+        doodle: '涂鸦',
+        instruction: '指令',
+        description: '描述',
+        logo: 'logo',
+        'portrait image': '人像图片',
+        'background image': '背景图片',
+        'brooch image': '胸针图片',
+        'top reference image': '上装参考图',
+        'bottom reference image': '下装参考图',
+        'shoes reference image': '鞋子参考图',
+        'accessory reference image': '配饰参考图',
+    },
+    presetName: {
+        'Natural Touch-up': '自然修饰',
+        'Glamour Portrait': '魅力人像',
+        'Retro Film': '怀旧胶片',
+        'Office Ready': '职场通勤',
+        'Gala Night': '晚宴之夜',
+        'Weekend Casual': '周末休闲',
+        'Classic Business': '经典商务',
+        'Modern Open Collar': '现代无领带',
+        'Navy and Burgundy': '藏青配酒红',
+        'Blazer on Blue': '蓝底西装外套',
+        'Own Clothes on Red': '红底原装',
+        'Professional Profile': '职业形象',
+        'Lifestyle Blog': '生活博主',
+        'Feed Favorites': '动态精选',
+        'Classic Comic Strip': '经典连环画',
+        'Woodblock Story': '木刻故事',
+        'Dream Sequence': '梦境序列',
+        'Cafe Opening': '咖啡馆开业',
+        'Fitness Challenge': '健身挑战',
+        'Summer Sale': '夏季促销',
+    },
+    refinementSuggestion: {
+        'Make the tie a bit darker': '把领带颜色调深一点',
+        'Keep the original background': '保留原来的背景',
+        'Straighten the collar': '把衣领整理平整',
+        'Make the color a bit darker': '把颜色调深一点',
+        'Make the fit a little looser': '让衣服稍微宽松一点',
+        'Straighten the lapels': '把翻领整理平整',
+        'Make the blazer a bit darker': '把西装外套颜色调深一点',
+        'Smooth the collar around the neck': '把领口整理服帖',
+        'Straighten the insignia': '把徽章摆正',
+        'Show a little more of the forehead': '多露出一点额头',
+        'Even out the lighting on the face': '让脸部光线更均匀',
+    },
+};
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    ApiError,
+    BlockedReason,
+    FinishReason,
+    GenerateContentParameters,
+    GenerateContentResponse,
+    GenerateImagesResponse,
+    HarmCategory,
+    HarmProbability,
+    Part,
+} from "@google/genai";
+import type { GenAIModelsClient } from './geminiProvider.js';
+
+// How the stand-in backend should misbehave. 'none' answers every request with an image.
+export type MockFailureMode = 'none' | 'no-image' | 'safety' | 'prompt-blocked' | 'recitation' | 'empty' | 'rate-limit' | 'timeout';
+export const MOCK_FAILURE_MODES: MockFailureMode[] = ['none', 'no-image', 'safety', 'prompt-blocked', 'recitation', 'empty', 'rate-limit', 'timeout'];
+
+export interface MockBackendOptions {
+    failureMode?: MockFailureMode;
+    // Simulated network latency applied to every request.
+    latencyMs?: number;
+    // How long a request hangs before failing in 'timeout' mode.
+    hangMs?: number;
+}
+
+const PLACEHOLDER_COLORS = ['#4a90e2', '#e94b3c', '#50b86c', '#f5a623', '#9b59b6', '#16a085', '#d35400', '#2c3e50'];
+
+// A small deterministic hash so the same prompt always yields the same colours.
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const colorFor = (seed: string, offset: number = 0): string =>
+    PLACEHOLDER_COLORS[(hashString(seed) + offset) % PLACEHOLDER_COLORS.length];
+
+const escapeXml = (value: string): string =>
+    value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const toBase64 = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    bytes.forEach(b => { crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8); });
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number): number[] => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const pngChunk = (type: string, data: number[]): number[] => {
+    const body = new Uint8Array([...type].map(c => c.charCodeAt(0)).concat(data));
+    return [...uint32(data.length), ...body, ...uint32(crc32(body))];
+};
+
+// A solid-colour PNG, written without a canvas: the pixels go into a single uncompressed deflate
+// block, so it has to stay small (at most 64 KiB of pixel data).
+const solidPng = (color: string, width: number, height: number): string => {
+    const rgb = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+    const row = [0, ...Array.from({ length: width }, () => rgb).flat()];
+    const pixels = Array.from({ length: height }, () => row).flat();
+    let a = 1;
+    let b = 0;
+    pixels.forEach(byte => {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+    });
+    const zlib = [0x78, 0x01, 0x01, pixels.length & 0xff, pixels.length >>> 8, ~pixels.length & 0xff, (~pixels.length >>> 8) & 0xff, ...pixels, ...uint32(((b << 16) | a) >>> 0)];
+    const png = [
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+        ...pngChunk('IHDR', [...uint32(width), ...uint32(height), 8, 2, 0, 0, 0]),
+        ...pngChunk('IDAT', zlib),
+        ...pngChunk('IEND', []),
+    ];
+    return btoa(String.fromCharCode(...png));
+};
+
+// A labeled SVG placeholder. It is used for text-to-image requests and whenever a canvas is unavailable.
+// Outside the browser (the mock behind the API server) it is a plain PNG in the same colour instead,
+// at a fiftieth of the size, because the proxy only accepts JPEG, PNG and WebP when it is sent back.
+export const createPlaceholderImage = (label: string, seed: string, width: number = 600, height: number = 800) => {
+    if (typeof document === 'undefined') {
+        return { data: solidPng(colorFor(seed), Math.ceil(width / 50), Math.ceil(height / 50)), mimeType: 'image/png' };
+    }
+    const caption = escapeXml(seed.replace(/\s+/g, ' ').slice(0, 60));
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<rect width="100%" height="100%" fill="${colorFor(seed)}"/>`
+        + `<rect x="${width * 0.1}" y="${height * 0.1}" width="${width * 0.8}" height="${height * 0.8}" fill="none" stroke="#fff" stroke-width="6" stroke-dasharray="18 12"/>`
+        + `<text x="50%" y="48%" font-family="sans-serif" font-size="36" font-weight="bold" fill="#fff" text-anchor="middle">${escapeXml(label)}</text>`
+        + `<text x="50%" y="56%" font-family="sans-serif" font-size="16" fill="#fff" text-anchor="middle">${caption}</text>`
+        + `</svg>`;
+    return { data: toBase64(svg), mimeType: 'image/svg+xml' };
+};
+
+// Returns the input image with a translucent tint derived from the prompt, so edits are visibly
+// "applied" while staying deterministic. Falls back to a placeholder outside the browser.
+const tintImage = async (data: string, mimeType: string, seed: string) => {
+    if (typeof document === 'undefined' || typeof createImageBitmap === 'undefined') {
+        return createPlaceholderImage('Mock edit', seed);
+    }
+    try {
+        const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+        const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(bitmap, 0, 0);
+        ctx.globalAlpha = 0.25;
+        ctx.fillStyle = colorFor(seed);
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#fff';
+        ctx.font = `bold ${Math.max(14, Math.round(canvas.width / 30))}px sans-serif`;
+        ctx.fillText('MOCK', 12, canvas.height - 12);
+        bitmap.close();
+        return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+    } catch {
+        return createPlaceholderImage('Mock edit', seed);
+    }
+};
+
+const collectParts = (contents: GenerateContentParameters['contents']): Part[] => {
+    const list = Array.isArray(contents) ? contents : [contents];
+    return list.flatMap(item => {
+        if (typeof item === 'string') {
+            return [{ text: item }];
+        }
+        if (item && typeof item === 'object' && 'parts' in item) {
+            return item.parts ?? [];
+        }
+        return [item as Part];
+    });
+};
+
+// Token counts in the shape Gemini reports them: a fixed cost per input image, roughly four
+// characters per text token.
+const MOCK_IMAGE_TOKENS = 1290;
+const MOCK_INPUT_IMAGE_TOKENS = 258;
+
+const usageFor = (parts: Part[], outputTokens: number) => {
+    const promptTokenCount = parts.reduce((total, p) =>
+        total + (p.inlineData ? MOCK_INPUT_IMAGE_TOKENS : Math.ceil((p.text ?? '').length / 4)), 0);
+    return { promptTokenCount, candidatesTokenCount: outputTokens, totalTokenCount: promptTokenCount + outputTokens };
+};
+
+// The plainest answer that satisfies a JSON Schema: the middle of a number's range, false, the
+// first allowed string, one array item. Enough to drive an analysis through the real parsing.
+export const sampleFromSchema = (schema: unknown): unknown => {
+    const node = (schema ?? {}) as { type?: string; properties?: Record<string, unknown>; items?: unknown; enum?: unknown[]; minimum?: number; maximum?: number };
+    if (node.enum?.length) {
+        return node.enum[0];
+    }
+    switch (node.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(node.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+        case 'array':
+            return [sampleFromSchema(node.items)];
+        case 'number':
+        case 'integer':
+            return ((node.minimum ?? 0) + (node.maximum ?? 1)) / 2;
+        case 'boolean':
+            return false;
+        case 'string':
+            return 'mock';
+        default:
+            return null;
+    }
+};
+
+// The abort listener is removed once the timer fires, so a long-lived signal does not collect them.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(Object.assign(new Error('The operation was aborted. [mock]'), { name: 'AbortError' }));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A stand-in for `ai.models` that answers locally. Plug it into `createGeminiProvider` so the
+// real response handling is exercised without a key or network access.
+export const createMockModelsClient = ({ failureMode = 'none', latencyMs = 800, hangMs = 120000 }: MockBackendOptions = {}): GenAIModelsClient => {
+    const simulateTransport = async (signal?: AbortSignal) => {
+        await delay(latencyMs, signal);
+        if (failureMode === 'rate-limit') {
+            throw new ApiError({ message: 'Resource has been exhausted (e.g. check quota). [mock]', status: 429 });
+        }
+        if (failureMode === 'timeout') {
+            await delay(hangMs, signal);
+            throw new ApiError({ message: 'Deadline exceeded. [mock]', status: 504 });
+        }
+    };
+
+    return {
+        async generateContent(params) {
+            await simulateTransport(params.config?.abortSignal);
+            const parts = collectParts(params.contents);
+            const prompt = parts.map(p => p.text ?? '').join('\n');
+
+            if (failureMode === 'safety') {
+                return Object.assign(new GenerateContentResponse(), {
+                    candidates: [{
+                        finishReason: FinishReason.SAFETY,
+                        safetyRatings: [{ category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, probability: HarmProbability.HIGH, blocked: true }],
+                    }],
+                });
+            }
+            if (failureMode === 'prompt-blocked') {
+                return Object.assign(new GenerateContentResponse(), {
+                    promptFeedback: {
+                        blockReason: BlockedReason.SAFETY,
+                        safetyRatings: [{ category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, probability: HarmProbability.MEDIUM, blocked: true }],
+                    },
+                });
+            }
+            if (failureMode === 'recitation') {
+                return Object.assign(new GenerateContentResponse(), {
+                    candidates: [{ finishReason: FinishReason.RECITATION }],
+                });
+            }
+            if (failureMode === 'empty') {
+                return Object.assign(new GenerateContentResponse(), {
+                    candidates: [{ finishReason: FinishReason.NO_IMAGE, content: { role: 'model', parts: [] } }],
+                });
+            }
+            if (failureMode === 'no-image') {
+                return Object.assign(new GenerateContentResponse(), {
+                    candidates: [{
+                        finishReason: FinishReason.STOP,
+                        content: { role: 'model', parts: [{ text: 'I cannot edit this image. [mock]' }] },
+                    }],
+                    usageMetadata: usageFor(parts, 12),
+                });
+            }
+
+            if (params.config?.responseMimeType === 'application/json') {
+                return Object.assign(new GenerateContentResponse(), {
+                    candidates: [{
+                        finishReason: FinishReason.STOP,
+                        content: { role: 'model', parts: [{ text: JSON.stringify(sampleFromSchema(params.config.responseJsonSchema)) }] },
+                    }],
+                    usageMetadata: usageFor(parts, 60),
+                });
+            }
+
+            // Tint the last image in the request; with several inputs that is the freshest one.
+            const input = [...parts].reverse().find(p => p.inlineData?.data)?.inlineData;
+            const image = input
+                ? await tintImage(input.data!, input.mimeType || 'image/png', prompt)
+                : createPlaceholderImage('Mock image', prompt);
+
+            return Object.assign(new GenerateContentResponse(), {
+                candidates: [{
+                    finishReason: FinishReason.STOP,
+                    content: { role: 'model', parts: [{ inlineData: image }] },
+                }],
+                usageMetadata: usageFor(parts, MOCK_IMAGE_TOKENS),
+            });
+        },
+
+        async generateImages(params) {
+            await simulateTransport(params.config?.abortSignal);
+            const count = params.config?.numberOfImages ?? 1;
+
+            if (failureMode !== 'none') {
+                return Object.assign(new GenerateImagesResponse(), {
+                    generatedImages: failureMode === 'safety' || failureMode === 'prompt-blocked'
+                        ? [{ raiFilteredReason: 'The prompt was blocked by the mock safety filter.' }]
+                        : [],
+                });
+            }
+
+            return Object.assign(new GenerateImagesResponse(), {
+                generatedImages: Array.from({ length: count }, (_, index) => {
+                    const image = createPlaceholderImage(`Mock image ${index + 1}`, `${params.prompt}#${index}`);
+                    return { image: { imageBytes: image.data, mimeType: image.mimeType } };
+                }),
+            });
+        },
+    };
+};
+
+export const parseMockFailureMode = (value: string | undefined): MockFailureMode =>
+    MOCK_FAILURE_MODES.includes(value as MockFailureMode) ? value as MockFailureMode : 'none';
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createImagePdf } from './pdf.js';
+
+// Only the structure is checked here, so any bytes will do for the image.
+const JPEG = Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]);
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe('createImagePdf', () => {
+    const pdf = createImagePdf({ jpeg: JPEG, pixelWidth: 1200, pixelHeight: 1800, pageWidth: 288, pageHeight: 432 });
+    const text = latin1(pdf);
+
+    it('sizes the page and the image as given', () => {
+        expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(text).toContain('/MediaBox [0 0 288 432]');
+        expect(text).toContain('/Width 1200 /Height 1800');
+        expect(text).toContain('/Filter /DCTDecode /Length 4 >>');
+        expect(text).toContain('q 288 0 0 432 0 0 cm /Im0 Do Q');
+        expect(text.endsWith('%%EOF\n')).toBe(true);
+    });
+
+    it('points every cross-reference entry at its object', () => {
+        const startxref = Number(/startxref\n(\d+)\n/.exec(text)![1]);
+        expect(text.slice(startxref, startxref + 4)).toBe('xref');
+        const entries = [...text.slice(startxref).matchAll(/(\d{10}) 00000 n /g)].map(match => Number(match[1]));
+        expect(entries).toHaveLength(5);
+        entries.forEach((offset, index) => {
+            expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+        });
+    });
+
+    it('keeps fractional page sizes to two decimals', () => {
+        const a4 = latin1(createImagePdf({ jpeg: JPEG, pixelWidth: 1, pixelHeight: 1, pageWidth: 595.2755905, pageHeight: 841.8897638 }));
+        expect(a4).toContain('/MediaBox [0 0 595.28 841.89]');
+    });
+});
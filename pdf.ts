@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const POINTS_PER_INCH = 72;
+
+export interface ImagePdfOptions {
+    // A baseline JPEG in RGB, embedded as is.
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    // Page size in points.
+    pageWidth: number;
+    pageHeight: number;
+}
+
+const number = (value: number): string => String(Math.round(value * 100) / 100);
+
+// Builds a single-page PDF with the JPEG stretched over the whole page. The JPEG is stored with
+// its own compression (DCTDecode), so its pixels reach the printer unchanged.
+export const createImagePdf = ({ jpeg, pixelWidth, pixelHeight, pageWidth, pageHeight }: ImagePdfOptions): Uint8Array => {
+    const encoder = new TextEncoder();
+    const width = number(pageWidth);
+    const height = number(pageHeight);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    const objects: (string | Uint8Array)[][] = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+        [
+            `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+            jpeg,
+            '\nendstream',
+        ],
+        [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    ];
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    // The comment with high bytes marks the file as binary for transfer tools.
+    write('%PDF-1.4\n');
+    write(Uint8Array.from([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+    const offsets = objects.map((parts, index) => {
+        const offset = length;
+        write(`${index + 1} 0 obj\n`);
+        parts.forEach(write);
+        write('\nendobj\n');
+        return offset;
+    });
+
+    const xref = length;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+        pdf.set(chunk, position);
+        position += chunk.length;
+    }
+    return pdf;
+};
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolSettings, SettingsValue } from './toolSettings.js';
+import { t } from './i18n.js';
+
+// A named set of a tool's settings. Built-in presets ship with the tool and cannot be changed.
+export interface Preset {
+    id: string;
+    toolId: string;
+    name: string;
+    settings: Partial<ToolSettings>;
+    builtIn: boolean;
+    updatedAt: number;
+}
+
+// The shape a tool declares its built-in presets in.
+export interface PresetDefinition<S extends ToolSettings> {
+    name: string;
+    settings: Partial<S>;
+}
+
+// The JSON file shared between teammates. `version` is bumped whenever the format changes
+// incompatibly; older files keep importing.
+export interface PresetFile {
+    format: typeof PRESET_FILE_FORMAT;
+    version: number;
+    toolId: string;
+    exportedAt: string;
+    presets: { name: string; settings: Partial<ToolSettings> }[];
+}
+
+export const PRESET_FILE_FORMAT = 'ai-tool-collection-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'ai-tool-collection.presets';
+
+export class PresetImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PresetImportError';
+    }
+}
+
+const readAll = (): Preset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+const writeAll = (presets: Preset[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const builtInPresets = <S extends ToolSettings>(toolId: string, definitions: PresetDefinition<S>[]): Preset[] =>
+    definitions.map((definition, index) => ({
+        id: `builtin:${toolId}:${index}`,
+        toolId,
+        name: definition.name,
+        settings: definition.settings,
+        builtIn: true,
+        updatedAt: 0,
+    }));
+
+// The user's own presets for a tool, most recently changed first.
+export const listPresets = (toolId: string): Preset[] =>
+    readAll()
+        .filter(preset => preset.toolId === toolId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+// Appends " (2)", " (3)", ... until `name` no longer clashes with one of the tool's presets.
+const uniqueName = (toolId: string, name: string, presets: Preset[]): string => {
+    const taken = new Set(presets.filter(preset => preset.toolId === toolId).map(preset => preset.name));
+    let candidate = name;
+    for (let n = 2; taken.has(candidate); n++) {
+        candidate = `${name} (${n})`;
+    }
+    return candidate;
+};
+
+export const savePreset = (toolId: string, name: string, settings: ToolSettings): Preset => {
+    const presets = readAll();
+    const preset: Preset = {
+        id: crypto.randomUUID(),
+        toolId,
+        name: uniqueName(toolId, name.trim() || t('presets.untitled'), presets),
+        settings,
+        builtIn: false,
+        updatedAt: Date.now(),
+    };
+    writeAll([...presets, preset]);
+    return preset;
+};
+
+export const renamePreset = (id: string, name: string) => {
+    const presets = readAll();
+    const preset = presets.find(candidate => candidate.id === id);
+    if (!preset || !name.trim() || preset.name === name.trim()) {
+        return;
+    }
+    const renamed = { ...preset, name: uniqueName(preset.toolId, name.trim(), presets), updatedAt: Date.now() };
+    writeAll(presets.map(candidate => candidate.id === id ? renamed : candidate));
+};
+
+export const deletePreset = (id: string) => {
+    writeAll(readAll().filter(preset => preset.id !== id));
+};
+
+export const exportPresets = (toolId: string, presets: Preset[]): string => {
+    const file: PresetFile = {
+        format: PRESET_FILE_FORMAT,
+        version: PRESET_FILE_VERSION,
+        toolId,
+        exportedAt: new Date().toISOString(),
+        presets: presets.map(({ name, settings }) => ({ name, settings })),
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const isSettingsValue = (value: unknown): value is SettingsValue =>
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+// Validates a preset file for `toolId`. Values are only checked for shape here; they are
+// clamped to the tool's limits when a preset is applied.
+export const parsePresetFile = (text: string, toolId: string): PresetFile['presets'] => {
+    let file: Partial<PresetFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new PresetImportError(t('presets.errors.invalidJson'));
+    }
+    if (file?.format !== PRESET_FILE_FORMAT || typeof file.version !== 'number') {
+        throw new PresetImportError(t('presets.errors.notPresetFile'));
+    }
+    if (file.version > PRESET_FILE_VERSION) {
+        throw new PresetImportError(t('presets.errors.newerVersion'));
+    }
+    if (file.toolId !== toolId) {
+        throw new PresetImportError(t('presets.errors.otherTool', { toolId: String(file.toolId) }));
+    }
+    if (!Array.isArray(file.presets)) {
+        throw new PresetImportError(t('presets.errors.noPresets'));
+    }
+    return file.presets.map(entry => {
+        if (typeof entry?.name !== 'string' || typeof entry.settings !== 'object' || entry.settings === null) {
+            throw new PresetImportError(t('presets.errors.invalidPreset'));
+        }
+        const settings = Object.fromEntries(Object.entries(entry.settings).filter(([, value]) => isSettingsValue(value)));
+        return { name: entry.name, settings };
+    });
+};
+
+// Adds imported presets, renaming any whose name is already taken.
+export const importPresets = (toolId: string, entries: PresetFile['presets']): Preset[] => {
+    const presets = readAll();
+    const imported = entries.map((entry, index) => {
+        const preset: Preset = {
+            id: crypto.randomUUID(),
+            toolId,
+            name: uniqueName(toolId, entry.name.trim() || t('presets.imported'), presets),
+            settings: entry.settings,
+            builtIn: false,
+            updatedAt: Date.now() - index,
+        };
+        presets.push(preset);
+        return preset;
+    });
+    writeAll(presets);
+    return imported;
+};
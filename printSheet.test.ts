@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PAPER_SIZES, SheetOptions, layoutSheet, sheetCapacity, fillCopies } from './printSheet.js';
+
+const paper = (id: string) => PAPER_SIZES.find(size => size.id === id)!;
+const schengen = { widthMm: 35, heightMm: 45 };
+const china1Inch = { widthMm: 25, heightMm: 35 };
+
+describe('layoutSheet', () => {
+    const options: SheetOptions = { paper: paper('4x6in'), landscape: false, marginMm: 5, spacingMm: 3, cutMarks: true };
+
+    it('fills rows from the top left inside the margins', () => {
+        const layout = layoutSheet(options, [{ ...schengen, copies: 4 }]);
+        expect(layout.placements.map(({ x, y }) => [x, y])).toEqual([[5, 5], [43, 5], [5, 53], [43, 53]]);
+        expect(layout.overflow).toEqual([0]);
+    });
+
+    it('reports the copies that do not fit', () => {
+        expect(sheetCapacity(options, schengen)).toBe(6);
+        const layout = layoutSheet(options, [{ ...schengen, copies: 8 }]);
+        expect(layout.placements).toHaveLength(6);
+        expect(layout.overflow).toEqual([2]);
+        for (const { x, y, width, height } of layout.placements) {
+            expect(x + width).toBeLessThanOrEqual(101.6 - 5);
+            expect(y + height).toBeLessThanOrEqual(152.4 - 5);
+        }
+    });
+
+    it('swaps the paper sides in landscape', () => {
+        const layout = layoutSheet({ ...options, landscape: true }, [{ ...schengen, copies: 1 }]);
+        expect([layout.widthMm, layout.heightMm]).toEqual([152.4, 101.6]);
+        expect(sheetCapacity({ ...options, landscape: true }, schengen)).toBe(3);
+    });
+
+    it('starts a second size on its own row', () => {
+        const layout = layoutSheet(options, [{ ...schengen, copies: 1 }, { ...china1Inch, copies: 3 }]);
+        const [first, ...rest] = layout.placements;
+        expect(first).toMatchObject({ item: 0, y: 5 });
+        expect(rest.map(({ item, x, y }) => [item, x, y])).toEqual([[1, 5, 53], [1, 33, 53], [1, 61, 53]]);
+    });
+});
+
+describe('fillCopies', () => {
+    it('fills what the other size leaves free', () => {
+        const options: SheetOptions = { paper: paper('a4'), landscape: false, marginMm: 10, spacingMm: 2, cutMarks: false };
+        const alone = fillCopies(options, [{ ...schengen, copies: 0 }], 0);
+        expect(alone).toBe(sheetCapacity(options, schengen));
+
+        const items = [{ ...schengen, copies: 0 }, { ...china1Inch, copies: 10 }];
+        const copies = fillCopies(options, items, 0);
+        expect(copies).toBeLessThan(alone);
+        expect(layoutSheet(options, [{ ...schengen, copies }, items[1]]).overflow).toEqual([0, 0]);
+        expect(layoutSheet(options, [{ ...schengen, copies: copies + 1 }, items[1]]).overflow.some(count => count > 0)).toBe(true);
+    });
+});
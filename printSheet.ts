@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GeneratedImage } from './generationService.js';
+import { base64ToBytes, canvasToBlob } from './imagePreprocessing.js';
+import { setBlobDpi, MM_PER_INCH } from './imageDpi.js';
+import { createImagePdf, POINTS_PER_INCH } from './pdf.js';
+
+export interface PaperSize {
+    id: string;
+    widthMm: number;
+    heightMm: number;
+}
+
+// Photo print sizes first, then office paper. Dimensions are for portrait orientation.
+export const PAPER_SIZES: PaperSize[] = [
+    { id: '4x6in', widthMm: 101.6, heightMm: 152.4 },
+    { id: '5x7in', widthMm: 127, heightMm: 177.8 },
+    { id: 'a4', widthMm: 210, heightMm: 297 },
+    { id: 'letter', widthMm: 215.9, heightMm: 279.4 },
+];
+
+export const SHEET_DPI = 300;
+
+// Length of the cut marks drawn outward from each photo corner, when the spacing leaves room.
+const CUT_MARK_MM = 3;
+
+export interface SheetOptions {
+    paper: PaperSize;
+    landscape: boolean;
+    marginMm: number;
+    spacingMm: number;
+    cutMarks: boolean;
+}
+
+// One kind of photo on the sheet and how many copies of it are wanted.
+export interface SheetItem {
+    widthMm: number;
+    heightMm: number;
+    copies: number;
+}
+
+export interface SheetPlacement {
+    // Index into the items the layout was made for.
+    item: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SheetLayout {
+    widthMm: number;
+    heightMm: number;
+    placements: SheetPlacement[];
+    // Copies of each item that did not fit.
+    overflow: number[];
+}
+
+export const sheetSize = ({ paper, landscape }: SheetOptions): { widthMm: number; heightMm: number } =>
+    landscape ? { widthMm: paper.heightMm, heightMm: paper.widthMm } : { widthMm: paper.widthMm, heightMm: paper.heightMm };
+
+// Fills rows left to right and top to bottom, all in millimetres. Each item starts a new row, so
+// photos of two sizes never share one and each row can be cut in a single pass.
+export const layoutSheet = (options: SheetOptions, items: SheetItem[]): SheetLayout => {
+    const { widthMm, heightMm } = sheetSize(options);
+    const right = widthMm - options.marginMm;
+    const bottom = heightMm - options.marginMm;
+    const placements: SheetPlacement[] = [];
+    const overflow = items.map(() => 0);
+    let y = options.marginMm;
+    let rowHeight = 0;
+
+    items.forEach((item, index) => {
+        let x = options.marginMm;
+        if (rowHeight > 0) {
+            y += rowHeight + options.spacingMm;
+            rowHeight = 0;
+        }
+        for (let copy = 0; copy < item.copies; copy++) {
+            if (x + item.widthMm > right && x > options.marginMm) {
+                x = options.marginMm;
+                y += rowHeight + options.spacingMm;
+                rowHeight = 0;
+            }
+            if (x + item.widthMm > right || y + item.heightMm > bottom) {
+                overflow[index] = item.copies - copy;
+                break;
+            }
+            placements.push({ item: index, x, y, width: item.widthMm, height: item.heightMm });
+            x += item.widthMm + options.spacingMm;
+            rowHeight = Math.max(rowHeight, item.heightMm);
+        }
+    });
+
+    return { widthMm, heightMm, placements, overflow };
+};
+
+// How many copies of one item fit on an empty sheet.
+export const sheetCapacity = (options: SheetOptions, item: Omit<SheetItem, 'copies'>): number => {
+    const columns = Math.floor((sheetSize(options).widthMm - 2 * options.marginMm + options.spacingMm) / (item.widthMm + options.spacingMm));
+    const rows = Math.floor((sheetSize(options).heightMm - 2 * options.marginMm + options.spacingMm) / (item.heightMm + options.spacingMm));
+    return Math.max(0, columns) * Math.max(0, rows);
+};
+
+// The most copies of `items[index]` that fit alongside the other items without any overflowing.
+export const fillCopies = (options: SheetOptions, items: SheetItem[], index: number): number => {
+    const fits = (copies: number) =>
+        layoutSheet(options, items.map((item, i) => i === index ? { ...item, copies } : item)).overflow.every(count => count === 0);
+    let copies = 0;
+    while (copies < sheetCapacity(options, items[index]) && fits(copies + 1)) {
+        copies++;
+    }
+    return copies;
+};
+
+const loadBitmap = (image: GeneratedImage) =>
+    createImageBitmap(new Blob([base64ToBytes(image.data)] as BlobPart[], { type: image.mimeType }));
+
+// Draws the sheet on a white canvas at `dpi`, with `images[i]` for every placement of item i.
+export const renderSheet = async (layout: SheetLayout, images: GeneratedImage[], options: SheetOptions, dpi: number = SHEET_DPI): Promise<HTMLCanvasElement> => {
+    const px = (mm: number) => mm / MM_PER_INCH * dpi;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(px(layout.widthMm));
+    canvas.height = Math.round(px(layout.heightMm));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+
+    const bitmaps = await Promise.all(images.map(loadBitmap));
+    try {
+        for (const placement of layout.placements) {
+            ctx.drawImage(bitmaps[placement.item], px(placement.x), px(placement.y), px(placement.width), px(placement.height));
+        }
+    } finally {
+        bitmaps.forEach(bitmap => bitmap.close());
+    }
+
+    if (options.cutMarks) {
+        // A hairline along every edge, and marks pointing out of each corner into the gap around it.
+        const mark = Math.min(CUT_MARK_MM, options.spacingMm / 2, options.marginMm);
+        ctx.strokeStyle = '#888';
+        ctx.lineWidth = Math.max(1, px(0.1));
+        ctx.beginPath();
+        for (const { x, y, width, height } of layout.placements) {
+            ctx.rect(px(x), px(y), px(width), px(height));
+            if (mark > 0) {
+                for (const cornerX of [x, x + width]) {
+                    for (const cornerY of [y, y + height]) {
+                        const outX = cornerX === x ? -mark : mark;
+                        const outY = cornerY === y ? -mark : mark;
+                        ctx.moveTo(px(cornerX), px(cornerY));
+                        ctx.lineTo(px(cornerX + outX), px(cornerY));
+                        ctx.moveTo(px(cornerX), px(cornerY));
+                        ctx.lineTo(px(cornerX), px(cornerY + outY));
+                    }
+                }
+            }
+        }
+        ctx.stroke();
+    }
+    return canvas;
+};
+
+// A PNG that declares the sheet's DPI, so it prints at paper size.
+export const sheetToPng = async (canvas: HTMLCanvasElement, dpi: number = SHEET_DPI): Promise<Blob> =>
+    setBlobDpi(await canvasToBlob(canvas, 'image/png', 1), dpi);
+
+// A one-page PDF of the paper size with the sheet as a high-quality JPEG filling the page.
+export const sheetToPdf = async (canvas: HTMLCanvasElement, layout: SheetLayout): Promise<Blob> => {
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.95)).arrayBuffer());
+    const points = (mm: number) => mm / MM_PER_INCH * POINTS_PER_INCH;
+    const pdf = createImagePdf({
+        jpeg,
+        pixelWidth: canvas.width,
+        pixelHeight: canvas.height,
+        pageWidth: points(layout.widthMm),
+        pageHeight: points(layout.heightMm),
+    });
+    return new Blob([pdf] as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, withOverride, renderPrompt, describeTemplateRef, PromptTemplate, PromptTemplateError } from './promptTemplates.js';
+
+type GreetingVariables = { name: string; formal: boolean; count: number };
+
+const greeting: PromptTemplate<GreetingVariables> = {
+    id: 'test.greeting',
+    version: 3,
+    variables: ['name', 'formal', 'count'],
+    text: '{{#formal}}Dear {{name}}{{/formal}}{{^formal}}Hi {{name}}{{/formal}}, you have {{count}} messages.',
+};
+
+describe('renderTemplate', () => {
+    it('fills placeholders and keeps the section that matches each flag', () => {
+        expect(renderTemplate(greeting, { name: 'Ada', formal: true, count: 2 })).toBe('Dear Ada, you have 2 messages.');
+        expect(renderTemplate(greeting, { name: 'Ada', formal: false, count: 0 })).toBe('Hi Ada, you have 0 messages.');
+    });
+
+    it('resolves nested sections', () => {
+        const nested: PromptTemplate<{ a: boolean; b: boolean }> = {
+            id: 'test.nested',
+            version: 1,
+            variables: ['a', 'b'],
+            text: '{{#a}}A{{#b}}B{{/b}}{{^b}}-{{/b}}{{/a}}',
+        };
+        expect(renderTemplate(nested, { a: true, b: true })).toBe('AB');
+        expect(renderTemplate(nested, { a: true, b: false })).toBe('A-');
+        expect(renderTemplate(nested, { a: false, b: true })).toBe('');
+    });
+
+    it('fails on a placeholder that is not a declared variable', () => {
+        const broken = { ...greeting, text: 'Hello {{nickname}}' };
+        expect(() => renderTemplate(broken, { name: 'Ada', formal: true, count: 1 })).toThrow(PromptTemplateError);
+        expect(() => renderTemplate(broken, { name: 'Ada', formal: true, count: 1 })).toThrow('test.greeting@3 uses unknown variable "nickname"');
+    });
+});
+
+describe('withOverride', () => {
+    it('replaces the text and marks the prompt as overridden', () => {
+        const prompt = renderPrompt(greeting, { name: 'Ada', formal: true, count: 1 });
+        expect(withOverride(prompt, undefined)).toBe(prompt);
+        const overridden = withOverride(prompt, 'Something else');
+        expect(overridden).toEqual({ id: 'test.greeting', version: 3, overridden: true, text: 'Something else' });
+        expect(describeTemplateRef(overridden)).toBe('test.greeting v3*');
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type PromptVariables = Record<string, string | number | boolean>;
+
+// A prompt kept as text with `{{name}}` placeholders, so wording can be tuned without touching
+// the tool. `{{#flag}}...{{/flag}}` keeps its content only when `flag` is true, and
+// `{{^flag}}...{{/flag}}` only when it is false. Bump `version` whenever the text changes; the
+// version is stored with every result it produced.
+export interface PromptTemplate<V extends PromptVariables> {
+    id: string;
+    version: number;
+    // Every variable the text may use; rendering fails on any other placeholder.
+    variables: readonly (keyof V & string)[];
+    text: string;
+}
+
+// Which template, at which version, produced a prompt, and whether it was replaced by hand.
+export interface PromptTemplateRef {
+    id: string;
+    version: number;
+    overridden: boolean;
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+    text: string;
+}
+
+export class PromptTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptTemplateError';
+    }
+}
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export const renderTemplate = <V extends PromptVariables>(template: PromptTemplate<V>, variables: V): string => {
+    const lookup = (name: string) => {
+        if (!template.variables.includes(name as keyof V & string) || !(name in variables)) {
+            throw new PromptTemplateError(`Template ${template.id}@${template.version} uses unknown variable "${name}".`);
+        }
+        return variables[name];
+    };
+    // One pass per level of nested sections.
+    let text = template.text;
+    let previous: string;
+    do {
+        previous = text;
+        text = text.replace(SECTION, (_, kind, name, content) => (kind === '#') === Boolean(lookup(name)) ? content : '');
+    } while (text !== previous);
+    return text.replace(PLACEHOLDER, (_, name) => String(lookup(name)));
+};
+
+export const renderPrompt = <V extends PromptVariables>(template: PromptTemplate<V>, variables: V): RenderedPrompt => ({
+    id: template.id,
+    version: template.version,
+    overridden: false,
+    text: renderTemplate(template, variables),
+});
+
+// The prompt with a one-off replacement text from the prompt inspector, if there is one.
+export const withOverride = (prompt: RenderedPrompt, override: string | undefined): RenderedPrompt =>
+    override === undefined ? prompt : { ...prompt, text: override, overridden: true };
+
+export const templateRef = ({ id, version, overridden }: PromptTemplateRef): PromptTemplateRef => ({ id, version, overridden });
+
+// "beautyCamera.beautify v2", with a marker when the text was edited.
+export const describeTemplateRef = ({ id, version, overridden }: PromptTemplateRef): string =>
+    `${id} v${version}${overridden ? '*' : ''}`;
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BeautyCameraSettings } from '../BeautyCamera.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+
+export type BeautyCameraPromptVariables = {
+    beautyLevel: string;
+    // The beauty level in lower case, for "a {{look}} look".
+    look: string;
+    faceReshape: number;
+    bodySlimming: number;
+    chestEnhancement: number;
+    legExtension: number;
+    filter: string;
+};
+
+export const BEAUTY_CAMERA_TEMPLATE: PromptTemplate<BeautyCameraPromptVariables> = {
+    id: 'beautyCamera.beautify',
+    version: 1,
+    variables: ['beautyLevel', 'look', 'faceReshape', 'bodySlimming', 'chestEnhancement', 'legExtension', 'filter'],
+    text: `Please perform a professional-grade beautification on the person or people in this portrait, following these specific instructions. It is critical that all changes appear natural and realistic, and that the person's core identity and facial features are preserved. Handle both single and multiple faces if present. Ensure the background remains completely free of distortion.
+
+1.  **Skin Enhancement (Beauty Level: {{beautyLevel}})**:
+    *   **Goal**: Achieve a {{look}} look.
+    *   **Action**: Smooth the skin to remove blemishes, acne, and oiliness, but you **must** preserve natural skin texture to avoid a "plastic" look.
+    *   **Details**: Balance the skin tone, reduce the appearance of wrinkles and dark circles under the eyes, and remove fine facial hair for a clean finish.
+
+2.  **Eye Enhancement**:
+    *   **Action**: Make the eyes appear brighter and more vibrant. Remove any red-eye effect.
+    *   **Makeup**: If applicable based on the beauty level, naturally enhance eye makeup, including eyeliner, eyeshadow, and eyebrows, ensuring it blends perfectly.
+
+3.  **Face Reshaping (Intensity: {{faceReshape}}%)**:
+    *   **Action**: Subtly slim the face and refine the jawline by approximately {{faceReshape}}%. The effect should be gentle and enhance the natural bone structure.
+    *   **Nose**: Add subtle contouring (highlights and shadows) to the nose to give it a more defined and three-dimensional appearance.
+
+4.  **Body & Leg Sculpting**:
+    *   **Body**: Slim the waist and torso by approximately {{bodySlimming}}%.
+    *   **Chest**: Enhance the bust to be fuller by approximately {{chestEnhancement}}%, ensuring the result is natural and proportional to the body frame.
+    *   **Legs**: Elongate the legs by approximately {{legExtension}}% to create a taller, more slender silhouette.
+    *   **Constraint**: All body modifications must be proportional and realistic, without warping the background.
+
+5.  **Virtual Makeup & Filter**:
+    *   **Makeup**: Apply natural-looking virtual makeup, including lipstick, blush, and contouring that complements the person's skin tone. The opacity and color should be subtle and well-blended.
+    *   **Filter**: Apply a '{{filter}}' photographic filter to the final image. If 'None' is selected, do not apply any filter.`,
+};
+
+export const buildBeautyCameraPrompt = (settings: BeautyCameraSettings): RenderedPrompt =>
+    renderPrompt(BEAUTY_CAMERA_TEMPLATE, {
+        beautyLevel: settings.beautyLevel,
+        look: settings.beautyLevel.toLowerCase(),
+        faceReshape: settings.faceReshape,
+        bodySlimming: settings.bodySlimming,
+        chestEnhancement: settings.chestEnhancement,
+        legExtension: settings.legExtension,
+        filter: settings.filter,
+    });
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DoodleEnhancerSettings } from '../DoodleEnhancer.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+
+export type DoodleEnhancerPromptVariables = {
+    artStyle: string;
+    panelCount: number;
+};
+
+export const DOODLE_ENHANCER_TEMPLATE: PromptTemplate<DoodleEnhancerPromptVariables> = {
+    id: 'doodleEnhancer.comic',
+    version: 1,
+    variables: ['artStyle', 'panelCount'],
+    text: `You are an expert storyteller and comic artist. Your task is to take this child's doodle and turn it into a multi-panel comic strip story.
+
+**Instructions:**
+1.  **First Panel:** The provided doodle is the very first panel of the story. It sets the scene and introduces the main character or subject.
+2.  **Story Generation:** Based on the doodle, invent a creative, coherent, and imaginative story that unfolds over a total of **{{panelCount}}** panels. The plot should become more detailed and engaging as the number of panels increases. If the user requests many panels (e.g., 6-9), the story should have a clear beginning, middle, and end.
+3.  **Art Style:** The entire comic strip, including all characters, backgrounds, and panel borders, must be rendered in the **{{artStyle}}** art style.
+4.  **Final Output:** Your final output must be a **single image** that contains all {{panelCount}} panels arranged in a logical grid format (e.g., left-to-right, top-to-bottom), telling the complete story from start to finish. Do not output separate images for each panel.`,
+};
+
+export const buildDoodleEnhancerPrompt = ({ artStyle, panelCount }: DoodleEnhancerSettings): RenderedPrompt =>
+    renderPrompt(DOODLE_ENHANCER_TEMPLATE, { artStyle, panelCount });
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IDPhotoSettings } from '../IDPhotoGenerator.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+import { findIdPhotoSpec, backgroundColorFor, HeightRange, IdPhotoSpec } from '../idPhotoSpecs.js';
+import { findAttire } from '../idPhotoAttire.js';
+
+export type IDPhotoPromptVariables = {
+    // The rendered fragment of the chosen attire.
+    attire: string;
+    hasBackground: boolean;
+    hasBrooch: boolean;
+    // "second" or "third", depending on whether a background image comes before the brooch.
+    broochPosition: string;
+    // The chosen background colour and the framing for the document spec, e.g. "#F0F0F0", "35:45",
+    // "71-80%" and "50-70%".
+    backgroundColor: string;
+    aspectRatio: string;
+    headHeight: string;
+    eyeLine: string;
+};
+
+// The portrait is the first image, optionally followed by a background and then a brooch.
+export const ID_PHOTO_TEMPLATE: PromptTemplate<IDPhotoPromptVariables> = {
+    id: 'idPhoto.formal',
+    version: 4,
+    variables: ['attire', 'hasBackground', 'hasBrooch', 'broochPosition', 'backgroundColor', 'aspectRatio', 'headHeight', 'eyeLine'],
+    text: `Your task is to transform the person in the first image into a highly-detailed, professional ID photo based on the following precise instructions. CRITICAL: You must preserve the person's original facial features, hair, and expression exactly as they appear in the source portrait.
+
+**Attire Customization:**
+{{attire}}
+
+**Background Instructions:**
+{{#hasBackground}}- Extract the person from the first image and place them seamlessly onto the **second image**, which serves as the new background.
+{{/hasBackground}}{{^hasBackground}}- The background must be a solid, even color of exactly **{{backgroundColor}}**, with no gradient, texture or shadows, suitable for an official ID photo.
+{{/hasBackground}}{{#hasBrooch}}
+**Accessory Instructions (Absolute Priority):**
+- Take the **{{broochPosition}} image (the brooch)** and add it to the person's outer garment.
+- **Placement:** The brooch MUST be placed on the **upper part of the lapel**, or on the upper left chest if the garment has no lapel. This is a non-negotiable placement.
+- **Sizing:** The brooch MUST be rendered as a **very small and delicate** accessory. It should be an elegant, subtle detail, not a large, distracting object. Its size should be proportional to the garment.
+- **Realism:** Ensure the brooch's lighting, shadows, and angle perfectly match the garment to make it look completely realistic and naturally pinned on.
+{{/hasBrooch}}
+**Framing:**
+- Show the person facing the camera straight on, head and shoulders, centered horizontally, in a **{{aspectRatio}}** (width:height) image.
+- The head, from chin to the top of the hair, must take up **{{headHeight}}** of the image height, with the eyes **{{eyeLine}}** of the way up from the bottom edge.
+
+Final result must be a high-resolution, professional, and realistic ID photograph.`,
+};
+
+export const percentRange = ({ min, max }: HeightRange) => `${Math.round(min * 100)}-${Math.round(max * 100)}%`;
+
+// "35:45", or "1:1" for a square spec.
+export const specAspectRatio = (spec: IdPhotoSpec) => spec.widthMm === spec.heightMm ? '1:1' : `${spec.widthMm}:${spec.heightMm}`;
+
+// The chosen attire's own fragment, rendered from its fields.
+export const buildAttirePrompt = (settings: IDPhotoSettings): RenderedPrompt =>
+    renderPrompt(findAttire(settings.attire).template, settings);
+
+// `attire` replaces the fragment built from the settings, e.g. with an edited one from the prompt inspector.
+export const buildIdPhotoPrompt = (
+    settings: IDPhotoSettings,
+    { hasBackground, hasBrooch, attire = buildAttirePrompt(settings).text }: { hasBackground: boolean; hasBrooch: boolean; attire?: string }
+): RenderedPrompt => {
+    const spec = findIdPhotoSpec(settings.spec);
+    return renderPrompt(ID_PHOTO_TEMPLATE, {
+        attire,
+        hasBackground,
+        hasBrooch,
+        broochPosition: hasBackground ? 'third' : 'second',
+        backgroundColor: backgroundColorFor(settings.background, spec).toUpperCase(),
+        aspectRatio: specAspectRatio(spec),
+        headHeight: percentRange(spec.headHeight),
+        eyeLine: percentRange(spec.eyeLine),
+    });
+};
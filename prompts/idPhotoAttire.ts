@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PromptTemplate } from '../promptTemplates.js';
+
+// The option fields of every attire in the catalog. Each fragment uses only its own.
+export type AttirePromptVariables = {
+    suitColor: string;
+    shirtColor: string;
+    hasTie: boolean;
+    tieColor: string;
+    blazerColor: string;
+    blouseColor: string;
+    topColor: string;
+    uniform: string;
+    garmentColor: string;
+};
+
+// Attire fragments are inserted into the ID photo prompt as its list of attire instructions.
+
+export const SUIT_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.suit',
+    version: 1,
+    variables: ['suitColor', 'shirtColor', 'hasTie', 'tieColor'],
+    text: `- The person must be dressed in a formal **{{suitColor}} suit jacket**.
+- Underneath the jacket, they must wear a crisp **{{shirtColor}} shirt**.
+{{#hasTie}}- They must wear a **{{tieColor}} tie**, neatly knotted.{{/hasTie}}{{^hasTie}}- The shirt should be buttoned to the top, but **without a tie**.{{/hasTie}}`,
+};
+
+export const BLAZER_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.blazerBlouse',
+    version: 1,
+    variables: ['blazerColor', 'blouseColor'],
+    text: `- The person must wear a tailored **{{blazerColor}} blazer** with neat lapels.
+- Underneath the blazer, they must wear a plain **{{blouseColor}} blouse** with a tidy collar or neckline, without patterns or logos.`,
+};
+
+export const HIGH_NECK_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.highNeck',
+    version: 1,
+    variables: ['topColor'],
+    text: `- The person must wear a plain, fitted **{{topColor}} high-neck top**, such as a turtleneck or mock neck, without patterns or logos.
+- The collar must sit smoothly around the neck without covering the chin.`,
+};
+
+export const UNIFORM_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.uniform',
+    version: 1,
+    variables: ['uniform'],
+    text: `- The person must wear a **{{uniform}}**, clean, pressed and worn correctly, with any insignia straight.
+- No hat or cap: the whole head and face stay visible.`,
+};
+
+export const HEAD_COVERING_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.headCovering',
+    version: 1,
+    variables: ['garmentColor'],
+    text: `- The person wears a religious head covering. Keep it **exactly as it appears** in the first image, with the same shape, color, pattern, folds and position. Never remove, restyle or replace it.
+- The face, from the bottom of the chin to the top of the forehead, must stay fully visible.
+- Below the covering, dress the person in plain, modest **{{garmentColor}}** clothing.`,
+};
+
+export const ORIGINAL_ATTIRE_TEMPLATE: PromptTemplate<AttirePromptVariables> = {
+    id: 'idPhoto.attire.original',
+    version: 1,
+    variables: [],
+    text: `- Keep the person's clothing **exactly as it appears** in the first image. Do not change, replace, add or remove any garment or accessory.`,
+};
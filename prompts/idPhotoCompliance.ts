@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+import type { IdPhotoSpec } from '../idPhotoSpecs.js';
+import type { ComplianceCheckId } from '../idPhotoCompliance.js';
+import { percentRange, specAspectRatio } from './idPhoto.js';
+
+export type FaceAnalysisPromptVariables = Record<string, never>;
+
+// Sent with the cropped ID photo to the analysis model, which answers with FACE_ANALYSIS_SCHEMA.
+export const FACE_ANALYSIS_TEMPLATE: PromptTemplate<FaceAnalysisPromptVariables> = {
+    id: 'idPhoto.faceAnalysis',
+    version: 1,
+    variables: [],
+    text: `You are checking a photo against the rules for official ID document photos. Measure the following and answer only with JSON.
+- faceFound: whether exactly one human face is visible.
+- crown and chin: the top of the head, including the hair, and the bottom of the chin, as fractions of the image height from the top edge (0 is the top, 1 the bottom).
+- left and right: the outer edges of the head, including ears and hair, as fractions of the image width from the left edge.
+- eyeLine: the height of the pupils, as a fraction of the image height from the top edge.
+- glasses: whether the person wears glasses.
+- glare: whether light reflecting off the glasses covers part of either eye.
+If no face is visible, set faceFound to false and every fraction to 0.`,
+};
+
+export const buildFaceAnalysisPrompt = (): RenderedPrompt => renderPrompt(FACE_ANALYSIS_TEMPLATE, {});
+
+export type ComplianceFixPromptVariables = {
+    fixFace: boolean;
+    fixHeadSize: boolean;
+    fixEyeLine: boolean;
+    fixCentering: boolean;
+    fixBackground: boolean;
+    fixShadows: boolean;
+    fixGlare: boolean;
+    // The spec's requirements, e.g. "#F0F0F0", "35:45", "71-80%" and "50-70%".
+    backgroundColor: string;
+    aspectRatio: string;
+    headHeight: string;
+    eyeLine: string;
+};
+
+// A follow-up edit that asks for one correction per failed compliance check.
+export const COMPLIANCE_FIX_TEMPLATE: PromptTemplate<ComplianceFixPromptVariables> = {
+    id: 'idPhoto.complianceFix',
+    version: 1,
+    variables: ['fixFace', 'fixHeadSize', 'fixEyeLine', 'fixCentering', 'fixBackground', 'fixShadows', 'fixGlare', 'backgroundColor', 'aspectRatio', 'headHeight', 'eyeLine'],
+    text: `Edit the most recent image you returned so that it meets the official ID photo requirements it failed:
+{{#fixFace}}- Show the person's whole head and shoulders facing the camera, with nothing cut off at the top or the sides.
+{{/fixFace}}{{#fixHeadSize}}- Scale the person so that the head, from chin to the top of the hair, takes up **{{headHeight}}** of the height of the **{{aspectRatio}}** (width:height) image.
+{{/fixHeadSize}}{{#fixEyeLine}}- Move the person up or down so that the eyes are **{{eyeLine}}** of the way up from the bottom edge.
+{{/fixEyeLine}}{{#fixCentering}}- Center the person horizontally.
+{{/fixCentering}}{{#fixBackground}}- Replace the background with a solid, even color of exactly **{{backgroundColor}}**, with no gradient or texture.
+{{/fixBackground}}{{#fixShadows}}- Remove every shadow from the background and light it evenly behind the person.
+{{/fixShadows}}{{#fixGlare}}- Remove the light reflections on the glasses so that both eyes are clearly visible.
+{{/fixGlare}}
+Keep the person's identity, facial features, expression, hair and clothing exactly as they are.`,
+};
+
+// `backgroundColor` is the plain colour the photo was asked for, which may differ from the spec's.
+export const buildComplianceFixPrompt = (failed: ComplianceCheckId[], spec: IdPhotoSpec, backgroundColor: string): RenderedPrompt =>
+    renderPrompt(COMPLIANCE_FIX_TEMPLATE, {
+        fixFace: failed.includes('faceBox'),
+        fixHeadSize: failed.includes('headSize'),
+        fixEyeLine: failed.includes('eyeLine'),
+        fixCentering: failed.includes('centering'),
+        fixBackground: failed.includes('backgroundUniformity') || failed.includes('backgroundColor'),
+        fixShadows: failed.includes('shadows'),
+        fixGlare: failed.includes('glare'),
+        backgroundColor: backgroundColor.toUpperCase(),
+        aspectRatio: specAspectRatio(spec),
+        headHeight: percentRange(spec.headHeight),
+        eyeLine: percentRange(spec.eyeLine),
+    });
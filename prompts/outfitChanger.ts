@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { OutfitChangerSettings, GarmentSlot } from '../OutfitChanger.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+
+export type OutfitChangerPromptVariables = {
+    clothingStyle: string;
+    clothingColor: string;
+    poseDescription: string;
+};
+
+// The pose that suits each clothing style, inserted as {{poseDescription}}.
+export const POSE_DESCRIPTIONS: Record<string, string> = {
+    'Sportswear': 'The pose should be active and dynamic, as if they are ready for movement.',
+    'Evening Gown': 'The pose should be elegant, graceful, and formal, suitable for a black-tie event.',
+    'Business Suit': 'The pose should be professional and confident, like a corporate headshot.',
+    'Casual Wear': 'The pose should be relaxed, natural, and comfortable.',
+};
+
+export const OUTFIT_CHANGER_TEMPLATE: PromptTemplate<OutfitChangerPromptVariables> = {
+    id: 'outfitChanger.outfit',
+    version: 1,
+    variables: ['clothingStyle', 'clothingColor', 'poseDescription'],
+    text: "Take the person in this image and change their outfit to a {{clothingColor}} {{clothingStyle}}. Also, adjust their pose to be more suitable for this new outfit. {{poseDescription}} It is crucial to maintain the person's original facial features, expression, and identity. The background should remain similar to the original image but can be adjusted slightly for realism.",
+};
+
+export const buildOutfitChangerPrompt = ({ clothingStyle, clothingColor }: OutfitChangerSettings): RenderedPrompt =>
+    renderPrompt(OUTFIT_CHANGER_TEMPLATE, { clothingStyle, clothingColor, poseDescription: POSE_DESCRIPTIONS[clothingStyle] ?? '' });
+
+// Garment references are product photos that come after the person, in the order of their slots.
+// Each filled slot adds its own instruction, naming its image by position, to the try-on prompt.
+
+export type GarmentPromptVariables = {
+    // "second", "third" and so on.
+    position: string;
+};
+
+export const GARMENT_SLOT_TEMPLATES: Record<GarmentSlot, PromptTemplate<GarmentPromptVariables>> = {
+    top: {
+        id: 'outfitChanger.garment.top',
+        version: 1,
+        variables: ['position'],
+        text: "- The **{{position}} image** shows a top, such as a shirt, blouse, sweater or jacket. Replace the person's upper-body garment with it, with the same neckline, sleeve length and hem length as in the reference.",
+    },
+    bottom: {
+        id: 'outfitChanger.garment.bottom',
+        version: 1,
+        variables: ['position'],
+        text: '- The **{{position}} image** shows a bottom, such as trousers, a skirt or shorts. Replace what the person wears below the waist with it, with the same length, rise and leg shape as in the reference.',
+    },
+    shoes: {
+        id: 'outfitChanger.garment.shoes',
+        version: 1,
+        variables: ['position'],
+        text: "- The **{{position}} image** shows shoes. Put them on both feet as a matching pair. If the person's feet are not in the picture, do not change the framing to show them.",
+    },
+    accessory: {
+        id: 'outfitChanger.garment.accessory',
+        version: 1,
+        variables: ['position'],
+        text: '- The **{{position}} image** shows an accessory, such as a bag, hat, scarf, belt or jewelry. Add it where it is normally worn or carried, at a realistic scale, without covering the face.',
+    },
+};
+
+export type GarmentTryOnPromptVariables = {
+    // The instructions of the filled slots, one per line.
+    garments: string;
+};
+
+export const GARMENT_TRY_ON_TEMPLATE: PromptTemplate<GarmentTryOnPromptVariables> = {
+    id: 'outfitChanger.tryOn',
+    version: 1,
+    variables: ['garments'],
+    text: `Dress the person in the first image in the garments shown in the reference images that follow. The references are product photos, such as flat-lay or mannequin shots: only the garments in them matter.
+
+**Garments:**
+{{garments}}
+
+**Fidelity:**
+- Keep every garment's exact pattern, print, logo, lettering, color, fabric and cut. Do not simplify, restyle or mirror them.
+- Fit each garment naturally to the person's body and pose, with realistic folds, drape, shadows and lighting.
+- Never copy the mannequin, hanger, tags or product background into the result.
+- Keep the rest of the person's outfit as it is in the first image, unless a garment replaces it.
+
+It is crucial to maintain the person's original facial features, expression, identity and pose. The background should remain the same as in the original image.`,
+};
+
+const POSITIONS = ['second', 'third', 'fourth', 'fifth'];
+
+// One instruction per filled slot, given in slot order.
+export const buildGarmentPrompts = (slots: GarmentSlot[]): RenderedPrompt[] =>
+    slots.map((slot, index) => renderPrompt(GARMENT_SLOT_TEMPLATES[slot], { position: POSITIONS[index] }));
+
+export const buildGarmentTryOnPrompt = (garmentInstructions: string[]): RenderedPrompt =>
+    renderPrompt(GARMENT_TRY_ON_TEMPLATE, { garments: garmentInstructions.join('\n') });
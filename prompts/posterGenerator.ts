@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PosterGeneratorSettings } from '../PosterGenerator.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+
+export type PosterPromptVariables = {
+    industry: string;
+    elements: string;
+    slogan: string;
+    style: string;
+};
+
+export const POSTER_TEMPLATE: PromptTemplate<PosterPromptVariables> = {
+    id: 'posterGenerator.poster',
+    version: 1,
+    variables: ['industry', 'elements', 'slogan', 'style'],
+    text: `Create a high-impact commercial poster for the {{industry}} industry.
+
+**Critical Rules for Slogan Rendering (Absolute Priority):**
+1.  **Language Identification:** Before any design work, you MUST first identify the specific language of the slogan provided: "{{slogan}}".
+2.  **No Translation:** Under NO circumstances should you translate the slogan. It must be rendered in its original language.
+3.  **High-Fidelity Character Rendering:** This is the most important rule. You must render the slogan onto the poster with perfect accuracy. For languages with complex characters, such as **Chinese, Japanese, or Korean**, it is absolutely critical that every character is rendered with its correct strokes, structure, and form. Do not substitute or misrepresent any character.
+4.  **Aesthetic & Appropriate Typography:** Choose a font and layout for the slogan that is aesthetically pleasing and culturally appropriate for the identified language. For **Chinese characters**, consider a clean Heiti (sans-serif) or an elegant Songti (serif) style that harmonizes with the poster's overall design.
+
+**Poster Design Brief:**
+-   **Key Visual Elements:** The poster must prominently feature: {{elements}}.
+-   **Style:** The overall aesthetic should be: {{style}}.
+-   **Objective:** The poster must be visually compelling, professional, and suitable for a commercial advertising campaign. Do not include any other text besides the required slogan.`,
+};
+
+// The second step, sent with a generated poster and the logo.
+export const POSTER_LOGO_TEMPLATE: PromptTemplate<Record<string, never>> = {
+    id: 'posterGenerator.addLogo',
+    version: 1,
+    variables: [],
+    text: "Take this poster (the first image) and seamlessly integrate this logo (the second image) into it. Place the logo in a natural, professional-looking position where it is visible but not obstructing key elements, such as a corner or an area with clear space. Ensure the logo's size is appropriate for the poster's design and it looks like it was part of the original design.",
+};
+
+export const buildPosterPrompt = ({ industry, elements, slogan, style }: PosterGeneratorSettings): RenderedPrompt =>
+    renderPrompt(POSTER_TEMPLATE, { industry, elements, slogan, style });
+
+export const buildPosterLogoPrompt = (): RenderedPrompt => renderPrompt(POSTER_LOGO_TEMPLATE, {});
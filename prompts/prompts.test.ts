@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBeautyCameraPrompt } from './beautyCamera.js';
+import { buildDoodleEnhancerPrompt } from './doodleEnhancer.js';
+import { buildIdPhotoPrompt } from './idPhoto.js';
+import { buildComplianceFixPrompt } from './idPhotoCompliance.js';
+import { findIdPhotoSpec } from '../idPhotoSpecs.js';
+import { DEFAULT_ATTIRE_SETTINGS } from '../idPhotoAttire.js';
+import { buildOutfitChangerPrompt, buildGarmentPrompts, buildGarmentTryOnPrompt, POSE_DESCRIPTIONS } from './outfitChanger.js';
+import { buildPosterPrompt, buildPosterLogoPrompt } from './posterGenerator.js';
+import { buildRefinementPrompt } from './refinement.js';
+import { buildSocialMediaPrompt, PLATFORM_STYLES } from './socialMediaConverter.js';
+
+// Every placeholder and section marker must be resolved in what reaches the model.
+const expectFullyRendered = (text: string) => {
+    expect(text).not.toMatch(/\{\{|\}\}/);
+};
+
+describe('buildBeautyCameraPrompt', () => {
+    const settings = {
+        beautyLevel: 'Clear Skin',
+        faceReshape: 12,
+        bodySlimming: 7,
+        chestEnhancement: 0,
+        legExtension: 33,
+        filter: 'Vintage',
+        variants: 1,
+    };
+
+    it('inserts every slider value and the filter', () => {
+        const { text } = buildBeautyCameraPrompt(settings);
+        expect(text).toContain('(Beauty Level: Clear Skin)');
+        expect(text).toContain('Achieve a clear skin look.');
+        expect(text).toContain('refine the jawline by approximately 12%');
+        expect(text).toContain('torso by approximately 7%');
+        expect(text).toContain('fuller by approximately 0%');
+        expect(text).toContain('legs by approximately 33%');
+        expect(text).toContain("Apply a 'Vintage' photographic filter");
+        expectFullyRendered(text);
+    });
+
+    it('records the template it was rendered from', () => {
+        const prompt = buildBeautyCameraPrompt(settings);
+        expect(prompt).toMatchObject({ id: 'beautyCamera.beautify', version: 1, overridden: false });
+    });
+});
+
+describe('buildDoodleEnhancerPrompt', () => {
+    it('asks for the chosen number of panels in the chosen style', () => {
+        const { text } = buildDoodleEnhancerPrompt({ artStyle: 'Ukiyo-e', panelCount: 6, variants: 1 });
+        expect(text).toContain('a total of **6** panels');
+        expect(text).toContain('contains all 6 panels');
+        expect(text).toContain('the **Ukiyo-e** art style');
+        expectFullyRendered(text);
+    });
+});
+
+describe('buildIdPhotoPrompt', () => {
+    const settings = {
+        ...DEFAULT_ATTIRE_SETTINGS,
+        attire: 'suit',
+        suitColor: 'Navy Blue',
+        shirtColor: 'White',
+        hasTie: true,
+        tieColor: 'Burgundy',
+        background: 'spec',
+        spec: 'schengen-35x45',
+        variants: 1,
+    };
+
+    it("describes the attire and the spec's background color by default", () => {
+        const { text } = buildIdPhotoPrompt(settings, { hasBackground: false, hasBrooch: false });
+        expect(text).toContain('formal **Navy Blue suit jacket**');
+        expect(text).toContain('crisp **White shirt**');
+        expect(text).toContain('**Burgundy tie**');
+        expect(text).not.toContain('without a tie');
+        expect(text).toContain('solid, even color of exactly **#F0F0F0**');
+        expect(text).not.toContain('Accessory Instructions');
+        expectFullyRendered(text);
+    });
+
+    it('buttons the shirt to the top without a tie', () => {
+        const { text } = buildIdPhotoPrompt({ ...settings, hasTie: false }, { hasBackground: false, hasBrooch: false });
+        expect(text).toContain('**without a tie**');
+        expect(text).not.toContain('Burgundy');
+    });
+
+    it('asks for the framing of the chosen document spec', () => {
+        const schengen = buildIdPhotoPrompt(settings, { hasBackground: false, hasBrooch: false }).text;
+        expect(schengen).toContain('in a **35:45** (width:height) image');
+        expect(schengen).toContain('take up **71-80%** of the image height, with the eyes **50-70%** of the way up');
+
+        const us = buildIdPhotoPrompt({ ...settings, spec: 'us-2x2' }, { hasBackground: false, hasBrooch: false }).text;
+        expect(us).toContain('in a **1:1** (width:height) image');
+        expect(us).toContain('take up **50-69%** of the image height, with the eyes **56-69%** of the way up');
+        expect(us).toContain('exactly **#FFFFFF**');
+    });
+
+    it('uses a chosen standard background over the one of the spec', () => {
+        const { text } = buildIdPhotoPrompt({ ...settings, background: 'blue', spec: 'china-1-inch' }, { hasBackground: false, hasBrooch: false });
+        expect(text).toContain('solid, even color of exactly **#438EDB**');
+    });
+
+    it('only describes the fields of the chosen attire', () => {
+        const blazer = buildIdPhotoPrompt({ ...settings, attire: 'blazer-blouse', blazerColor: 'camel' }, { hasBackground: false, hasBrooch: false }).text;
+        expect(blazer).toContain('tailored **camel blazer**');
+        expect(blazer).toContain('plain **white blouse**');
+        expect(blazer).not.toContain('Navy Blue');
+        expect(blazer).not.toContain('tie');
+        expectFullyRendered(blazer);
+    });
+
+    it('keeps head coverings and original clothing as they are', () => {
+        const covering = buildIdPhotoPrompt({ ...settings, attire: 'head-covering', garmentColor: 'black' }, { hasBackground: false, hasBrooch: false }).text;
+        expect(covering).toContain('Keep it **exactly as it appears**');
+        expect(covering).toContain('plain, modest **black** clothing');
+
+        const original = buildIdPhotoPrompt({ ...settings, attire: 'original' }, { hasBackground: false, hasBrooch: false }).text;
+        expect(original).toContain("Keep the person's clothing **exactly as it appears**");
+        expect(original).not.toContain('suit jacket');
+        expectFullyRendered(original);
+    });
+
+    it('takes an edited attire fragment in place of the rendered one', () => {
+        const { text } = buildIdPhotoPrompt(settings, { hasBackground: false, hasBrooch: false, attire: '- A green cardigan.' });
+        expect(text).toContain('**Attire Customization:**\n- A green cardigan.\n');
+        expect(text).not.toContain('suit jacket');
+    });
+
+    it('refers to the brooch by its position among the images', () => {
+        const withBackground = buildIdPhotoPrompt(settings, { hasBackground: true, hasBrooch: true }).text;
+        expect(withBackground).toContain('onto the **second image**');
+        expect(withBackground).toContain('Take the **third image (the brooch)**');
+        expect(withBackground).not.toContain('#F0F0F0');
+
+        const withoutBackground = buildIdPhotoPrompt(settings, { hasBackground: false, hasBrooch: true }).text;
+        expect(withoutBackground).toContain('Take the **second image (the brooch)**');
+        expectFullyRendered(withBackground);
+        expectFullyRendered(withoutBackground);
+    });
+});
+
+describe('buildOutfitChangerPrompt', () => {
+    it('adds the pose that suits the clothing style', () => {
+        const { text } = buildOutfitChangerPrompt({ clothingStyle: 'Business Suit', clothingColor: 'charcoal', variants: 1 });
+        expect(text).toContain('change their outfit to a charcoal Business Suit.');
+        expect(text).toContain(POSE_DESCRIPTIONS['Business Suit']);
+        expectFullyRendered(text);
+    });
+});
+
+describe('buildGarmentTryOnPrompt', () => {
+    it('names each garment image by its position after the person', () => {
+        const garments = buildGarmentPrompts(['bottom', 'accessory']);
+        expect(garments.map(prompt => prompt.id)).toEqual(['outfitChanger.garment.bottom', 'outfitChanger.garment.accessory']);
+        const { text } = buildGarmentTryOnPrompt(garments.map(prompt => prompt.text));
+        expect(text).toContain('**Garments:**\n- The **second image** shows a bottom');
+        expect(text).toContain('\n- The **third image** shows an accessory');
+        expect(text).toContain('without covering the face');
+        expectFullyRendered(text);
+    });
+});
+
+describe('buildPosterPrompt', () => {
+    it('quotes the slogan verbatim alongside the brief', () => {
+        const { text } = buildPosterPrompt({ industry: 'Cafe', elements: 'latte art', slogan: '每日一杯', style: 'Retro' });
+        expect(text).toContain('for the Cafe industry');
+        expect(text).toContain('the slogan provided: "每日一杯"');
+        expect(text).toContain('prominently feature: latte art.');
+        expect(text).toContain('should be: Retro.');
+        expectFullyRendered(text);
+    });
+
+    it('has a separate logo step that refers to both images', () => {
+        const prompt = buildPosterLogoPrompt();
+        expect(prompt.id).toBe('posterGenerator.addLogo');
+        expect(prompt.text).toContain('this poster (the first image)');
+        expect(prompt.text).toContain('this logo (the second image)');
+    });
+});
+
+describe('buildSocialMediaPrompt', () => {
+    it('uses the style description of each platform', () => {
+        for (const platform of Object.keys(PLATFORM_STYLES) as (keyof typeof PLATFORM_STYLES)[]) {
+            expect(buildSocialMediaPrompt({ platform }).text).toBe(PLATFORM_STYLES[platform]);
+        }
+    });
+});
+
+describe('buildComplianceFixPrompt', () => {
+    it('asks for one correction per failed check', () => {
+        const { text } = buildComplianceFixPrompt(['headSize', 'backgroundColor', 'shadows'], findIdPhotoSpec('uk-35x45'), '#e8e8e8');
+        expect(text).toContain('takes up **64-76%** of the height of the **35:45** (width:height) image');
+        expect(text).toContain('solid, even color of exactly **#E8E8E8**');
+        expect(text).toContain('Remove every shadow');
+        expect(text).not.toContain('Center the person');
+        expect(text).not.toContain('glasses');
+        expectFullyRendered(text);
+    });
+});
+
+describe('buildRefinementPrompt', () => {
+    it('trims the instruction', () => {
+        expect(buildRefinementPrompt('  make the tie darker \n')).toContain('the most recent image you returned: make the tie darker. Keep');
+    });
+});
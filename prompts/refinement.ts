@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PromptTemplate, renderTemplate } from '../promptTemplates.js';
+
+export type RefinementPromptVariables = {
+    instruction: string;
+};
+
+// A follow-up edit from the refinement panel, sent after the earlier turns of the conversation.
+export const REFINEMENT_TEMPLATE: PromptTemplate<RefinementPromptVariables> = {
+    id: 'refinement.followUp',
+    version: 1,
+    variables: ['instruction'],
+    text: "Edit the most recent image you returned: {{instruction}}. Keep everything else exactly as it is, including the person's identity, pose and framing.",
+};
+
+export const buildRefinementPrompt = (instruction: string): string =>
+    renderTemplate(REFINEMENT_TEMPLATE, { instruction: instruction.trim() });
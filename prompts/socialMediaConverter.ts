@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SocialMediaConverterSettings, SocialPlatform } from '../SocialMediaConverter.js';
+import { PromptTemplate, RenderedPrompt, renderPrompt } from '../promptTemplates.js';
+
+export type SocialMediaPromptVariables = {
+    platformStyle: string;
+};
+
+// The look of each platform, inserted as {{platformStyle}}.
+export const PLATFORM_STYLES: Record<SocialPlatform, string> = {
+    Xiaohongshu: 'Recreate this image with a "Xiaohongshu" (Little Red Book) aesthetic. The style should be bright, clean, and visually pleasing with a soft, airy feel. Apply an aesthetic filter that enhances the colors to be slightly desaturated but warm. The overall mood should be aspirational, high-quality, and feel like a lifestyle blogger\'s post. If it makes sense, add a subtle, clean border.',
+    Instagram: 'Transform this image to have a trendy and eye-catching "Instagram" style. Boost the vibrancy and contrast to make the colors pop. Sharpen the details for a high-quality look. The final image should be polished, engaging, and designed to stand out on a feed. Apply a modern, popular filter that gives it a professional but authentic look.',
+    Facebook: 'Adapt this image for "Facebook". The style should be clean, natural, and well-lit. Enhance the colors to be warm and inviting, but avoid overly dramatic filters. The goal is an approachable, authentic image that looks clear and shareable for a general audience. The focus is on clarity and a friendly, community-oriented feel.',
+    LinkedIn: 'Convert this image to a professional style suitable for "LinkedIn". The aesthetic must be clean, sharp, and polished. Use a more muted, corporate color palette (e.g., emphasizing blues and neutrals). If there is a person, ensure they look competent and trustworthy. The background should be clean and non-distracting. The overall tone must be professional and serious.',
+};
+
+export const SOCIAL_MEDIA_TEMPLATE: PromptTemplate<SocialMediaPromptVariables> = {
+    id: 'socialMediaConverter.restyle',
+    version: 1,
+    variables: ['platformStyle'],
+    text: '{{platformStyle}}',
+};
+
+export const buildSocialMediaPrompt = ({ platform }: Pick<SocialMediaConverterSettings, 'platform'>): RenderedPrompt =>
+    renderPrompt(SOCIAL_MEDIA_TEMPLATE, { platformStyle: PLATFORM_STYLES[platform] });
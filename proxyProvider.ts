@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerationProvider, EditImageResult, GenerateImagesResult, AnalyzeImageResult } from './generationService.js';
+import { IMAGE_EDIT_MODEL, IMAGE_GENERATION_MODEL, ANALYSIS_MODEL } from './geminiProvider.js';
+
+// An error response from the API proxy. `status` lets the retry policy tell transient failures apart.
+export class ProxyError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'ProxyError';
+    }
+}
+
+const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new ProxyError(response.status, payload?.error?.message ?? `The server responded with ${response.status} ${response.statusText}.`);
+    }
+    return response.json();
+};
+
+// Talks to the server in `server/`, which holds the Gemini key. Nothing secret reaches the browser.
+// The server answers with the Gemini provider, so requests are billed against its models.
+export const createProxyProvider = (baseUrl: string = '/api'): GenerationProvider => ({
+    name: 'proxy',
+    models: { editImage: IMAGE_EDIT_MODEL, generateImages: IMAGE_GENERATION_MODEL, analyzeImage: ANALYSIS_MODEL },
+
+    async editImage({ parts, history, signal }) {
+        return postJson<EditImageResult>(`${baseUrl}/edit-image`, { parts, history }, signal);
+    },
+
+    async generateImages({ prompt, numberOfImages, aspectRatio, outputMimeType, signal }) {
+        return postJson<GenerateImagesResult>(
+            `${baseUrl}/generate-images`,
+            { prompt, numberOfImages, aspectRatio, outputMimeType },
+            signal
+        );
+    },
+
+    async analyzeImage({ parts, schema, signal }) {
+        return postJson<AnalyzeImageResult>(`${baseUrl}/analyze-image`, { parts, schema }, signal);
+    },
+});
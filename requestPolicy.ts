@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from './i18n.js';
+
+export interface RequestPolicy {
+    // Total attempts including the first one.
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Applies to each attempt separately.
+    timeoutMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    timeoutMs: 60000,
+};
+
+// HTTP statuses worth retrying: request timeout, rate limiting and transient server errors.
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export class RequestTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(t('errors.timeout', { seconds: Math.round(timeoutMs / 1000) }));
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+export class RequestCancelledError extends Error {
+    constructor() {
+        super(t('errors.cancelled'));
+        this.name = 'RequestCancelledError';
+    }
+}
+
+export const isCancellation = (err: unknown): boolean =>
+    err instanceof RequestCancelledError || (err instanceof Error && err.name === 'AbortError');
+
+export const isRetryableError = (err: unknown): boolean => {
+    if (err instanceof RequestTimeoutError) {
+        return true;
+    }
+    if (isCancellation(err)) {
+        return false;
+    }
+    const status = (err as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+        return RETRYABLE_STATUSES.includes(status);
+    }
+    // fetch() rejects with a TypeError when the network drops.
+    return err instanceof TypeError;
+};
+
+// Exponential backoff with full jitter: a random delay between 0 and base * 2^(attempt - 1), capped.
+export const backoffDelay = (attempt: number, policy: RequestPolicy, random: () => number = Math.random): number =>
+    Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    policy?: RequestPolicy;
+    onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+// Runs `operation` with a per-attempt timeout, retrying retryable failures. Each attempt receives
+// its own signal that aborts on timeout or when the caller's signal aborts.
+export const runWithRetry = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    { signal, policy = DEFAULT_REQUEST_POLICY, onRetry }: RetryOptions = {}
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, policy.timeoutMs);
+        const forwardAbort = () => controller.abort();
+        signal?.addEventListener('abort', forwardAbort, { once: true });
+
+        try {
+            // Race against the abort so a backend that ignores the signal still releases the caller.
+            return await new Promise<T>((resolve, reject) => {
+                controller.signal.addEventListener('abort', () => {
+                    reject(timedOut ? new RequestTimeoutError(policy.timeoutMs) : new RequestCancelledError());
+                }, { once: true });
+                operation(controller.signal).then(resolve, reject);
+            });
+        } catch (err) {
+            const error = timedOut ? new RequestTimeoutError(policy.timeoutMs) : signal?.aborted ? new RequestCancelledError() : err;
+            if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+                throw error;
+            }
+            const delayMs = backoffDelay(attempt, policy);
+            onRetry?.(attempt, error, delayMs);
+            await sleep(delayMs, signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t, tOr, optionLabel } from './i18n.js';
+
+export interface SafetyRatingDetails {
+    category: string;
+    probability?: string;
+    blocked: boolean;
+}
+
+// The raw signals behind an outcome, kept for the debug section and bug reports.
+export interface ResponseDetails {
+    finishReason?: string;
+    finishMessage?: string;
+    blockReason?: string;
+    blockReasonMessage?: string;
+    safetyRatings: SafetyRatingDetails[];
+    // Any text the model returned, with or without an image.
+    text?: string;
+    // Why the image generator filtered images out (`raiFilteredReason`).
+    filterReason?: string;
+}
+
+// What an image request came back with. Only 'success' has an image; every other kind explains why not.
+// 'blocked' comes from the prompt check (`source: 'prompt'`) or from filtering the answer.
+export type ResponseOutcome =
+    | { kind: 'success'; details: ResponseDetails }
+    | { kind: 'blocked'; source: 'prompt' | 'response'; category: string | null; details: ResponseDetails }
+    | { kind: 'recitation'; details: ResponseDetails }
+    | { kind: 'empty'; details: ResponseDetails }
+    | { kind: 'text-only'; message: string; details: ResponseDetails };
+
+export type ResponseOutcomeKind = ResponseOutcome['kind'];
+
+// Thrown when a request finished without an image. `outcome` says why.
+export class NoImageError extends Error {
+    constructor(public outcome: ResponseOutcome) {
+        super(describeOutcome(outcome).explanation);
+        this.name = 'NoImageError';
+    }
+}
+
+// "HARM_CATEGORY_HATE_SPEECH" -> "hate speech", for categories the catalogs do not name.
+const humanizeCategory = (category: string): string =>
+    category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+export const categoryLabel = (category: string): string =>
+    tOr(`outcome.category.${category}`, humanizeCategory(category));
+
+export interface OutcomeDescription {
+    explanation: string;
+    suggestion: string;
+}
+
+// The user-facing explanation of an outcome. `subject` is the English name of what the user
+// should change, e.g. 'doodle'.
+export const describeOutcome = (outcome: ResponseOutcome, subject: string = 'photo'): OutcomeDescription => {
+    const params = { subject: optionLabel('subject', subject) };
+    switch (outcome.kind) {
+        case 'success':
+            return { explanation: t('outcome.success'), suggestion: '' };
+        case 'blocked': {
+            const category = outcome.category ? categoryLabel(outcome.category) : null;
+            const explanation = outcome.source === 'prompt'
+                ? (category ? t('outcome.blockedPromptCategory', { category }) : t('outcome.blockedPrompt'))
+                : (category ? t('outcome.blockedResponseCategory', { category }) : t('outcome.blockedResponse'));
+            return { explanation, suggestion: t('outcome.blockedSuggestion', params) };
+        }
+        case 'recitation':
+            return { explanation: t('outcome.recitation'), suggestion: t('outcome.recitationSuggestion', params) };
+        case 'text-only':
+            return { explanation: t('outcome.textOnly', { message: outcome.message }), suggestion: t('outcome.textOnlySuggestion', params) };
+        case 'empty':
+            return {
+                explanation: outcome.details.finishReason
+                    ? t('outcome.emptyReason', { reason: outcome.details.finishReason })
+                    : t('outcome.empty'),
+                suggestion: t('outcome.emptySuggestion', params),
+            };
+    }
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+
+// Hash-based routing, e.g. `#/beautyCamera?beautyLevel=Glamour`. Using the hash keeps deep links
+// working on any static host, including `vite preview`.
+export interface Route {
+    // The route path without the leading slash; '' is the home page.
+    path: string;
+    params: URLSearchParams;
+    // Changes on every navigation the app observes, so views can remount with fresh params.
+    key: number;
+}
+
+export const parseHash = (hash: string): Omit<Route, 'key'> => {
+    const raw = hash.replace(/^#\/?/, '');
+    const queryIndex = raw.indexOf('?');
+    const path = queryIndex === -1 ? raw : raw.slice(0, queryIndex);
+    const query = queryIndex === -1 ? '' : raw.slice(queryIndex + 1);
+    return { path: decodeURIComponent(path), params: new URLSearchParams(query) };
+};
+
+export const buildHash = (path: string, params?: URLSearchParams): string => {
+    const query = params?.toString();
+    return `#/${encodeURIComponent(path)}${query ? `?${query}` : ''}`;
+};
+
+// Pushes a new history entry, so the browser back button returns to the previous view.
+export const navigate = (path: string, params?: URLSearchParams) => {
+    window.location.hash = buildHash(path, params);
+};
+
+// Rewrites the query of the current route in place. This does not add a history entry and does
+// not notify `useRoute`, so a tool can mirror its form into the URL without remounting itself.
+export const replaceParams = (params: URLSearchParams) => {
+    const { path } = parseHash(window.location.hash);
+    const hash = buildHash(path, params);
+    if (hash !== window.location.hash) {
+        window.history.replaceState(window.history.state, '', hash);
+    }
+};
+
+let navigationCount = 0;
+
+export const useRoute = (): Route => {
+    const [route, setRoute] = useState<Route>(() => ({ ...parseHash(window.location.hash), key: navigationCount }));
+
+    useEffect(() => {
+        const handleHashChange = () => {
+            navigationCount += 1;
+            setRoute({ ...parseHash(window.location.hash), key: navigationCount });
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    return route;
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createGeminiProvider } from '../geminiProvider.js';
+import { createMockModelsClient } from '../mockProvider.js';
+import { createRequestHandler } from './app.js';
+import { createLogger } from './logger.js';
+import { createRateLimiter } from './rateLimiter.js';
+
+describe('API proxy with the mock provider', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        server = createServer(createRequestHandler({
+            provider: createGeminiProvider(createMockModelsClient(), 'mock'),
+            rateLimiter: createRateLimiter(100, 60000),
+            logger: createLogger('error', {}, () => {}),
+        }));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    it('accepts mock results sent back as follow-up inputs', async () => {
+        const generated = await post('/api/generate-images', { prompt: 'A poster for a bakery', numberOfImages: 1 });
+        expect(generated.status).toBe(200);
+        const [poster] = (await generated.json()).images;
+        expect(poster.mimeType).toBe('image/png');
+
+        const edited = await post('/api/edit-image', { parts: [{ inlineData: poster }, { text: 'Add a logo' }] });
+        expect(edited.status).toBe(200);
+        const { image } = await edited.json();
+        expect(image.mimeType).toBe('image/png');
+
+        const refined = await post('/api/edit-image', {
+            parts: [{ text: 'Make it brighter' }],
+            history: [
+                { role: 'user', parts: [{ inlineData: poster }, { text: 'Add a logo' }] },
+                { role: 'model', parts: [{ inlineData: image }] },
+            ],
+        });
+        expect(refined.status).toBe(200);
+        expect((await refined.json()).image).toBeTruthy();
+    });
+});
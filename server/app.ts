@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { GenerationProvider, EditImageRequest, GenerateImagesRequest, AnalyzeImageRequest, RequestPart, ConversationTurn } from '../generationService.js';
+import type { Logger } from './logger.js';
+import type { RateLimiter } from './rateLimiter.js';
+
+export interface ServerConfig {
+    maxBodyBytes: number;
+    maxParts: number;
+    maxHistoryTurns: number;
+    maxPromptLength: number;
+    maxImagesPerRequest: number;
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+    maxBodyBytes: 20 * 1024 * 1024,
+    maxParts: 6,
+    maxHistoryTurns: 16,
+    maxPromptLength: 20000,
+    maxImagesPerRequest: 4,
+};
+
+const ALLOWED_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const ALLOWED_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// An error with the HTTP status it should be reported with.
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+        const declaredLength = Number(req.headers['content-length']);
+        if (declaredLength > maxBytes) {
+            reject(new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`));
+            req.resume();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let received = 0;
+        req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > maxBytes) {
+                reject(new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch {
+                reject(new HttpError(400, 'Request body must be valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseParts = (parts: unknown, config: ServerConfig, field: string): RequestPart[] => {
+    if (!Array.isArray(parts) || parts.length === 0) {
+        throw new HttpError(400, `"${field}" must be a non-empty array.`);
+    }
+    if (parts.length > config.maxParts) {
+        throw new HttpError(400, `At most ${config.maxParts} parts are allowed.`);
+    }
+    return parts.map((part: unknown) => {
+        if (isObject(part) && typeof part.text === 'string') {
+            if (part.text.length > config.maxPromptLength) {
+                throw new HttpError(400, `Text parts are limited to ${config.maxPromptLength} characters.`);
+            }
+            return { text: part.text };
+        }
+        if (isObject(part) && isObject(part.inlineData)
+            && typeof part.inlineData.data === 'string'
+            && typeof part.inlineData.mimeType === 'string') {
+            if (!ALLOWED_IMAGE_MIME_TYPES.includes(part.inlineData.mimeType)) {
+                throw new HttpError(415, `Unsupported image type "${part.inlineData.mimeType}".`);
+            }
+            return { inlineData: { data: part.inlineData.data, mimeType: part.inlineData.mimeType } };
+        }
+        throw new HttpError(400, 'Each part must be either { text } or { inlineData: { data, mimeType } }.');
+    });
+};
+
+export const parseEditImageBody = (body: unknown, config: ServerConfig): EditImageRequest => {
+    if (!isObject(body)) {
+        throw new HttpError(400, '"parts" must be a non-empty array.');
+    }
+    const parts = parseParts(body.parts, config, 'parts');
+    if (body.history === undefined) {
+        return { parts };
+    }
+    if (!Array.isArray(body.history) || body.history.length > config.maxHistoryTurns) {
+        throw new HttpError(400, `"history" must be an array of at most ${config.maxHistoryTurns} turns.`);
+    }
+    const history: ConversationTurn[] = body.history.map((turn: unknown, index: number) => {
+        if (!isObject(turn) || (turn.role !== 'user' && turn.role !== 'model')) {
+            throw new HttpError(400, 'Each history turn must have a role of "user" or "model".');
+        }
+        return { role: turn.role, parts: parseParts(turn.parts, config, `history[${index}].parts`) };
+    });
+    return { parts, history };
+};
+
+export const parseGenerateImagesBody = (body: unknown, config: ServerConfig): GenerateImagesRequest => {
+    if (!isObject(body) || typeof body.prompt !== 'string' || !body.prompt.trim()) {
+        throw new HttpError(400, '"prompt" must be a non-empty string.');
+    }
+    if (body.prompt.length > config.maxPromptLength) {
+        throw new HttpError(400, `"prompt" is limited to ${config.maxPromptLength} characters.`);
+    }
+    const numberOfImages = body.numberOfImages ?? 1;
+    if (typeof numberOfImages !== 'number' || !Number.isInteger(numberOfImages) || numberOfImages < 1 || numberOfImages > config.maxImagesPerRequest) {
+        throw new HttpError(400, `"numberOfImages" must be an integer between 1 and ${config.maxImagesPerRequest}.`);
+    }
+    if (body.aspectRatio !== undefined && !ALLOWED_ASPECT_RATIOS.includes(body.aspectRatio as string)) {
+        throw new HttpError(400, `"aspectRatio" must be one of ${ALLOWED_ASPECT_RATIOS.join(', ')}.`);
+    }
+    if (body.outputMimeType !== undefined && !ALLOWED_IMAGE_MIME_TYPES.includes(body.outputMimeType as string)) {
+        throw new HttpError(400, `"outputMimeType" must be one of ${ALLOWED_IMAGE_MIME_TYPES.join(', ')}.`);
+    }
+    return {
+        prompt: body.prompt,
+        numberOfImages,
+        aspectRatio: body.aspectRatio as string | undefined,
+        outputMimeType: body.outputMimeType as string | undefined,
+    };
+};
+
+export const parseAnalyzeImageBody = (body: unknown, config: ServerConfig): AnalyzeImageRequest => {
+    if (!isObject(body)) {
+        throw new HttpError(400, '"parts" must be a non-empty array.');
+    }
+    const parts = parseParts(body.parts, config, 'parts');
+    if (!isObject(body.schema)) {
+        throw new HttpError(400, '"schema" must be a JSON Schema object.');
+    }
+    return { parts, schema: body.schema };
+};
+
+const ENDPOINTS = ['/api/edit-image', '/api/generate-images', '/api/analyze-image'];
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Identifies the client for rate limiting. X-Forwarded-For is only trusted when the direct peer is
+// a local proxy such as `vite preview`, otherwise any client could pick its own identity.
+export const clientIdFor = (req: IncomingMessage): string => {
+    const peer = req.socket.remoteAddress ?? 'unknown';
+    const forwarded = req.headers['x-forwarded-for'];
+    if (LOOPBACK_ADDRESSES.includes(peer) && typeof forwarded === 'string' && forwarded.trim()) {
+        return forwarded.split(',')[0].trim();
+    }
+    return peer;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+export interface AppDependencies {
+    provider: GenerationProvider;
+    rateLimiter: RateLimiter;
+    logger: Logger;
+    config?: ServerConfig;
+}
+
+// Builds the HTTP handler for the proxy. The Gemini key lives only in `provider`, on the server.
+export const createRequestHandler = ({ provider, rateLimiter, logger, config = DEFAULT_SERVER_CONFIG }: AppDependencies) =>
+    async (req: IncomingMessage, res: ServerResponse) => {
+        const startedAt = Date.now();
+        const requestId = randomUUID();
+        const clientId = clientIdFor(req);
+        const path = (req.url ?? '/').split('?')[0];
+        const log = logger.child({ requestId, clientId, method: req.method, path });
+
+        // Aborts the upstream call if the browser goes away (e.g. the user pressed Cancel).
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                controller.abort();
+            }
+        });
+
+        let status = 200;
+        try {
+            if (req.method === 'GET' && path === '/api/health') {
+                sendJson(res, 200, { status: 'ok', provider: provider.name });
+                return;
+            }
+            if (req.method !== 'POST' || !ENDPOINTS.includes(path)) {
+                throw new HttpError(404, 'Not found.');
+            }
+
+            const decision = rateLimiter.consume(clientId);
+            res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+            if (!decision.allowed) {
+                res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+                throw new HttpError(429, 'Too many requests. Please wait a moment and try again.');
+            }
+
+            const body = await readJsonBody(req, config.maxBodyBytes);
+            if (path === '/api/edit-image') {
+                const request = parseEditImageBody(body, config);
+                const { image, outcome, usage } = await provider.editImage({ ...request, signal: controller.signal });
+                if (!image) {
+                    log.info('no image returned', { outcome: outcome.kind, finishReason: outcome.details.finishReason });
+                }
+                sendJson(res, 200, { image, outcome, usage });
+            } else if (path === '/api/generate-images') {
+                const request = parseGenerateImagesBody(body, config);
+                const { images, outcome } = await provider.generateImages({ ...request, signal: controller.signal });
+                if (images.length === 0) {
+                    log.info('no image returned', { outcome: outcome.kind, filterReason: outcome.details.filterReason });
+                }
+                sendJson(res, 200, { images, outcome });
+            } else {
+                const request = parseAnalyzeImageBody(body, config);
+                const { data, usage } = await provider.analyzeImage({ ...request, signal: controller.signal });
+                sendJson(res, 200, { data, usage });
+            }
+        } catch (err) {
+            // Upstream errors keep their status (e.g. 429, 503) so the browser's retry policy still applies.
+            const upstreamStatus = (err as { status?: unknown })?.status;
+            status = typeof upstreamStatus === 'number' && upstreamStatus >= 400 && upstreamStatus < 600 ? upstreamStatus : 500;
+            const message = err instanceof HttpError || status !== 500
+                ? (err as Error).message
+                : 'The image service failed to process the request.';
+            if (status >= 500) {
+                log.error('request failed', { status, error: err instanceof Error ? err.message : String(err) });
+            }
+            if (!res.headersSent && !res.destroyed) {
+                sendJson(res, status, { error: { status, message } });
+            }
+        } finally {
+            log.info('request completed', { status, durationMs: Date.now() - startedAt });
+        }
+    };
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer } from 'node:http';
+import { loadEnv } from 'vite';
+import { GoogleGenAI } from '@google/genai';
+import { createGeminiProvider } from '../geminiProvider.js';
+import { createMockModelsClient, parseMockFailureMode } from '../mockProvider.js';
+import { createRequestHandler, DEFAULT_SERVER_CONFIG } from './app.js';
+import { createLogger, LogLevel } from './logger.js';
+import { createRateLimiter } from './rateLimiter.js';
+
+// Reads the same .env / .env.local files as the Vite build, so one file configures both.
+const env = { ...loadEnv(process.env.NODE_ENV === 'production' ? 'production' : 'development', process.cwd(), ''), ...process.env };
+
+const logger = createLogger((env.LOG_LEVEL as LogLevel) || 'info', { service: 'api-proxy' });
+const port = Number(env.API_PORT) || 8787;
+const providerName = env.SERVER_PROVIDER || 'gemini';
+
+const createProvider = () => {
+    if (providerName === 'mock') {
+        return createGeminiProvider(createMockModelsClient({
+            failureMode: parseMockFailureMode(env.MOCK_FAILURE_MODE),
+            latencyMs: Number(env.MOCK_LATENCY_MS) || undefined,
+        }), 'mock');
+    }
+    if (!env.GEMINI_API_KEY) {
+        logger.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment, or set SERVER_PROVIDER=mock.');
+        process.exit(1);
+    }
+    return createGeminiProvider(new GoogleGenAI({ apiKey: env.GEMINI_API_KEY }).models);
+};
+
+const handler = createRequestHandler({
+    provider: createProvider(),
+    rateLimiter: createRateLimiter(Number(env.RATE_LIMIT_MAX) || 20, Number(env.RATE_LIMIT_WINDOW_MS) || 60000),
+    logger,
+    config: {
+        ...DEFAULT_SERVER_CONFIG,
+        maxBodyBytes: Number(env.MAX_BODY_BYTES) || DEFAULT_SERVER_CONFIG.maxBodyBytes,
+    },
+});
+
+createServer(handler).listen(port, () => {
+    logger.info('api proxy listening', { port, provider: providerName });
+});
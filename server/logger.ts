@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    // Returns a logger that adds `fields` to every entry, e.g. a request id.
+    child(fields: LogFields): Logger;
+}
+
+// Writes one JSON object per line so logs can be shipped to any aggregator as-is.
+export const createLogger = (
+    minLevel: LogLevel = 'info',
+    baseFields: LogFields = {},
+    write: (line: string) => void = line => process.stdout.write(`${line}\n`)
+): Logger => {
+    const log = (level: LogLevel, message: string, fields: LogFields = {}) => {
+        if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+            return;
+        }
+        write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...baseFields, ...fields }));
+    };
+    return {
+        debug: (message, fields) => log('debug', message, fields),
+        info: (message, fields) => log('info', message, fields),
+        warn: (message, fields) => log('warn', message, fields),
+        error: (message, fields) => log('error', message, fields),
+        child: fields => createLogger(minLevel, { ...baseFields, ...fields }, write),
+    };
+};
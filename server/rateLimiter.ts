@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    // Milliseconds until the client may try again; 0 when allowed.
+    retryAfterMs: number;
+}
+
+export interface RateLimiter {
+    consume(clientId: string): RateLimitDecision;
+}
+
+// A token bucket per client: `capacity` requests may burst, refilled evenly over `windowMs`.
+export const createRateLimiter = (
+    capacity: number,
+    windowMs: number,
+    now: () => number = Date.now
+): RateLimiter => {
+    const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+    const refillPerMs = capacity / windowMs;
+
+    const prune = (time: number) => {
+        // Buckets that have refilled completely carry no state worth keeping.
+        buckets.forEach((bucket, clientId) => {
+            if (bucket.tokens + (time - bucket.updatedAt) * refillPerMs >= capacity) {
+                buckets.delete(clientId);
+            }
+        });
+    };
+
+    return {
+        consume(clientId) {
+            const time = now();
+            if (buckets.size > 10000) {
+                prune(time);
+            }
+            const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: time };
+            bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+            bucket.updatedAt = time;
+            buckets.set(clientId, bucket);
+
+            if (bucket.tokens < 1) {
+                return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+            }
+            bucket.tokens -= 1;
+            return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+        },
+    };
+};
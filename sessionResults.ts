@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import type { GeneratedImage } from './generationService.js';
+
+// A result produced since the page was opened, offered as an input to any tool.
+export interface SessionResult {
+    id: string;
+    toolId: string;
+    image: GeneratedImage;
+}
+
+// Results are full-size images held in memory, so only the most recent ones are kept.
+export const MAX_SESSION_RESULTS = 12;
+
+let results: SessionResult[] = [];
+const listeners = new Set<() => void>();
+
+// Newest first.
+export const listSessionResults = (): SessionResult[] => results;
+
+export const addSessionResults = (toolId: string, images: GeneratedImage[]) => {
+    const added = images.map(image => ({ id: crypto.randomUUID(), toolId, image }));
+    results = [...added.reverse(), ...results].slice(0, MAX_SESSION_RESULTS);
+    listeners.forEach(listener => listener());
+};
+
+export const useSessionResults = (): SessionResult[] => {
+    const [current, setCurrent] = useState<SessionResult[]>(results);
+
+    useEffect(() => {
+        const handleChange = () => setCurrent(results);
+        listeners.add(handleChange);
+        handleChange();
+        return () => {
+            listeners.delete(handleChange);
+        };
+    }, []);
+
+    return current;
+};
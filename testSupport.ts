@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi } from 'vitest';
+import { fireEvent } from '@testing-library/react';
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GenerateImagesResponse, Part } from "@google/genai";
+import { createGeminiProvider, GenAIModelsClient } from './geminiProvider.js';
+import { registerProvider, selectProvider, setRequestPolicy, GeneratedImage } from './generationService.js';
+import { base64ToBytes } from './imagePreprocessing.js';
+
+// Shared setup for the component tests: a generation client that never touches the network and
+// the few browser APIs jsdom lacks.
+
+// A 1x1 PNG without metadata, which preprocessing passes through unchanged.
+export const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+export const pngFile = (name: string = 'photo.png'): File => new File([base64ToBytes(PNG_BASE64)], name, { type: 'image/png' });
+
+export const generatedImage = (label: string): GeneratedImage => ({ data: btoa(label), mimeType: 'image/png' });
+
+export const imageResponse = (image: GeneratedImage) => Object.assign(new GenerateContentResponse(), {
+    candidates: [{ finishReason: FinishReason.STOP, content: { role: 'model', parts: [{ inlineData: image }] } }],
+});
+
+export const textResponse = (text: string) => Object.assign(new GenerateContentResponse(), {
+    candidates: [{ finishReason: FinishReason.STOP, content: { role: 'model', parts: [{ text }] } }],
+});
+
+export const imagesResponse = (images: GeneratedImage[]) => Object.assign(new GenerateImagesResponse(), {
+    generatedImages: images.map(image => ({ image: { imageBytes: image.data, mimeType: image.mimeType } })),
+});
+
+// Routes every request through the real Gemini response handling to the given mock functions,
+// with a single attempt so failures surface immediately.
+export const installTestClient = () => {
+    const client = {
+        generateContent: vi.fn<GenAIModelsClient['generateContent']>(),
+        generateImages: vi.fn<GenAIModelsClient['generateImages']>(),
+    };
+    registerProvider('test', () => createGeminiProvider(client, 'test'));
+    selectProvider('test');
+    setRequestPolicy({ maxAttempts: 1 });
+    return client;
+};
+
+// The parts of one generateContent call, e.g. `sentParts(client.generateContent.mock.calls[0][0])`.
+export const sentParts = ({ contents }: GenerateContentParameters): Part[] => (contents as { parts: Part[] }).parts;
+
+// jsdom cannot decode images or observe layout; decoding reports every image as 1x1.
+export const stubBrowserApis = () => {
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 1, height: 1, close() {} })));
+    vi.stubGlobal('ResizeObserver', class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+    });
+};
+
+export const uploadFile = (container: HTMLElement, inputId: string, file: File) => {
+    const input = container.querySelector<HTMLInputElement>(`input[type="file"]#${inputId}`);
+    if (!input) {
+        throw new Error(`No file input #${inputId}`);
+    }
+    fireEvent.change(input, { target: { files: [file] } });
+};
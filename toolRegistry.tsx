@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { lazy } from 'react';
+import { CameraIcon, OutfitIcon, BeautyIcon, PosterIcon, SocialIcon, DoodleIcon } from './icons.js';
+import type { ToolProps } from './toolSettings.js';
+import { tOr } from './i18n.js';
+
+export type ToolCategory = 'Portrait' | 'Marketing' | 'Creative';
+export const TOOL_CATEGORIES: ToolCategory[] = ['Portrait', 'Marketing', 'Creative'];
+
+// Everything the app needs to list, route to and load a tool. Adding a tool means adding an entry here.
+export interface ToolDefinition {
+    // Also the route path, e.g. `#/beautyCamera`, and the id stored with history records.
+    id: string;
+    // English; the catalogs translate them as `tools.<id>.title` and `tools.<id>.description`.
+    title: string;
+    description: string;
+    icon: React.ComponentType;
+    category: ToolCategory;
+    tags: string[];
+    // Loaded on demand, so the home grid does not pull in every tool's bundle.
+    component: React.LazyExoticComponent<React.ComponentType<ToolProps>>;
+}
+
+export const TOOLS: ToolDefinition[] = [
+    {
+        id: 'idPhoto',
+        title: 'AI Formal ID Photo Generator',
+        description: 'Transform a casual portrait into a professional ID photo with formal attire.',
+        icon: CameraIcon,
+        category: 'Portrait',
+        tags: ['passport', 'visa', 'suit', 'headshot', 'background'],
+        component: lazy(() => import('./IDPhotoGenerator.js').then(m => ({ default: m.IDPhotoGenerator }))),
+    },
+    {
+        id: 'outfitChanger',
+        title: 'AI Outfit & Pose Changer',
+        description: 'Change outfits and poses in your photos. Choose a style and color to see the magic.',
+        icon: OutfitIcon,
+        category: 'Portrait',
+        tags: ['clothing', 'fashion', 'pose', 'try-on'],
+        component: lazy(() => import('./OutfitChanger.js').then(m => ({ default: m.OutfitChanger }))),
+    },
+    {
+        id: 'beautyCamera',
+        title: 'AI Beauty Camera',
+        description: 'Retouch skin and enhance body shape for a perfect, natural-looking portrait.',
+        icon: BeautyIcon,
+        category: 'Portrait',
+        tags: ['retouch', 'skin', 'makeup', 'filter', 'selfie'],
+        component: lazy(() => import('./BeautyCamera.js').then(m => ({ default: m.BeautyCamera }))),
+    },
+    {
+        id: 'posterGenerator',
+        title: 'AI Poster Generator',
+        description: 'Create three unique commercial posters by providing a few simple details.',
+        icon: PosterIcon,
+        category: 'Marketing',
+        tags: ['advertising', 'slogan', 'logo', 'campaign'],
+        component: lazy(() => import('./PosterGenerator.js').then(m => ({ default: m.PosterGenerator }))),
+    },
+    {
+        id: 'socialMediaConverter',
+        title: 'Social Media Style Converter',
+        description: 'Adapt your images to the unique style of popular social media platforms.',
+        icon: SocialIcon,
+        category: 'Marketing',
+        tags: ['xiaohongshu', 'instagram', 'facebook', 'linkedin', 'filter'],
+        component: lazy(() => import('./SocialMediaConverter.js').then(m => ({ default: m.SocialMediaConverter }))),
+    },
+    {
+        id: 'doodleEnhancer',
+        title: 'AI Doodle Storyteller',
+        description: "Turn a kid's doodle into a multi-panel comic strip story.",
+        icon: DoodleIcon,
+        category: 'Creative',
+        tags: ['drawing', 'comic', 'kids', 'story', 'art'],
+        component: lazy(() => import('./DoodleEnhancer.js').then(m => ({ default: m.DoodleEnhancer }))),
+    },
+];
+
+export const getTool = (id: string): ToolDefinition | undefined => TOOLS.find(tool => tool.id === id);
+
+export const toolTitle = (tool: ToolDefinition): string => tOr(`tools.${tool.id}.title`, tool.title);
+
+export const toolDescription = (tool: ToolDefinition): string => tOr(`tools.${tool.id}.description`, tool.description);
+
+// Tool ids mapped to their titles in the current language.
+export const toolTitles = (): Record<string, string> => Object.fromEntries(TOOLS.map(tool => [tool.id, toolTitle(tool)]));
+
+// Case-insensitive match against the title, description and tags, both in English and in the
+// current language; every word of the query must match.
+export const filterTools = (tools: ToolDefinition[], query: string, category: ToolCategory | null): ToolDefinition[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return tools.filter(tool => {
+        if (category && tool.category !== category) {
+            return false;
+        }
+        const haystack = [tool.title, tool.description, toolTitle(tool), toolDescription(tool), ...tool.tags].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word));
+    });
+};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { replaceParams } from './router.js';
+
+// A tool's non-image settings. Only flat primitives, so they can round-trip through a query string.
+export type SettingsValue = string | number | boolean;
+export type ToolSettings = Record<string, SettingsValue>;
+
+// Props shared by every tool component. `routeParams` is the query string of the tool's route,
+// from which the tool restores its settings (deep links, reopened history entries).
+export interface ToolProps {
+    routeParams?: URLSearchParams;
+}
+
+// Restricts decoded values: a list of accepted values, or an inclusive numeric range.
+export type SettingsLimits<S extends ToolSettings> = {
+    [K in keyof S]?: readonly S[K][] | { min: number; max: number };
+};
+
+export const encodeSettings = (settings: ToolSettings): URLSearchParams => {
+    const params = new URLSearchParams();
+    Object.entries(settings).forEach(([key, value]) => params.set(key, String(value)));
+    return params;
+};
+
+// Reads settings from query parameters, coercing each value to the type of its default. Values
+// that are missing, malformed or outside the limits fall back to the default.
+export const decodeSettings = <S extends ToolSettings>(
+    params: URLSearchParams | undefined,
+    defaults: S,
+    limits: SettingsLimits<S> = {}
+): S => {
+    const settings = { ...defaults };
+    if (!params) {
+        return settings;
+    }
+    (Object.keys(defaults) as (keyof S & string)[]).forEach(key => {
+        const raw = params.get(key);
+        if (raw === null) {
+            return;
+        }
+        let value: SettingsValue;
+        switch (typeof defaults[key]) {
+            case 'number':
+                value = Number(raw);
+                if (raw.trim() === '' || Number.isNaN(value)) {
+                    return;
+                }
+                break;
+            case 'boolean':
+                if (raw !== 'true' && raw !== 'false') {
+                    return;
+                }
+                value = raw === 'true';
+                break;
+            default:
+                value = raw;
+        }
+        const limit = limits[key];
+        if (Array.isArray(limit) && !limit.includes(value as S[typeof key])) {
+            return;
+        }
+        if (limit && !Array.isArray(limit) && typeof value === 'number') {
+            const { min, max } = limit as { min: number; max: number };
+            value = Math.min(max, Math.max(min, value));
+        }
+        settings[key] = value as S[typeof key];
+    });
+    return settings;
+};
+
+// Decodes the route params once, when the tool mounts.
+export const useInitialSettings = <S extends ToolSettings>(
+    params: URLSearchParams | undefined,
+    defaults: S,
+    limits?: SettingsLimits<S>
+): S => useState(() => decodeSettings(params, defaults, limits))[0];
+
+// Mirrors the current settings into the URL so the address bar is always a shareable link.
+export const useSettingsInUrl = (settings: ToolSettings) => {
+    const query = encodeSettings(settings).toString();
+    useEffect(() => {
+        replaceParams(new URLSearchParams(query));
+    }, [query]);
+};
@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import type { GenerationProvider, ProviderModels, TokenUsage } from './generationService.js';
+import { isCancellation } from './requestPolicy.js';
+import { t, getLocale } from './i18n.js';
+
+export type UsageRequestKind = 'editImage' | 'generateImages' | 'analyzeImage';
+
+// One call to the backend, as billed: retries are separate records.
+export interface UsageRecord {
+    id: string;
+    toolId: string;
+    kind: UsageRequestKind;
+    model: string;
+    createdAt: number;
+    latencyMs: number;
+    succeeded: boolean;
+    // The outcome kind of an answer without an image, 'cancelled', or the error message.
+    failure?: string;
+    images: number;
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+// Prices in US dollars. A model is charged per image, per token, or both.
+export interface ModelPrice {
+    perImage: number;
+    perMillionInputTokens: number;
+    perMillionOutputTokens: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices at the time of writing; they can be edited on the usage page.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash-image-preview': { perImage: 0, perMillionInputTokens: 0.3, perMillionOutputTokens: 30 },
+    'imagen-4.0-generate-001': { perImage: 0.04, perMillionInputTokens: 0, perMillionOutputTokens: 0 },
+    'gemini-2.5-flash': { perImage: 0, perMillionInputTokens: 0.3, perMillionOutputTokens: 2.5 },
+};
+
+// Soft limits in US dollars; null means no limit. Exceeding one only asks for confirmation.
+export interface UsageBudgets {
+    daily: number | null;
+    monthly: number | null;
+}
+
+export const DEFAULT_BUDGETS: UsageBudgets = { daily: null, monthly: null };
+
+// The requests a run is about to make: image edits, images generated from text, and image analyses.
+export interface PlannedRun {
+    edits?: number;
+    generatedImages?: number;
+    analyses?: number;
+}
+
+// Older records are dropped so the log stays well within the storage quota.
+export const MAX_USAGE_RECORDS = 5000;
+
+// What one generated image costs in output tokens, used to estimate an edit before any is recorded.
+const NOMINAL_IMAGE_TOKENS = 1290;
+// The tokens of one photo analysis: the image and prompt in, a small JSON answer out.
+const NOMINAL_ANALYSIS_INPUT_TOKENS = 1500;
+const NOMINAL_ANALYSIS_OUTPUT_TOKENS = 200;
+
+const USAGE_KEY = 'ai-tool-collection.usage';
+const PRICES_KEY = 'ai-tool-collection.prices';
+const BUDGETS_KEY = 'ai-tool-collection.budgets';
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        return JSON.parse(localStorage.getItem(key) ?? 'null') ?? fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.error(`Failed to save ${key}`, err);
+    }
+};
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+// Oldest first.
+export const listUsageRecords = (): UsageRecord[] => {
+    const records = readJson<unknown>(USAGE_KEY, []);
+    return Array.isArray(records) ? records : [];
+};
+
+export const addUsageRecord = (record: Omit<UsageRecord, 'id'>) => {
+    const records = [...listUsageRecords(), { id: crypto.randomUUID(), ...record }];
+    writeJson(USAGE_KEY, records.slice(-MAX_USAGE_RECORDS));
+    notify();
+};
+
+export const clearUsageRecords = () => {
+    writeJson(USAGE_KEY, []);
+    notify();
+};
+
+export const loadPriceTable = (): PriceTable => ({ ...DEFAULT_PRICE_TABLE, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+export const savePriceTable = (prices: PriceTable) => {
+    writeJson(PRICES_KEY, prices);
+    notify();
+};
+
+export const loadBudgets = (): UsageBudgets => ({ ...DEFAULT_BUDGETS, ...readJson<Partial<UsageBudgets>>(BUDGETS_KEY, {}) });
+
+export const saveBudgets = (budgets: UsageBudgets) => {
+    writeJson(BUDGETS_KEY, budgets);
+    notify();
+};
+
+// The estimated cost of one request, or null when the table has no price for its model.
+export const requestCost = (record: Pick<UsageRecord, 'model' | 'images' | 'inputTokens' | 'outputTokens'>, prices: PriceTable): number | null => {
+    const price = prices[record.model];
+    if (!price) {
+        return null;
+    }
+    return record.images * price.perImage
+        + (record.inputTokens ?? 0) * price.perMillionInputTokens / 1e6
+        + (record.outputTokens ?? 0) * price.perMillionOutputTokens / 1e6;
+};
+
+export interface UsageSummary {
+    key: string;
+    requests: number;
+    failed: number;
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    // Requests whose model has no price, so `cost` leaves them out.
+    unpriced: number;
+}
+
+// Totals per group, in order of first appearance.
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable, groupOf: (record: UsageRecord) => string): UsageSummary[] => {
+    const groups = new Map<string, UsageSummary>();
+    for (const record of records) {
+        const key = groupOf(record);
+        const summary = groups.get(key) ?? { key, requests: 0, failed: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 };
+        const cost = requestCost(record, prices);
+        summary.requests += 1;
+        summary.failed += record.succeeded ? 0 : 1;
+        summary.images += record.images;
+        summary.inputTokens += record.inputTokens ?? 0;
+        summary.outputTokens += record.outputTokens ?? 0;
+        summary.cost += cost ?? 0;
+        summary.unpriced += cost === null ? 1 : 0;
+        groups.set(key, summary);
+    }
+    return [...groups.values()];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The local calendar day, e.g. "2024-05-31".
+export const dayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const monthKey = (timestamp: number): string => dayKey(timestamp).slice(0, 7);
+
+const spentInPeriod = (records: UsageRecord[], prices: PriceTable, keyOf: (timestamp: number) => string, now: number): number =>
+    records
+        .filter(record => keyOf(record.createdAt) === keyOf(now))
+        .reduce((total, record) => total + (requestCost(record, prices) ?? 0), 0);
+
+// The average of recent successful requests to `model`, or the cost of `nominal` before there are any.
+const estimatedRequestCost = (
+    records: UsageRecord[],
+    prices: PriceTable,
+    model: string,
+    nominal: Pick<UsageRecord, 'images' | 'inputTokens' | 'outputTokens'>
+): number => {
+    const recent = records.filter(record => record.model === model && record.succeeded).slice(-50);
+    const costs = recent.map(record => requestCost(record, prices)).filter((cost): cost is number => cost !== null);
+    if (costs.length > 0) {
+        return costs.reduce((total, cost) => total + cost, 0) / costs.length;
+    }
+    return requestCost({ model, ...nominal }, prices) ?? 0;
+};
+
+export const estimateRunCost = (run: PlannedRun, models: ProviderModels, records: UsageRecord[], prices: PriceTable): number =>
+    (run.edits ?? 0) * estimatedRequestCost(records, prices, models.editImage, { images: 1, outputTokens: NOMINAL_IMAGE_TOKENS })
+    + (requestCost({ model: models.generateImages, images: run.generatedImages ?? 0 }, prices) ?? 0)
+    + (run.analyses ?? 0) * estimatedRequestCost(records, prices, models.analyzeImage, {
+        images: 0, inputTokens: NOMINAL_ANALYSIS_INPUT_TOKENS, outputTokens: NOMINAL_ANALYSIS_OUTPUT_TOKENS,
+    });
+
+// Small amounts keep a third decimal, since single requests cost a few cents.
+export const formatCost = (amount: number): string =>
+    new Intl.NumberFormat(getLocale(), { style: 'currency', currency: 'USD', maximumFractionDigits: amount < 1 ? 3 : 2 }).format(amount);
+
+// A warning when the run would take today's or this month's spending over its budget, otherwise null.
+export const budgetWarning = (run: PlannedRun, models: ProviderModels, now: number = Date.now()): string | null => {
+    const budgets = loadBudgets();
+    if (budgets.daily === null && budgets.monthly === null) {
+        return null;
+    }
+    const records = listUsageRecords();
+    const prices = loadPriceTable();
+    const estimate = estimateRunCost(run, models, records, prices);
+    const checks = [
+        { budget: budgets.daily, spent: spentInPeriod(records, prices, dayKey, now), key: 'usage.budgetWarningDaily' as const },
+        { budget: budgets.monthly, spent: spentInPeriod(records, prices, monthKey, now), key: 'usage.budgetWarningMonthly' as const },
+    ];
+    const exceeded = checks.find(check => check.budget !== null && check.spent + estimate > check.budget);
+    return exceeded
+        ? t(exceeded.key, { spent: formatCost(exceeded.spent), estimate: formatCost(estimate), budget: formatCost(exceeded.budget!) })
+        : null;
+};
+
+// Records every call to the wrapped provider. Tracking must never break a request, so a failure to
+// save is only logged.
+export const withUsageTracking = (provider: GenerationProvider): GenerationProvider => {
+    const track = async <T>(
+        kind: UsageRequestKind,
+        toolId: string | undefined,
+        call: () => Promise<T>,
+        describe: (result: T) => { images: number; failure?: string; usage?: TokenUsage }
+    ): Promise<T> => {
+        const startedAt = Date.now();
+        const record = (fields: { images: number; succeeded: boolean; failure?: string; usage?: TokenUsage }) => addUsageRecord({
+            toolId: toolId ?? 'unknown',
+            kind,
+            model: provider.models[kind],
+            createdAt: startedAt,
+            latencyMs: Date.now() - startedAt,
+            succeeded: fields.succeeded,
+            failure: fields.failure,
+            images: fields.images,
+            inputTokens: fields.usage?.inputTokens,
+            outputTokens: fields.usage?.outputTokens,
+        });
+        try {
+            const result = await call();
+            const { images, failure, usage } = describe(result);
+            record({ images, succeeded: failure === undefined, failure, usage });
+            return result;
+        } catch (err) {
+            record({ images: 0, succeeded: false, failure: isCancellation(err) ? 'cancelled' : err instanceof Error ? err.message : String(err) });
+            throw err;
+        }
+    };
+
+    return {
+        name: provider.name,
+        models: provider.models,
+        editImage: request => track('editImage', request.toolId, () => provider.editImage(request), result => ({
+            images: result.image ? 1 : 0,
+            failure: result.image ? undefined : result.outcome.kind,
+            usage: result.usage,
+        })),
+        generateImages: request => track('generateImages', request.toolId, () => provider.generateImages(request), result => ({
+            images: result.images.length,
+            failure: result.images.length > 0 ? undefined : result.outcome.kind,
+        })),
+        analyzeImage: request => track('analyzeImage', request.toolId, () => provider.analyzeImage(request), result => ({
+            images: 0,
+            usage: result.usage,
+        })),
+    };
+};
+
+// The usage log, price table and budgets, kept current as requests are recorded.
+export const useUsage = () => {
+    const read = () => ({ records: listUsageRecords(), prices: loadPriceTable(), budgets: loadBudgets() });
+    const [usage, setUsage] = useState(read);
+
+    useEffect(() => {
+        const handleChange = () => setUsage(read());
+        listeners.add(handleChange);
+        handleChange();
+        return () => {
+            listeners.delete(handleChange);
+        };
+    }, []);
+
+    return usage;
+};
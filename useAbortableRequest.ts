@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+
+// Owns the AbortController of a tool's in-flight generation. Starting a new request cancels the
+// previous one, and unmounting the tool (e.g. navigating back) cancels whatever is still running.
+export const useAbortableRequest = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const start = useCallback((): AbortSignal => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return controller.signal;
+    }, []);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+    }, []);
+
+    return { start, cancel };
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useCallback } from 'react';
+import type { GeneratedImage } from './generationService.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { isCancellation } from './requestPolicy.js';
+import { useAbortableRequest } from './useAbortableRequest.js';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+    id: string;
+    file: File;
+    status: BatchItemStatus;
+    attempts: number;
+    output: GeneratedImage | null;
+    error: string | null;
+}
+
+// Turns one input file into its output. Throwing marks the item as failed with the error's message.
+export type BatchProcessor = (file: File, signal: AbortSignal) => Promise<GeneratedImage>;
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// A queue of files processed with the same settings. `run` works through every queued item with at
+// most `concurrency` requests in flight; cancelling puts unfinished items back in the queue.
+export const useBatchQueue = () => {
+    const itemsRef = useRef<BatchItem[]>([]);
+    const nextIdRef = useRef(0);
+    const runSignalRef = useRef<AbortSignal | null>(null);
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const { start: startRequest, cancel } = useAbortableRequest();
+
+    // Workers read the latest items synchronously, so the ref is the source of truth.
+    const commit = (next: BatchItem[]) => {
+        itemsRef.current = next;
+        setItems(next);
+    };
+
+    const update = (id: string, patch: Partial<BatchItem>) =>
+        commit(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+
+    const add = useCallback((files: File[]) => {
+        commit([
+            ...itemsRef.current,
+            ...files.map(file => ({
+                id: String(nextIdRef.current++),
+                file,
+                status: 'queued' as const,
+                attempts: 0,
+                output: null,
+                error: null,
+            })),
+        ]);
+    }, []);
+
+    const remove = useCallback((id: string) => commit(itemsRef.current.filter(item => item.id !== id)), []);
+
+    const clear = useCallback(() => {
+        cancel();
+        commit([]);
+    }, [cancel]);
+
+    const retry = useCallback((id?: string) => {
+        commit(itemsRef.current.map(item =>
+            item.status === 'failed' && (id === undefined || item.id === id)
+                ? { ...item, status: 'queued', error: null }
+                : item
+        ));
+    }, []);
+
+    const run = useCallback(async (process: BatchProcessor, concurrency: number) => {
+        const signal = startRequest();
+        runSignalRef.current = signal;
+        const queued = itemsRef.current.filter(item => item.status === 'queued').map(item => item.id);
+        setIsRunning(true);
+
+        await mapWithConcurrency(queued, concurrency, async (id: string) => {
+            const item = itemsRef.current.find(candidate => candidate.id === id);
+            if (!item || item.status !== 'queued') {
+                return;
+            }
+            update(id, { status: 'running', attempts: item.attempts + 1, error: null });
+            try {
+                update(id, { status: 'done', output: await process(item.file, signal) });
+            } catch (err) {
+                if (isCancellation(err)) {
+                    update(id, { status: 'queued' });
+                    return;
+                }
+                console.error(err);
+                update(id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+            }
+        }, signal);
+
+        // A newer run may have started after this one was cancelled.
+        if (runSignalRef.current === signal) {
+            setIsRunning(false);
+        }
+    }, [startRequest]);
+
+    return { items, isRunning, add, remove, clear, retry, run, stop: cancel };
+};
+
+export type BatchQueue = ReturnType<typeof useBatchQueue>;
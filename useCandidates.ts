@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useCallback } from 'react';
+import type { GeneratedImage } from './generationService.js';
+
+export interface Candidate {
+    id: string;
+    image: GeneratedImage;
+}
+
+// Holds the images of a tool's latest run. `selected` is the one shown and downloaded; the starred
+// favorite survives "keep favorite", which discards every other candidate.
+export const useCandidates = () => {
+    const [candidates, setCandidates] = useState<Candidate[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [favoriteId, setFavoriteId] = useState<string | null>(null);
+    const nextIdRef = useRef(0);
+
+    const replace = useCallback((images: GeneratedImage[]) => {
+        const next = images.map(image => ({ id: String(nextIdRef.current++), image }));
+        setCandidates(next);
+        setSelectedId(next[0]?.id ?? null);
+        setFavoriteId(null);
+    }, []);
+
+    const clear = useCallback(() => replace([]), [replace]);
+
+    const toggleFavorite = useCallback((id: string) => {
+        setFavoriteId(current => current === id ? null : id);
+        setSelectedId(id);
+    }, []);
+
+    const discard = useCallback((id: string) => {
+        setCandidates(current => current.filter(candidate => candidate.id !== id));
+        setFavoriteId(current => current === id ? null : current);
+    }, []);
+
+    const keepFavorite = useCallback(() => {
+        if (favoriteId) {
+            setCandidates(current => current.filter(candidate => candidate.id === favoriteId));
+            setSelectedId(favoriteId);
+        }
+    }, [favoriteId]);
+
+    const selected = candidates.find(candidate => candidate.id === selectedId) ?? candidates[0] ?? null;
+
+    return { candidates, selected, favoriteId, replace, clear, select: setSelectedId, toggleFavorite, discard, keepFavorite };
+};
+
+export type CandidatesState = ReturnType<typeof useCandidates>;
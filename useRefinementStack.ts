@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useCallback } from 'react';
+import { imagePart, ConversationTurn, GeneratedImage, RequestPart } from './generationService.js';
+import { buildRefinementPrompt } from './prompts/refinement.js';
+
+// A follow-up instruction and the image it produced. `prompt` is the text that was sent when it
+// was not built from the instruction, e.g. for a compliance fix.
+export interface RefinementStep {
+    instruction: string;
+    image: GeneratedImage;
+    prompt?: string;
+}
+
+// Only the most recent steps are replayed, which keeps the request body well under the server's limit.
+export const MAX_HISTORY_STEPS = 4;
+
+// Rebuilds the conversation so far: the tool's original request, the image it returned, then the
+// applied refinements with their results. The next instruction is sent as a follow-up to these turns.
+export const buildRefinementHistory = (initialParts: RequestPart[], base: GeneratedImage, steps: RefinementStep[]): ConversationTurn[] => [
+    { role: 'user', parts: initialParts },
+    { role: 'model', parts: [imagePart(base.data, base.mimeType)] },
+    ...steps.slice(-MAX_HISTORY_STEPS).flatMap((step): ConversationTurn[] => [
+        { role: 'user', parts: [{ text: step.prompt ?? buildRefinementPrompt(step.instruction) }] },
+        { role: 'model', parts: [imagePart(step.image.data, step.image.mimeType)] },
+    ]),
+];
+
+// Undo/redo stack of refinements on top of `base`. `position` counts the applied steps; steps
+// after it can be redone until a new refinement replaces them. A new base starts a fresh stack.
+export const useRefinementStack = (base: GeneratedImage | null) => {
+    const [steps, setSteps] = useState<RefinementStep[]>([]);
+    const [position, setPosition] = useState<number>(0);
+
+    const [stackBase, setStackBase] = useState<GeneratedImage | null>(base);
+    if (base !== stackBase) {
+        setStackBase(base);
+        setSteps([]);
+        setPosition(0);
+    }
+
+    const push = useCallback((step: RefinementStep) => {
+        setSteps(current => [...current.slice(0, position), step]);
+        setPosition(position + 1);
+    }, [position]);
+
+    const undo = useCallback(() => setPosition(current => Math.max(0, current - 1)), []);
+    const redo = useCallback(() => setPosition(current => Math.min(steps.length, current + 1)), [steps.length]);
+
+    const applied = steps.slice(0, position);
+
+    return {
+        base,
+        steps,
+        applied,
+        position,
+        current: applied.length > 0 ? applied[applied.length - 1].image : base,
+        canUndo: position > 0,
+        canRedo: position < steps.length,
+        push,
+        undo,
+        redo,
+    };
+};
+
+export type RefinementStack = ReturnType<typeof useRefinementStack>;
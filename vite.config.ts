@@ -3,10 +3,21 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key is read only by the API server (server/index.ts) and is never inlined here.
+    const apiProxy = {
+      '/api': {
+        target: `http://localhost:${Number(env.API_PORT) || 8787}`,
+        xfwd: true,
+      },
+    };
     return {
+      server: { proxy: apiProxy },
+      preview: { proxy: apiProxy },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER || ''),
+        'process.env.MOCK_FAILURE_MODE': JSON.stringify(env.MOCK_FAILURE_MODE || ''),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS || ''),
+        'process.env.MAX_IMAGE_DIMENSION': JSON.stringify(env.MAX_IMAGE_DIMENSION || '')
       },
       resolve: {
         alias: {